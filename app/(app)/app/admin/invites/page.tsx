@@ -0,0 +1,53 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getInviteAnalytics } from "@/app/actions/admin";
+import { AdminInvitesView } from "@/components/admin-invites-view";
+
+export const metadata = {
+  title: "Invite Growth - INSPIRE-LAB",
+  description: "Invite tree and community growth analytics",
+};
+
+export default async function AdminInvitesPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  // Invite analytics are admin-only
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true, totpEnabledAt: true },
+  });
+
+  if (user?.role !== "ADMIN") {
+    redirect("/app");
+  }
+
+  // Admin tools require two-factor authentication
+  if (!user.totpEnabledAt) {
+    redirect("/me/account");
+  }
+
+  const result = await getInviteAnalytics();
+
+  if ("error" in result) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-4xl font-bold mb-8">Invite Growth</h1>
+        <p className="text-muted-foreground">Failed to load invite analytics</p>
+      </div>
+    );
+  }
+
+  return (
+    <AdminInvitesView
+      tree={result.tree}
+      redemptionsByWeek={result.redemptionsByWeek}
+      inviters={result.inviters}
+      totals={result.totals}
+    />
+  );
+}
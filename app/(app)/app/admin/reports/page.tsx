@@ -14,13 +14,18 @@ export default async function AdminReportsPage() {
   const { prisma } = await import("@/lib/prisma");
   const user = await prisma.user.findUnique({
     where: { id: session.user.id },
-    select: { role: true },
+    select: { role: true, totpEnabledAt: true },
   });
 
   if (user?.role !== "ADMIN" && user?.role !== "MODERATOR") {
     redirect("/app");
   }
 
+  // Admin tools require two-factor authentication
+  if (!user.totpEnabledAt) {
+    redirect("/me/account");
+  }
+
   // Load initial reports
   const result = await getReports({ status: "PENDING", limit: 50 });
 
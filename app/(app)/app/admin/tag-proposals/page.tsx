@@ -0,0 +1,47 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { getTagProposalQueue } from "@/app/actions/tag-proposals";
+import { AdminTagProposalsView } from "@/components/admin-tag-proposals-view";
+
+export default async function AdminTagProposalsPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is admin/moderator
+  const { prisma } = await import("@/lib/prisma");
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true, totpEnabledAt: true },
+  });
+
+  if (user?.role !== "ADMIN" && user?.role !== "MODERATOR") {
+    redirect("/app");
+  }
+
+  // Admin tools require two-factor authentication
+  if (!user.totpEnabledAt) {
+    redirect("/me/account");
+  }
+
+  const result = await getTagProposalQueue();
+
+  if (result.error || !result.proposals) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-4xl font-bold mb-8">Tag Proposals</h1>
+        <p className="text-muted-foreground">Failed to load tag proposals</p>
+      </div>
+    );
+  }
+
+  return (
+    <AdminTagProposalsView
+      proposals={result.proposals}
+      skillTags={result.approvedSkillTags}
+      toolTags={result.approvedToolTags}
+    />
+  );
+}
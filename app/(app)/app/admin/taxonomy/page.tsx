@@ -0,0 +1,46 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getTaxonomy } from "@/app/actions/taxonomy";
+import { AdminTaxonomyView } from "@/components/admin-taxonomy-view";
+
+export const metadata = {
+  title: "Taxonomy - INSPIRE-LAB",
+  description: "Manage skill and tool tags",
+};
+
+export default async function AdminTaxonomyPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  // Taxonomy administration is admin-only
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true, totpEnabledAt: true },
+  });
+
+  if (user?.role !== "ADMIN") {
+    redirect("/app");
+  }
+
+  // Admin tools require two-factor authentication
+  if (!user.totpEnabledAt) {
+    redirect("/me/account");
+  }
+
+  const [skillResult, toolResult] = await Promise.all([getTaxonomy("skill"), getTaxonomy("tool")]);
+
+  if (!skillResult.tags || !toolResult.tags) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-4xl font-bold mb-8">Taxonomy</h1>
+        <p className="text-muted-foreground">Failed to load tags</p>
+      </div>
+    );
+  }
+
+  return <AdminTaxonomyView skillTags={skillResult.tags} toolTags={toolResult.tags} />;
+}
@@ -0,0 +1,43 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { getVerificationQueue } from "@/app/actions/verification";
+import { AdminVerificationsView } from "@/components/admin-verifications-view";
+
+export default async function AdminVerificationsPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is admin/moderator
+  const { prisma } = await import("@/lib/prisma");
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true, totpEnabledAt: true },
+  });
+
+  if (user?.role !== "ADMIN" && user?.role !== "MODERATOR") {
+    redirect("/app");
+  }
+
+  // Admin tools require two-factor authentication
+  if (!user.totpEnabledAt) {
+    redirect("/me/account");
+  }
+
+  const result = await getVerificationQueue({ limit: 50 });
+
+  if (result.error || !result.qualifications) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-4xl font-bold mb-8">Verifications</h1>
+        <p className="text-muted-foreground">Failed to load verification requests</p>
+      </div>
+    );
+  }
+
+  return (
+    <AdminVerificationsView requests={result.qualifications} hasMore={result.hasMore || false} />
+  );
+}
@@ -1,9 +1,19 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { DirectoryFeed } from "@/components/directory-feed";
+import { ProfileCompleteness } from "@/components/profile-completeness";
 import { prisma } from "@/lib/prisma";
+import { getProfileCompleteness } from "@/lib/profile-completeness";
+import { parseSavedSearchFilters } from "@/lib/saved-searches";
 
-export default async function AppHomePage() {
+interface AppHomePageProps {
+  searchParams: Promise<{
+    savedSearch?: string;
+  }>;
+}
+
+export default async function AppHomePage({ searchParams }: AppHomePageProps) {
+  const { savedSearch: savedSearchId } = await searchParams;
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -26,18 +36,42 @@ export default async function AppHomePage() {
   }
 
   // Load all skill and tool tags for filters
-  const [skillTags, toolTags] = await Promise.all([
+  const [skillTags, toolTags, completeness, savedSearches] = await Promise.all([
     prisma.skillTag.findMany({
+      where: { status: "APPROVED" },
       orderBy: [{ category: "asc" }, { name: "asc" }],
     }),
     prisma.toolTag.findMany({
+      where: { status: "APPROVED" },
       orderBy: [{ category: "asc" }, { name: "asc" }],
     }),
+    getProfileCompleteness(session.user.id),
+    prisma.savedSearch.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, name: true, filters: true, alertsEnabled: true },
+    }),
   ]);
 
+  const savedSearchItems = savedSearches.map((savedSearch) => ({
+    ...savedSearch,
+    filters: parseSavedSearchFilters(savedSearch.filters),
+  }));
+
   return (
     <div className="min-h-screen">
-      <DirectoryFeed skillTags={skillTags} toolTags={toolTags} />
+      {/* Nudge thin profiles toward the next steps */}
+      {completeness && completeness.score < 100 && (
+        <div className="container mx-auto px-4 pt-8 max-w-2xl">
+          <ProfileCompleteness completeness={completeness} remainingOnly />
+        </div>
+      )}
+      <DirectoryFeed
+        skillTags={skillTags}
+        toolTags={toolTags}
+        savedSearches={savedSearchItems}
+        initialFilters={savedSearchItems.find((item) => item.id === savedSearchId)?.filters}
+      />
     </div>
   );
 }
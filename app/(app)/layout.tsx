@@ -1,5 +1,6 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
 
 export default async function AppLayout({
   children,
@@ -12,5 +13,15 @@ export default async function AppLayout({
     redirect("/sign-in");
   }
 
+  // Accounts scheduled for deletion can only cancel the deletion
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { status: true },
+  });
+
+  if (user?.status === "PENDING_DELETION") {
+    redirect("/account-deletion");
+  }
+
   return <>{children}</>;
 }
@@ -0,0 +1,101 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getTwoFactorStatus } from "@/app/actions/two-factor";
+import { getMySessions } from "@/app/actions/sessions";
+import { getHandleSettings } from "@/app/actions/profile";
+import { getDataExports } from "@/app/actions/account";
+import { HANDLE_CHANGE_COOLDOWN_DAYS } from "@/lib/handles";
+import { ACCOUNT_DELETION_GRACE_DAYS } from "@/lib/account-deletion";
+import { HandleSettings } from "@/components/account/handle-settings";
+import { TwoFactorSettings } from "@/components/account/two-factor-settings";
+import { ActiveSessions } from "@/components/account/active-sessions";
+import { DataExportSettings } from "@/components/account/data-export";
+import { DeleteAccount } from "@/components/account/delete-account";
+
+export const metadata = {
+  title: "Account - INSPIRE-LAB",
+  description: "Manage your handle, sign-in security, sessions and personal data",
+};
+
+export default async function AccountPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  // Check user status
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { status: true },
+  });
+
+  if (user?.status === "SUSPENDED") {
+    redirect("/suspended");
+  }
+
+  if (user?.status === "PENDING") {
+    redirect("/onboarding");
+  }
+
+  const [handleSettings, twoFactor, sessions, dataExports] = await Promise.all([
+    getHandleSettings(),
+    getTwoFactorStatus(),
+    getMySessions(),
+    getDataExports(),
+  ]);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+      <div className="mb-2">
+        <h1 className="text-4xl font-bold mb-2">Account</h1>
+        <p className="text-muted-foreground">
+          Manage your handle and how you sign in to INSPIRE-LAB
+        </p>
+      </div>
+
+      {"error" in handleSettings ? (
+        <p className="text-muted-foreground">Failed to load handle settings</p>
+      ) : (
+        <HandleSettings
+          handle={handleSettings.handle}
+          nextChangeAt={handleSettings.nextChangeAt}
+          previousHandles={handleSettings.previousHandles}
+          cooldownDays={HANDLE_CHANGE_COOLDOWN_DAYS}
+        />
+      )}
+
+      {"error" in twoFactor ? (
+        <p className="text-muted-foreground">Failed to load account security settings</p>
+      ) : (
+        <TwoFactorSettings
+          enabled={twoFactor.enabled}
+          required={twoFactor.required}
+          hasPassword={twoFactor.hasPassword}
+          recoveryCodesRemaining={twoFactor.recoveryCodesRemaining}
+        />
+      )}
+
+      {"error" in sessions ? (
+        <p className="text-muted-foreground">Failed to load active sessions</p>
+      ) : (
+        <ActiveSessions sessions={sessions.sessions} />
+      )}
+
+      {"error" in dataExports ? (
+        <p className="text-muted-foreground">Failed to load data exports</p>
+      ) : (
+        <DataExportSettings exports={dataExports.exports} />
+      )}
+
+      {!("error" in twoFactor) && (
+        <DeleteAccount
+          hasPassword={twoFactor.hasPassword}
+          twoFactorEnabled={twoFactor.enabled}
+          graceDays={ACCOUNT_DELETION_GRACE_DAYS}
+        />
+      )}
+    </div>
+  );
+}
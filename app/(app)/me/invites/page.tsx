@@ -0,0 +1,45 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getMyInviteCodes } from "@/app/actions/invites";
+import { InviteCodesManager } from "@/components/invite-codes-manager";
+
+export const metadata = {
+  title: "Invites - INSPIRE-LAB",
+  description: "Invite people to INSPIRE-LAB",
+};
+
+export default async function InvitesPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  // Check user status
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { status: true },
+  });
+
+  if (user?.status === "SUSPENDED") {
+    redirect("/suspended");
+  }
+
+  if (user?.status === "PENDING") {
+    redirect("/onboarding");
+  }
+
+  const result = await getMyInviteCodes();
+
+  if ("error" in result || !result.codes) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-4xl font-bold mb-8">Invites</h1>
+        <p className="text-muted-foreground">Failed to load invite codes</p>
+      </div>
+    );
+  }
+
+  return <InviteCodesManager codes={result.codes} quota={result.quota} />;
+}
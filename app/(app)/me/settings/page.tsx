@@ -3,8 +3,17 @@ import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { getAllSkillTags, getAllToolTags } from "@/app/actions/profile";
 import { ProfileSettings } from "@/components/profile-settings";
+import { getNotificationChannels } from "@/lib/notifications";
+import { getProfileCompleteness } from "@/lib/profile-completeness";
 
-export default async function SettingsPage() {
+interface SettingsPageProps {
+  searchParams: Promise<{
+    tab?: string;
+  }>;
+}
+
+export default async function SettingsPage({ searchParams }: SettingsPageProps) {
+  const { tab } = await searchParams;
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -53,16 +62,22 @@ export default async function SettingsPage() {
   }
 
   // Load all available tags for adding new skills/tools
-  const [skillTagsResult, toolTagsResult] = await Promise.all([
-    getAllSkillTags(),
-    getAllToolTags(),
-  ]);
+  const [skillTagsResult, toolTagsResult, notificationPreferences, completeness] =
+    await Promise.all([
+      getAllSkillTags(),
+      getAllToolTags(),
+      getNotificationChannels(user.id),
+      getProfileCompleteness(user.id),
+    ]);
 
   return (
     <ProfileSettings
       user={user}
       skillTags={skillTagsResult.tags || []}
       toolTags={toolTagsResult.tags || []}
+      notificationPreferences={notificationPreferences}
+      completeness={completeness}
+      defaultTab={tab}
     />
   );
 }
@@ -0,0 +1,41 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { publishNotificationEvent, resolveNotificationHref } from "@/lib/notifications";
+
+interface Props {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Opens a notification: marks it read and redirects to the entity it refers to.
+ */
+export default async function OpenNotificationPage({ params }: Props) {
+  const { id } = await params;
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  const notification = await prisma.notification.findFirst({
+    where: { id, userId: session.user.id },
+    select: { id: true, userId: true, read: true, entityType: true, entityId: true },
+  });
+
+  if (!notification) {
+    redirect("/notifications");
+  }
+
+  if (!notification.read) {
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: { read: true },
+    });
+    await publishNotificationEvent(session.user.id, { type: "read", ids: [notification.id] });
+  }
+
+  redirect(await resolveNotificationHref(notification));
+}
@@ -0,0 +1,51 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getNotifications } from "@/app/actions/notifications";
+import { NotificationList } from "@/components/notifications/notification-list";
+
+export const metadata = {
+  title: "Notifications - INSPIRE-LAB",
+  description: "Your notifications",
+};
+
+export default async function NotificationsPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  // Check user status
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { status: true },
+  });
+
+  if (user?.status === "SUSPENDED") {
+    redirect("/suspended");
+  }
+
+  if (user?.status === "PENDING") {
+    redirect("/onboarding");
+  }
+
+  const result = await getNotifications();
+
+  if (result.error || !result.notifications) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-4xl font-bold mb-8">Notifications</h1>
+        <p className="text-muted-foreground">Failed to load notifications</p>
+      </div>
+    );
+  }
+
+  return (
+    <NotificationList
+      initialNotifications={result.notifications}
+      initialCursor={result.nextCursor}
+      initialHasMore={result.hasMore}
+    />
+  );
+}
@@ -1,6 +1,7 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { getUserProfile } from "@/app/actions/profile";
+import { resolveHandleRedirect } from "@/lib/handles";
 import { ProfileView } from "@/components/profile-view";
 
 interface ProfilePageProps {
@@ -20,6 +21,12 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
   const result = await getUserProfile(handle, session.user.id);
 
   if (result.error || !result.user) {
+    // Old handles redirect to the member's current profile
+    const currentHandle = await resolveHandleRedirect(handle);
+    if (currentHandle) {
+      redirect(`/u/${currentHandle}`);
+    }
+
     return (
       <div className="container mx-auto px-4 py-16 text-center">
         <h1 className="text-2xl font-bold mb-4">Profile Not Found</h1>
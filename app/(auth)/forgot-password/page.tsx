@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { forgotPasswordSchema } from "@/lib/validations";
+import { requestPasswordReset } from "@/app/actions/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Link from "next/link";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    setError(null);
+    setIsLoading(true);
+
+    const result = await requestPasswordReset(data);
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setSentTo(data.email);
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <div className="w-full max-w-md border border-border p-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Forgot Password</h1>
+          <p className="text-muted-foreground mt-2">
+            Enter your email and we&apos;ll send you a link to reset your password
+          </p>
+        </div>
+
+        {sentTo ? (
+          <div className="p-3 border border-border bg-muted/40 text-sm">
+            If an account exists for {sentTo}, we&apos;ve sent it a password reset link. The link
+            expires in 1 hour.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="you@example.com"
+                {...register("email")}
+                disabled={isLoading}
+              />
+              {errors.email && <p className="text-sm text-destructive">{errors.email.message}</p>}
+            </div>
+
+            {error && (
+              <div className="p-3 border border-destructive bg-destructive/10 text-destructive text-sm">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send Reset Link"
+              )}
+            </Button>
+          </form>
+        )}
+
+        <div className="text-center">
+          <Link href="/sign-in" className="text-sm text-primary underline hover:no-underline">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
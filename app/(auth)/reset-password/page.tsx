@@ -0,0 +1,50 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { peekToken } from "@/lib/tokens";
+import { ResetPasswordForm } from "./reset-password-form";
+
+export const metadata = {
+  title: "Reset Password - INSPIRE-LAB",
+  description: "Choose a new password",
+};
+
+interface Props {
+  searchParams: Promise<{
+    token?: string;
+  }>;
+}
+
+export default async function ResetPasswordPage({ searchParams }: Props) {
+  const { token } = await searchParams;
+  const isValid = token ? (await peekToken("password-reset", token)) !== null : false;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <div className="w-full max-w-md border border-border p-8 space-y-6">
+        {isValid && token ? (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold">Reset Password</h1>
+              <p className="text-muted-foreground mt-2">
+                Choose a new password. You&apos;ll be signed out of all other devices.
+              </p>
+            </div>
+            <ResetPasswordForm token={token} />
+          </>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold">Link Expired</h1>
+              <p className="text-muted-foreground mt-2">
+                This reset link is invalid, expired or has already been used.
+              </p>
+            </div>
+            <Link href="/forgot-password">
+              <Button className="w-full">Request a New Link</Button>
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
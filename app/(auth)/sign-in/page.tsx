@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { use, useState } from "react";
 import { useRouter } from "next/navigation";
 import { signIn } from "next-auth/react";
 import { useForm } from "react-hook-form";
@@ -15,19 +15,53 @@ import { Loader2 } from "lucide-react";
 
 type SignInForm = z.infer<typeof signInSchema>;
 
-export default function SignInPage() {
+interface SignInPageProps {
+  searchParams: Promise<{
+    reset?: string;
+  }>;
+}
+
+export default function SignInPage({ searchParams }: SignInPageProps) {
   const router = useRouter();
+  const { reset } = use(searchParams);
+  const passwordWasReset = reset === "1";
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string | null>(null);
+  // Second step for accounts with two-factor authentication
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [totp, setTotp] = useState("");
 
   const {
     register,
     handleSubmit,
+    getValues,
     formState: { errors },
   } = useForm<SignInForm>({
     resolver: zodResolver(signInSchema),
   });
 
+  const onSendMagicLink = async () => {
+    const email = getValues("email");
+    if (!signInSchema.shape.email.safeParse(email).success) {
+      setError("Enter your email address to get a sign-in link");
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      // The result is ignored on purpose: we don't reveal whether an account exists
+      await signIn("email", { email, redirect: false, redirectTo: "/" });
+      setMagicLinkSentTo(email);
+    } catch (err) {
+      setError("An unexpected error occurred");
+    }
+
+    setIsLoading(false);
+  };
+
   const onSubmit = async (data: SignInForm) => {
     setError(null);
     setIsLoading(true);
@@ -36,9 +70,22 @@ export default function SignInPage() {
       const result = await signIn("credentials", {
         email: data.email,
         password: data.password,
+        totp: needsTwoFactor ? totp : undefined,
         redirect: false,
       });
 
+      if (result?.code === "2fa_required") {
+        setNeedsTwoFactor(true);
+        setIsLoading(false);
+        return;
+      }
+
+      if (result?.code === "invalid_2fa") {
+        setError("Invalid authentication code");
+        setIsLoading(false);
+        return;
+      }
+
       if (result?.error) {
         setError("Invalid email or password");
         setIsLoading(false);
@@ -64,6 +111,19 @@ export default function SignInPage() {
           </p>
         </div>
 
+        {passwordWasReset && (
+          <div className="p-3 border border-border bg-muted/40 text-sm">
+            Your password has been reset. Sign in with your new password.
+          </div>
+        )}
+
+        {magicLinkSentTo && (
+          <div className="p-3 border border-border bg-muted/40 text-sm">
+            If an account exists for {magicLinkSentTo}, we&apos;ve sent it a sign-in link. Check
+            your inbox.
+          </div>
+        )}
+
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="email">Email</Label>
@@ -82,12 +142,12 @@ export default function SignInPage() {
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label htmlFor="password">Password</Label>
-              {/* <Link
+              <Link
                 href="/forgot-password"
                 className="text-sm text-primary hover:underline"
               >
                 Forgot password?
-              </Link> */}
+              </Link>
             </div>
             <Input
               id="password"
@@ -101,6 +161,24 @@ export default function SignInPage() {
             )}
           </div>
 
+          {needsTwoFactor && (
+            <div className="space-y-2">
+              <Label htmlFor="totp">Authentication code</Label>
+              <Input
+                id="totp"
+                autoComplete="one-time-code"
+                placeholder="6-digit code or recovery code"
+                value={totp}
+                onChange={(e) => setTotp(e.target.value)}
+                disabled={isLoading}
+                autoFocus
+              />
+              <p className="text-xs text-muted-foreground">
+                Enter the code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+          )}
+
           {error && (
             <div className="p-3 border border-destructive bg-destructive/10 text-destructive text-sm">
               {error}
@@ -117,6 +195,18 @@ export default function SignInPage() {
               "Sign In"
             )}
           </Button>
+
+          {!needsTwoFactor && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={onSendMagicLink}
+              disabled={isLoading}
+            >
+              Email me a sign-in link
+            </Button>
+          )}
         </form>
 
         <div className="text-center space-y-2">
@@ -1,164 +1,28 @@
-"use client";
-
-import { useState } from "react";
-import { useRouter } from "next/navigation";
-import { signIn } from "next-auth/react";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { signUpSchema } from "@/lib/validations";
-import { signUp } from "@/app/actions/auth";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import Link from "next/link";
-import { z } from "zod";
-import { Loader2 } from "lucide-react";
-
-type SignUpForm = z.infer<typeof signUpSchema>;
-
-export default function SignUpPage() {
-  const router = useRouter();
-
-  const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-
-  const {
-    register,
-    handleSubmit,
-    formState: { errors },
-  } = useForm<SignUpForm>({
-    resolver: zodResolver(signUpSchema),
-  });
-
-  const onSubmit = async (data: SignUpForm) => {
-    setError(null);
-    setIsLoading(true);
-
-    try {
-      const result = await signUp(data);
-
-      if (result.error) {
-        setError(result.error);
-        setIsLoading(false);
-        return;
-      }
-
-      // Auto sign in after signup
-      const signInResult = await signIn("credentials", {
-        email: data.email,
-        password: data.password,
-        redirect: false,
-      });
+import { isInviteRequired } from "@/lib/invites";
+import { SignUpForm } from "./sign-up-form";
+
+export const metadata = {
+  title: "Sign Up - INSPIRE-LAB",
+  description: "Create your INSPIRE-LAB account",
+};
+
+interface Props {
+  searchParams: Promise<{
+    code?: string;
+  }>;
+}
 
-      if (signInResult?.error) {
-        setError("Account created but sign in failed. Please sign in manually.");
-        router.push("/sign-in");
-      } else {
-        // User is PENDING, will be redirected to onboarding by middleware
-        router.push("/onboarding");
-        router.refresh();
-      }
-    } catch (err) {
-      setError("An unexpected error occurred");
-      setIsLoading(false);
-    }
-  };
+export default async function SignUpPage({ searchParams }: Props) {
+  const { code } = await searchParams;
 
   return (
     <div className="min-h-screen flex items-center justify-center p-4 bg-background">
       <div className="w-full max-w-md border border-border p-8 space-y-6">
         <div>
           <h1 className="text-3xl font-bold">Join INSPIRE-LAB</h1>
-          <p className="text-muted-foreground mt-2">
-            Create your account to get started
-          </p>
-        </div>
-
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          {/* Name */}
-          <div className="space-y-2">
-            <Label htmlFor="name">
-              Full Name <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="name"
-              type="text"
-              placeholder="Enter your full name"
-              {...register("name")}
-              disabled={isLoading}
-            />
-            {errors.name && (
-              <p className="text-sm text-destructive">{errors.name.message}</p>
-            )}
-          </div>
-
-          {/* Email */}
-          <div className="space-y-2">
-            <Label htmlFor="email">
-              Email <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="email"
-              type="email"
-              placeholder="you@example.com"
-              {...register("email")}
-              disabled={isLoading}
-            />
-            {errors.email && (
-              <p className="text-sm text-destructive">{errors.email.message}</p>
-            )}
-          </div>
-
-          {/* Password */}
-          <div className="space-y-2">
-            <Label htmlFor="password">
-              Password <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="password"
-              type="password"
-              placeholder="Create a strong password"
-              {...register("password")}
-              disabled={isLoading}
-            />
-            {errors.password && (
-              <p className="text-sm text-destructive">{errors.password.message}</p>
-            )}
-            <p className="text-xs text-muted-foreground">
-              Must be at least 8 characters
-            </p>
-          </div>
-
-          {error && (
-            <div className="p-3 border border-destructive bg-destructive/10 text-destructive text-sm">
-              {error}
-            </div>
-          )}
-
-          <Button
-            type="submit"
-            className="w-full"
-            disabled={isLoading}
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Creating account...
-              </>
-            ) : (
-              "Create Account"
-            )}
-          </Button>
-        </form>
-
-        <div className="text-center">
-          <p className="text-sm text-muted-foreground">
-            Already have an account?{" "}
-            <Link href="/sign-in" className="text-primary underline hover:no-underline">
-              Sign in
-            </Link>
-          </p>
+          <p className="text-muted-foreground mt-2">Create your account to get started</p>
         </div>
+        <SignUpForm code={code} inviteRequired={isInviteRequired()} />
       </div>
     </div>
   );
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { signIn } from "next-auth/react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { signUpSchema } from "@/lib/validations";
+import { signUp } from "@/app/actions/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Link from "next/link";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+
+type SignUpFormValues = z.infer<typeof signUpSchema>;
+
+interface SignUpFormProps {
+  code?: string;
+  /** False when OPEN_REGISTRATION lets members join without a code */
+  inviteRequired: boolean;
+}
+
+export function SignUpForm({ code, inviteRequired }: SignUpFormProps) {
+  const router = useRouter();
+
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<SignUpFormValues>({
+    resolver: zodResolver(signUpSchema),
+    defaultValues: {
+      inviteCode: code ?? "",
+    },
+  });
+
+  const onSubmit = async (data: SignUpFormValues) => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const result = await signUp(data);
+
+      if (result.error) {
+        setError(result.error);
+        setIsLoading(false);
+        return;
+      }
+
+      // Auto sign in after signup
+      const signInResult = await signIn("credentials", {
+        email: data.email,
+        password: data.password,
+        redirect: false,
+      });
+
+      if (signInResult?.error) {
+        setError("Account created but sign in failed. Please sign in manually.");
+        router.push("/sign-in");
+      } else {
+        // User is PENDING, will be redirected to onboarding by middleware
+        router.push("/onboarding");
+        router.refresh();
+      }
+    } catch (err) {
+      setError("An unexpected error occurred");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        {/* Name */}
+        <div className="space-y-2">
+          <Label htmlFor="name">
+            Full Name <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="name"
+            type="text"
+            placeholder="Enter your full name"
+            {...register("name")}
+            disabled={isLoading}
+          />
+          {errors.name && (
+            <p className="text-sm text-destructive">{errors.name.message}</p>
+          )}
+        </div>
+
+        {/* Email */}
+        <div className="space-y-2">
+          <Label htmlFor="email">
+            Email <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="email"
+            type="email"
+            placeholder="you@example.com"
+            {...register("email")}
+            disabled={isLoading}
+          />
+          {errors.email && (
+            <p className="text-sm text-destructive">{errors.email.message}</p>
+          )}
+        </div>
+
+        {/* Password */}
+        <div className="space-y-2">
+          <Label htmlFor="password">
+            Password <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="password"
+            type="password"
+            placeholder="Create a strong password"
+            {...register("password")}
+            disabled={isLoading}
+          />
+          {errors.password && (
+            <p className="text-sm text-destructive">{errors.password.message}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Must be at least 8 characters
+          </p>
+        </div>
+
+        {/* Invite Code */}
+        <div className="space-y-2">
+          <Label htmlFor="inviteCode">
+            Invite Code {inviteRequired && <span className="text-destructive">*</span>}
+          </Label>
+          <Input
+            id="inviteCode"
+            type="text"
+            placeholder="Enter your invite code"
+            autoComplete="off"
+            {...register("inviteCode")}
+            disabled={isLoading}
+          />
+          {errors.inviteCode && (
+            <p className="text-sm text-destructive">{errors.inviteCode.message}</p>
+          )}
+          {inviteRequired && (
+            <p className="text-xs text-muted-foreground">
+              INSPIRE-LAB is invite-only. Ask a member for a code.
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 border border-destructive bg-destructive/10 text-destructive text-sm">
+            {error}
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Creating account...
+            </>
+          ) : (
+            "Create Account"
+          )}
+        </Button>
+      </form>
+
+      <div className="text-center">
+        <p className="text-sm text-muted-foreground">
+          Already have an account?{" "}
+          <Link href="/sign-in" className="text-primary underline hover:no-underline">
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </>
+  );
+}
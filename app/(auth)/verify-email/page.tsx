@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { verifyEmailAddress } from "@/lib/auth-emails";
+
+export const metadata = {
+  title: "Verify Email - INSPIRE-LAB",
+  description: "Verify your email address",
+};
+
+interface Props {
+  searchParams: Promise<{
+    token?: string;
+  }>;
+}
+
+export default async function VerifyEmailPage({ searchParams }: Props) {
+  const { token } = await searchParams;
+  const verified = token ? await verifyEmailAddress(token) : false;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <div className="w-full max-w-md border border-border p-8 space-y-6">
+        {verified ? (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold">Email Verified</h1>
+              <p className="text-muted-foreground mt-2">
+                Thanks for confirming your email address. You can now finish setting up your
+                profile.
+              </p>
+            </div>
+            <Link href="/onboarding">
+              <Button className="w-full">Continue</Button>
+            </Link>
+          </>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold">Link Expired</h1>
+              <p className="text-muted-foreground mt-2">
+                This verification link is invalid or has expired. Sign in and request a new one from
+                the onboarding page.
+              </p>
+            </div>
+            <Link href="/sign-in">
+              <Button className="w-full">Sign In</Button>
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
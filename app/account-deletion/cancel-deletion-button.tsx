@@ -0,0 +1,47 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { signOut } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { cancelAccountDeletion } from "@/app/actions/account";
+
+export function CancelDeletionButton() {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCancel = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await cancelAccountDeletion();
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    router.push("/app");
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button className="w-full" onClick={handleCancel} disabled={isLoading}>
+        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Keep My Account"}
+      </Button>
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => signOut({ callbackUrl: "/sign-in" })}
+        disabled={isLoading}
+      >
+        Sign Out
+      </Button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
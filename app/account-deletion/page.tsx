@@ -0,0 +1,53 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CancelDeletionButton } from "./cancel-deletion-button";
+
+export const metadata = {
+  title: "Account Deletion - INSPIRE-LAB",
+  description: "Your account is scheduled for deletion",
+};
+
+export default async function AccountDeletionPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect("/sign-in");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { status: true, deletionScheduledAt: true },
+  });
+
+  if (user?.status !== "PENDING_DELETION") {
+    redirect("/app");
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Account Scheduled for Deletion</CardTitle>
+          <CardDescription>
+            {user.deletionScheduledAt
+              ? `Your account and everything in it will be permanently deleted on ${format(
+                  user.deletionScheduledAt,
+                  "MMMM d, yyyy"
+                )}.`
+              : "Your account will be permanently deleted soon."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Until then your profile is hidden and you can&apos;t use INSPIRE-LAB. Changed your mind?
+            Cancel the deletion to restore your account.
+          </p>
+          <CancelDeletionButton />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
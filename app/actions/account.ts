@@ -0,0 +1,229 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { after } from "next/server";
+import { ACCOUNT_DELETION_GRACE_DAYS } from "@/lib/account-deletion";
+import {
+  DATA_EXPORT_COOLDOWN_HOURS,
+  generateDataExport,
+  getDataExportDownloadPath,
+} from "@/lib/data-export";
+import { authRateLimiter } from "@/lib/rate-limit";
+import { revokeAllUserSessions } from "@/lib/sessions";
+import { verifySecondFactor } from "@/lib/two-factor";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+
+const requestDeletionSchema = z.object({
+  password: z.string().optional(),
+  code: z.string().optional(),
+});
+
+/**
+ * Schedule the current user's account for deletion.
+ *
+ * Requires re-authentication (password and, if enabled, a 2FA code).
+ * The account is hidden and signed out everywhere immediately, then purged
+ * after the grace period unless the user signs back in and cancels.
+ */
+export async function requestAccountDeletion(data: z.infer<typeof requestDeletionSchema>) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+    const userId = session.user.id;
+
+    const validated = requestDeletionSchema.parse(data);
+
+    const rateLimit = authRateLimiter.check(`delete-account:${userId}`);
+    if (!rateLimit.success) {
+      return {
+        error: `Too many attempts. Please try again in ${rateLimit.retryAfterSeconds} seconds.`,
+      };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, status: true, password: true, totpEnabledAt: true },
+    });
+
+    if (!user) {
+      return { error: "User not found" };
+    }
+
+    if (user.status === "PENDING_DELETION") {
+      return { error: "Your account is already scheduled for deletion" };
+    }
+
+    if (user.status === "SUSPENDED") {
+      return { error: "Suspended accounts can't be deleted. Please contact support." };
+    }
+
+    if (user.role === "ADMIN") {
+      return { error: "Admins can't delete their account. Ask another admin to change your role." };
+    }
+
+    if (user.password) {
+      const isValid = await bcrypt.compare(validated.password ?? "", user.password);
+      if (!isValid) {
+        return { error: "Incorrect password" };
+      }
+    }
+
+    if (user.totpEnabledAt) {
+      if (!validated.code || !(await verifySecondFactor(userId, validated.code))) {
+        return { error: "Invalid authentication code" };
+      }
+    }
+
+    const deletionScheduledAt = new Date(
+      Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { status: "PENDING_DELETION", deletionScheduledAt },
+    });
+
+    await revokeAllUserSessions(userId);
+
+    revalidatePath("/app/discover");
+
+    return { success: true, deletionScheduledAt };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Request account deletion error:", error);
+    return { error: "Failed to delete account" };
+  }
+}
+
+/**
+ * Cancel a pending account deletion and restore the account.
+ */
+export async function cancelAccountDeletion() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { status: true, handle: true },
+    });
+
+    if (user?.status !== "PENDING_DELETION") {
+      return { error: "Your account isn't scheduled for deletion" };
+    }
+
+    // Accounts deleted before finishing onboarding go back to onboarding
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        status: user.handle ? "ACTIVE" : "PENDING",
+        deletionScheduledAt: null,
+      },
+    });
+
+    revalidatePath("/app/discover");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Cancel account deletion error:", error);
+    return { error: "Failed to cancel account deletion" };
+  }
+}
+
+// ==================== DATA EXPORT ====================
+
+/**
+ * List the current user's data exports, with download links for ready ones.
+ */
+export async function getDataExports() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+    const userId = session.user.id;
+
+    const exports = await prisma.dataExport.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: 5,
+      select: {
+        id: true,
+        status: true,
+        sizeBytes: true,
+        createdAt: true,
+        completedAt: true,
+        expiresAt: true,
+      },
+    });
+
+    const now = new Date();
+
+    return {
+      success: true,
+      exports: exports.map((dataExport) => ({
+        ...dataExport,
+        downloadUrl:
+          dataExport.status === "READY" && dataExport.expiresAt && dataExport.expiresAt > now
+            ? getDataExportDownloadPath(dataExport.id, userId)
+            : null,
+      })),
+    };
+  } catch (error) {
+    console.error("Get data exports error:", error);
+    return { error: "Failed to load data exports" };
+  }
+}
+
+/**
+ * Request an archive of everything stored about the current user.
+ * The archive is generated after the response is sent; the user is notified
+ * when it's ready.
+ */
+export async function requestDataExport() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+    const userId = session.user.id;
+
+    const latest = await prisma.dataExport.findFirst({
+      where: { userId, status: { not: "FAILED" } },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    });
+
+    if (
+      latest &&
+      Date.now() - latest.createdAt.getTime() < DATA_EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000
+    ) {
+      return {
+        error: `You can request one export every ${DATA_EXPORT_COOLDOWN_HOURS} hours`,
+      };
+    }
+
+    const dataExport = await prisma.dataExport.create({
+      data: { userId },
+      select: { id: true },
+    });
+
+    after(() => generateDataExport(dataExport.id));
+
+    revalidatePath("/me/account");
+
+    return { success: true, exportId: dataExport.id };
+  } catch (error) {
+    console.error("Request data export error:", error);
+    return { error: "Failed to request data export" };
+  }
+}
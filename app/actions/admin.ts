@@ -4,6 +4,10 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
 import { kickUser } from "@/lib/matrix/admin";
+import { activeInviteCodeWhere } from "@/lib/invites";
+import { revokeAllUserSessions } from "@/lib/sessions";
+import type { UserStatus } from "@prisma/client";
+import { addWeeks, differenceInCalendarDays, startOfWeek, subWeeks } from "date-fns";
 
 // =============================================================================
 // Helpers
@@ -12,7 +16,7 @@ import { kickUser } from "@/lib/matrix/admin";
 /**
  * Verify the caller is an admin
  */
-async function verifyAdmin() {
+async function verifyAdmin(): Promise<{ error: string } | { adminId: string }> {
   const session = await auth();
   if (!session?.user?.id) {
     return { error: "Unauthorized" };
@@ -20,7 +24,7 @@ async function verifyAdmin() {
 
   const user = await prisma.user.findUnique({
     where: { id: session.user.id },
-    select: { id: true, role: true },
+    select: { id: true, role: true, totpEnabledAt: true },
   });
 
   if (!user) {
@@ -31,6 +35,10 @@ async function verifyAdmin() {
     return { error: "Admin access required" };
   }
 
+  if (!user.totpEnabledAt) {
+    return { error: "Enable two-factor authentication to use admin tools" };
+  }
+
   return { adminId: session.user.id };
 }
 
@@ -45,6 +53,7 @@ async function verifyAdmin() {
  * 1. Sets user status to SUSPENDED
  * 2. Kicks user from all Matrix rooms they're in
  * 3. Invalidates their Matrix credentials (blocks token issuance)
+ * 4. Signs out every web session
  *
  * Note: The user will be immediately kicked from any active calls/chats
  * and will be unable to request new tokens.
@@ -146,6 +155,9 @@ export async function disableUser(targetUserId: string, reason?: string) {
       },
     });
 
+    // Sign out every device immediately
+    await revokeAllUserSessions(targetUserId);
+
     // Log the action
     console.log(
       `[Admin] User ${targetUserId} suspended by admin ${adminResult.adminId}. Reason: ${reason || "Not specified"}`
@@ -244,3 +256,177 @@ export async function getSuspendedUsers() {
     return { error: "Failed to load suspended users" };
   }
 }
+
+// =============================================================================
+// Invite Analytics
+// =============================================================================
+
+interface InviteTreeUser {
+  id: string;
+  name: string | null;
+  handle: string | null;
+  avatar: string | null;
+  status: UserStatus;
+  createdAt: Date;
+  invitedById: string | null;
+  reportsReceived: number;
+}
+
+export interface InviteTreeNode extends InviteTreeUser {
+  children: InviteTreeNode[];
+}
+
+/** Number of weeks shown in the redemption chart */
+const REDEMPTION_HISTORY_WEEKS = 12;
+
+/**
+ * Get the invite genealogy and growth analytics.
+ *
+ * Returns:
+ * - tree: every member nested under the member who invited them
+ * - redemptionsByWeek: invite redemptions per week for the last 12 weeks
+ * - inviters: members whose invitees were most often reported or suspended
+ */
+export async function getInviteAnalytics() {
+  try {
+    // Verify admin access
+    const adminResult = await verifyAdmin();
+    if ("error" in adminResult) {
+      return adminResult;
+    }
+
+    const historyStart = startOfWeek(subWeeks(new Date(), REDEMPTION_HISTORY_WEEKS - 1));
+
+    const [users, redemptions, activeCodeCounts] = await Promise.all([
+      prisma.user.findMany({
+        select: {
+          id: true,
+          name: true,
+          handle: true,
+          avatar: true,
+          status: true,
+          createdAt: true,
+          invitedById: true,
+          _count: { select: { reportsReceived: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.inviteRedemption.findMany({
+        where: { redeemedAt: { gte: historyStart } },
+        select: { redeemedAt: true },
+      }),
+      prisma.inviteCode.groupBy({
+        by: ["createdById"],
+        where: activeInviteCodeWhere(),
+        _count: { _all: true },
+      }),
+    ]);
+
+    // Build the invite tree
+    const nodes = new Map<string, InviteTreeNode>();
+    for (const { _count, ...user } of users) {
+      nodes.set(user.id, { ...user, reportsReceived: _count.reportsReceived, children: [] });
+    }
+
+    const tree: InviteTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.invitedById ? nodes.get(node.invitedById) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        tree.push(node);
+      }
+    }
+
+    // Bucket redemptions by week
+    const redemptionsByWeek = Array.from({ length: REDEMPTION_HISTORY_WEEKS }, (_, i) => ({
+      weekStart: addWeeks(historyStart, i),
+      count: 0,
+    }));
+    for (const { redeemedAt } of redemptions) {
+      const index = Math.floor(differenceInCalendarDays(redeemedAt, historyStart) / 7);
+      if (index >= 0 && index < redemptionsByWeek.length) {
+        redemptionsByWeek[index].count++;
+      }
+    }
+
+    // Score inviters by how often their invitees are reported or suspended
+    const activeCodesByUser = new Map(
+      activeCodeCounts.map((row) => [row.createdById, row._count._all])
+    );
+    const inviters = Array.from(nodes.values())
+      .filter((node) => node.children.length > 0)
+      .map((node) => {
+        const reportedInvitees = node.children.filter((c) => c.reportsReceived > 0).length;
+        const suspendedInvitees = node.children.filter((c) => c.status === "SUSPENDED").length;
+        const flaggedInvitees = node.children.filter(
+          (c) => c.reportsReceived > 0 || c.status === "SUSPENDED"
+        ).length;
+
+        return {
+          id: node.id,
+          name: node.name,
+          handle: node.handle,
+          avatar: node.avatar,
+          status: node.status,
+          inviteeCount: node.children.length,
+          reportedInvitees,
+          suspendedInvitees,
+          flaggedRate: flaggedInvitees / node.children.length,
+          activeCodes: activeCodesByUser.get(node.id) ?? 0,
+        };
+      })
+      .sort((a, b) => b.flaggedRate - a.flaggedRate || b.inviteeCount - a.inviteeCount)
+      .slice(0, 25);
+
+    return {
+      success: true,
+      tree,
+      redemptionsByWeek,
+      inviters,
+      totals: {
+        members: users.length,
+        invited: users.filter((u) => u.invitedById).length,
+        redemptionsInPeriod: redemptions.length,
+      },
+    };
+  } catch (error) {
+    console.error("Get invite analytics error:", error);
+    return { error: "Failed to load invite analytics" };
+  }
+}
+
+/**
+ * Revoke every invite code a user has created.
+ *
+ * Codes are disabled rather than deleted so redemption history is preserved.
+ */
+export async function revokeUserInviteCodes(targetUserId: string) {
+  try {
+    // Verify admin access
+    const adminResult = await verifyAdmin();
+    if ("error" in adminResult) {
+      return adminResult;
+    }
+
+    const result = await prisma.inviteCode.updateMany({
+      where: { createdById: targetUserId, enabled: true },
+      data: { enabled: false },
+    });
+
+    console.log(
+      `[Admin] ${result.count} invite codes of user ${targetUserId} revoked by admin ${adminResult.adminId}`
+    );
+
+    revalidatePath("/app/admin/invites");
+
+    return {
+      success: true,
+      revokedCount: result.count,
+      message: `Revoked ${result.count} invite code${result.count === 1 ? "" : "s"}.`,
+    };
+  } catch (error) {
+    console.error("Revoke invite codes error:", error);
+    return { error: "Failed to revoke invite codes" };
+  }
+}
@@ -1,13 +1,29 @@
 "use server";
 
+import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { signUpSchema } from "@/lib/validations";
+import { sendPasswordResetEmail, sendVerificationEmail } from "@/lib/auth-emails";
+import { consumeToken } from "@/lib/tokens";
+import { authRateLimiter } from "@/lib/rate-limit";
+import { forgotPasswordSchema, resetPasswordSchema, signUpSchema } from "@/lib/validations";
+import {
+  InviteCodeError,
+  claimInviteCode,
+  isInviteRequired,
+  recordInviteRedemption,
+} from "@/lib/invites";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
+import { headers } from "next/headers";
 
 export async function signUp(data: z.infer<typeof signUpSchema>) {
   try {
     const validated = signUpSchema.parse(data);
+    const inviteCode = validated.inviteCode?.trim();
+
+    if (!inviteCode && isInviteRequired()) {
+      return { error: "An invite code is required to join INSPIRE-LAB" };
+    }
 
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
@@ -20,22 +36,171 @@ export async function signUp(data: z.infer<typeof signUpSchema>) {
 
     const hashedPassword = await bcrypt.hash(validated.password, 10);
 
-    // Create user with PENDING status
-    const user = await prisma.user.create({
-      data: {
-        email: validated.email,
-        password: hashedPassword,
-        name: validated.name,
-        status: "PENDING", // User must complete onboarding
-      },
+    // Redeem the invite and create the user atomically
+    const user = await prisma.$transaction(async (tx) => {
+      const invite = inviteCode ? await claimInviteCode(tx, inviteCode) : null;
+
+      // Create user with PENDING status
+      const createdUser = await tx.user.create({
+        data: {
+          email: validated.email,
+          password: hashedPassword,
+          name: validated.name,
+          status: "PENDING", // User must complete onboarding
+          invitedById: invite?.createdById,
+        },
+      });
+
+      if (invite) {
+        await recordInviteRedemption(tx, invite.id, createdUser.id);
+      }
+
+      return createdUser;
     });
 
+    // Verification is required before onboarding; the user can resend if this fails
+    try {
+      await sendVerificationEmail(user);
+    } catch (emailError) {
+      console.error("Sign up verification email error:", emailError);
+    }
+
     return { success: true, user: { id: user.id, email: user.email } };
   } catch (error) {
     if (error instanceof z.ZodError) {
       return { error: error.issues[0].message };
     }
+    if (error instanceof InviteCodeError) {
+      return { error: error.message };
+    }
     console.error("Sign up error:", error);
     return { error: "Failed to create account" };
   }
 }
+
+/**
+ * Send a new email verification link to the current user.
+ */
+export async function resendVerificationEmail() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const rateLimitResult = authRateLimiter.check(`verify-email:${session.user.id}`);
+    if (!rateLimitResult.success) {
+      return {
+        error: `Too many requests. Try again in ${rateLimitResult.retryAfterSeconds} seconds.`,
+      };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, name: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return { error: "User not found" };
+    }
+
+    if (user.emailVerified) {
+      return { error: "Your email address is already verified" };
+    }
+
+    await sendVerificationEmail(user);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Resend verification email error:", error);
+    return { error: "Failed to send verification email" };
+  }
+}
+
+/**
+ * Email a password reset link.
+ *
+ * Always reports success so the response doesn't reveal whether an account
+ * exists for the address.
+ */
+export async function requestPasswordReset(data: z.infer<typeof forgotPasswordSchema>) {
+  try {
+    const validated = forgotPasswordSchema.parse(data);
+    const email = validated.email.trim();
+
+    // Limit per address and per client so neither can be used to spam inboxes
+    const ip = (await headers()).get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+    const emailLimit = authRateLimiter.check(`password-reset:email:${email.toLowerCase()}`);
+    const ipLimit = authRateLimiter.check(`password-reset:ip:${ip}`);
+
+    if (!emailLimit.success || !ipLimit.success) {
+      const retryAfter = Math.max(
+        emailLimit.retryAfterSeconds ?? 0,
+        ipLimit.retryAfterSeconds ?? 0
+      );
+      return { error: `Too many requests. Try again in ${retryAfter} seconds.` };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true, status: true },
+    });
+
+    // A failed send gets the same response, or it would show the account exists
+    if (user && user.status !== "SUSPENDED") {
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (emailError) {
+        console.error("Password reset email error:", emailError);
+      }
+    }
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Request password reset error:", error);
+    return { error: "Failed to send reset email" };
+  }
+}
+
+/**
+ * Set a new password using a reset token.
+ * Signs the user out everywhere by bumping their session version.
+ */
+export async function resetPassword(data: z.infer<typeof resetPasswordSchema>) {
+  try {
+    const validated = resetPasswordSchema.parse(data);
+
+    const userId = await consumeToken("password-reset", validated.token);
+    if (!userId) {
+      return { error: "This reset link is invalid or has expired" };
+    }
+
+    const hashedPassword = await bcrypt.hash(validated.password, 10);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          password: hashedPassword,
+          sessionVersion: { increment: 1 },
+        },
+      }),
+      prisma.session.deleteMany({ where: { userId } }),
+      prisma.userSession.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Reset password error:", error);
+    return { error: "Failed to reset password" };
+  }
+}
@@ -0,0 +1,184 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { createNotification, getActorName } from "@/lib/notifications";
+
+/** Most endorsements a member can give in a rolling 24 hours */
+const ENDORSEMENTS_PER_DAY = 20;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Verify user is authenticated and ACTIVE
+ */
+async function verifyActiveUser(): Promise<{ error: string } | { userId: string }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, status: true },
+  });
+
+  if (!user) {
+    return { error: "User not found" };
+  }
+
+  if (user.status !== "ACTIVE") {
+    return { error: "Your account must be active to endorse skills" };
+  }
+
+  return { userId: user.id };
+}
+
+/**
+ * Check the daily endorsement cap. Stored endorsements are counted rather than
+ * using an in-memory limiter so the cap holds across instances and restarts.
+ */
+async function checkDailyEndorsementCap(
+  userId: string
+): Promise<{ error: string } | { success: true }> {
+  const given = await prisma.skillEndorsement.count({
+    where: {
+      endorserId: userId,
+      createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+    },
+  });
+
+  if (given >= ENDORSEMENTS_PER_DAY) {
+    return {
+      error: `You can give up to ${ENDORSEMENTS_PER_DAY} endorsements a day. Try again tomorrow.`,
+    };
+  }
+  return { success: true };
+}
+
+async function revalidateSkillOwnerProfile(ownerId: string) {
+  const owner = await prisma.user.findUnique({
+    where: { id: ownerId },
+    select: { handle: true },
+  });
+  if (owner?.handle) {
+    revalidatePath(`/u/${owner.handle}`);
+  }
+}
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Endorse one of another member's skills. Only members who follow them can.
+ */
+export async function endorseSkill(userSkillId: string) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+    const { userId } = authResult;
+
+    const userSkill = await prisma.userSkill.findUnique({
+      where: { id: userSkillId },
+      select: {
+        id: true,
+        userId: true,
+        user: { select: { status: true } },
+        skillTag: { select: { name: true } },
+      },
+    });
+
+    if (!userSkill || userSkill.user.status !== "ACTIVE") {
+      return { error: "Skill not found" };
+    }
+
+    if (userSkill.userId === userId) {
+      return { error: "You cannot endorse your own skills" };
+    }
+
+    const follow = await prisma.follow.findUnique({
+      where: {
+        followerId_followingId: { followerId: userId, followingId: userSkill.userId },
+      },
+      select: { id: true },
+    });
+
+    if (!follow) {
+      return { error: "Follow this member to endorse their skills" };
+    }
+
+    const capResult = await checkDailyEndorsementCap(userId);
+    if ("error" in capResult) {
+      return { error: capResult.error };
+    }
+
+    try {
+      await prisma.skillEndorsement.create({
+        data: { userSkillId: userSkill.id, endorserId: userId },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return { error: "You have already endorsed this skill" };
+      }
+      throw error;
+    }
+
+    await createNotification(
+      {
+        userId: userSkill.userId,
+        type: "ENDORSEMENT",
+        actorId: userId,
+        entityType: "user",
+        entityId: userSkill.userId,
+        message: `${await getActorName(userId)} endorsed you for ${userSkill.skillTag.name}`,
+      },
+      { dedupeWindowSeconds: 24 * 60 * 60 }
+    );
+
+    await revalidateSkillOwnerProfile(userSkill.userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Endorse skill error:", error);
+    return { error: "Failed to endorse skill" };
+  }
+}
+
+/**
+ * Withdraw the current user's endorsement of a skill.
+ */
+export async function withdrawEndorsement(userSkillId: string) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+
+    const endorsement = await prisma.skillEndorsement.findUnique({
+      where: {
+        userSkillId_endorserId: { userSkillId, endorserId: authResult.userId },
+      },
+      select: { id: true, userSkill: { select: { userId: true } } },
+    });
+
+    if (!endorsement) {
+      return { error: "Endorsement not found" };
+    }
+
+    await prisma.skillEndorsement.delete({ where: { id: endorsement.id } });
+
+    await revalidateSkillOwnerProfile(endorsement.userSkill.userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Withdraw endorsement error:", error);
+    return { error: "Failed to withdraw endorsement" };
+  }
+}
@@ -3,6 +3,7 @@
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
+import { createNotification, getActorName } from "@/lib/notifications";
 
 async function getCurrentUser() {
   const session = await auth();
@@ -40,6 +41,18 @@ export async function followUser(userId: string) {
       },
     });
 
+    await createNotification(
+      {
+        userId,
+        type: "FOLLOW",
+        actorId: currentUserId,
+        entityType: "user",
+        entityId: currentUserId,
+        message: `${await getActorName(currentUserId)} started following you`,
+      },
+      { dedupeWindowSeconds: 24 * 60 * 60 }
+    );
+
     const targetUser = await prisma.user.findUnique({ where: { id: userId } });
     revalidatePath(`/${targetUser?.handle}`);
     revalidatePath("/");
@@ -0,0 +1,207 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { Prisma, type UserRole } from "@prisma/client";
+import { z } from "zod";
+import {
+  INVITE_MAX_EXPIRY_DAYS,
+  activeInviteCodeWhere,
+  generateInviteCode,
+  getInviteQuota,
+} from "@/lib/invites";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Verify user is authenticated and ACTIVE
+ */
+async function verifyActiveUser(): Promise<{ error: string } | { userId: string; role: UserRole }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, status: true, role: true },
+  });
+
+  if (!user) {
+    return { error: "User not found" };
+  }
+
+  if (user.status !== "ACTIVE") {
+    return { error: "Your account must be active to manage invites" };
+  }
+
+  return { userId: user.id, role: user.role };
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const createInviteCodeSchema = z.object({
+  maxUses: z.number().int().min(1, "Max uses must be at least 1").max(1000),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, "Expiry must be at least 1 day")
+    .max(INVITE_MAX_EXPIRY_DAYS, `Expiry cannot exceed ${INVITE_MAX_EXPIRY_DAYS} days`)
+    .nullable(),
+});
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Get the current user's invite codes with redemption history and quota usage.
+ */
+export async function getMyInviteCodes() {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+    const { userId, role } = authResult;
+
+    const [codes, activeCount] = await Promise.all([
+      prisma.inviteCode.findMany({
+        where: { createdById: userId },
+        orderBy: { createdAt: "desc" },
+        include: {
+          redemptions: {
+            orderBy: { redeemedAt: "desc" },
+            include: {
+              redeemedBy: {
+                select: {
+                  id: true,
+                  name: true,
+                  handle: true,
+                  avatar: true,
+                  status: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.inviteCode.count({
+        where: { createdById: userId, ...activeInviteCodeWhere() },
+      }),
+    ]);
+
+    return {
+      success: true,
+      codes,
+      quota: {
+        ...getInviteQuota(role),
+        activeCount,
+      },
+    };
+  } catch (error) {
+    console.error("Get invite codes error:", error);
+    return { error: "Failed to load invite codes" };
+  }
+}
+
+/**
+ * Mint a new invite code for the current user, subject to their role quota.
+ */
+export async function createInviteCode(data: z.infer<typeof createInviteCodeSchema>) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+    const { userId, role } = authResult;
+
+    const validated = createInviteCodeSchema.parse(data);
+    const quota = getInviteQuota(role);
+
+    if (quota.maxUsesPerCode !== null && validated.maxUses > quota.maxUsesPerCode) {
+      return { error: `Codes can allow at most ${quota.maxUsesPerCode} uses` };
+    }
+
+    if (quota.maxActiveCodes !== null) {
+      const activeCount = await prisma.inviteCode.count({
+        where: { createdById: userId, ...activeInviteCodeWhere() },
+      });
+
+      if (activeCount >= quota.maxActiveCodes) {
+        return {
+          error: `You can have at most ${quota.maxActiveCodes} active invite codes. Disable an unused code first.`,
+        };
+      }
+    }
+
+    const expiresAt = validated.expiresInDays
+      ? new Date(Date.now() + validated.expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    // Retry on the (unlikely) event of a code collision
+    for (let attempt = 0; attempt < 3; attempt++) {
+      try {
+        const inviteCode = await prisma.inviteCode.create({
+          data: {
+            code: generateInviteCode(),
+            createdById: userId,
+            maxUses: validated.maxUses,
+            expiresAt,
+          },
+        });
+
+        revalidatePath("/me/invites");
+
+        return { success: true, inviteCode };
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return { error: "Failed to generate a unique code. Please try again." };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Create invite code error:", error);
+    return { error: "Failed to create invite code" };
+  }
+}
+
+/**
+ * Disable one of the current user's invite codes.
+ * Existing redemptions are kept; the code simply can't be used again.
+ */
+export async function disableInviteCode(inviteCodeId: string) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+
+    const result = await prisma.inviteCode.updateMany({
+      where: { id: inviteCodeId, createdById: authResult.userId },
+      data: { enabled: false },
+    });
+
+    if (result.count === 0) {
+      return { error: "Invite code not found" };
+    }
+
+    revalidatePath("/me/invites");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Disable invite code error:", error);
+    return { error: "Failed to disable invite code" };
+  }
+}
@@ -10,6 +10,7 @@ import {
   getLiveKitUrl,
   getParticipants,
 } from "@/lib/livekit";
+import { createNotification } from "@/lib/notifications";
 
 /**
  * Generate a token for joining a DM video call
@@ -71,6 +72,19 @@ export async function generateDMVideoToken(otherUserId: string) {
       }
     );
 
+    // Let the other participant know they're being called
+    await createNotification(
+      {
+        userId: otherUserId,
+        type: "VIDEO_CALL",
+        actorId: currentUser.id,
+        entityType: "dm_room",
+        entityId: dmRoom.id,
+        message: `${currentUser.name || currentUser.handle || "Someone"} is calling you`,
+      },
+      { dedupeWindowSeconds: 2 * 60 }
+    );
+
     return {
       success: true,
       token,
@@ -11,6 +11,7 @@ import {
   getMatrixHomeserverUrl,
   getMatrixServerName,
 } from "@/lib/matrix";
+import { createNotification, getActorName } from "@/lib/notifications";
 
 /**
  * Get or create Matrix credentials for the current user
@@ -188,6 +189,15 @@ export async function getOrCreateDMRoom(otherUserId: string) {
       },
     });
 
+    await createNotification({
+      userId: otherUserId,
+      type: "MESSAGE",
+      actorId: session.user.id,
+      entityType: "dm_room",
+      entityId: room.id,
+      message: `${await getActorName(session.user.id)} started a conversation with you`,
+    });
+
     return {
       success: true,
       roomId: room.id,
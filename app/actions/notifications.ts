@@ -0,0 +1,220 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  getNotificationChannels,
+  publishNotificationEvent,
+  setNotificationChannel,
+} from "@/lib/notifications";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface NotificationFilters {
+  cursor?: string;
+  limit?: number;
+  unreadOnly?: boolean;
+}
+
+/** Most notifications returned per page */
+const MAX_NOTIFICATIONS_LIMIT = 50;
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const updatePreferenceSchema = z.object({
+  type: z.enum([
+    "FOLLOW",
+    "VOUCH",
+    "ENDORSEMENT",
+    "PROJECT_UPDATE",
+    "SYSTEM",
+    "MESSAGE",
+    "VIDEO_CALL",
+    "SAVED_SEARCH",
+  ]),
+  channel: z.enum(["IN_APP", "INSTANT_EMAIL", "DAILY_DIGEST", "NONE"]),
+});
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Get the current user's notifications, newest first.
+ */
+export async function getNotifications(filters: NotificationFilters = {}) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const { cursor, unreadOnly = false } = filters;
+    const limit = Math.max(1, Math.min(filters.limit ?? 20, MAX_NOTIFICATIONS_LIMIT));
+
+    const notifications = await prisma.notification.findMany({
+      where: {
+        userId: session.user.id,
+        ...(unreadOnly && { read: false }),
+      },
+      take: limit,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            handle: true,
+            avatar: true,
+          },
+        },
+      },
+    });
+
+    const nextCursor =
+      notifications.length === limit ? notifications[notifications.length - 1].id : null;
+
+    return {
+      success: true,
+      notifications,
+      nextCursor,
+      hasMore: notifications.length === limit,
+    };
+  } catch (error) {
+    console.error("Get notifications error:", error);
+    return { error: "Failed to load notifications" };
+  }
+}
+
+/**
+ * Count the current user's unread notifications.
+ */
+export async function getUnreadNotificationCount() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const count = await prisma.notification.count({
+      where: { userId: session.user.id, read: false },
+    });
+
+    return { success: true, count };
+  } catch (error) {
+    console.error("Get unread notification count error:", error);
+    return { error: "Failed to load notification count" };
+  }
+}
+
+/**
+ * Mark one of the current user's notifications as read.
+ */
+export async function markNotificationRead(notificationId: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: { id: notificationId, userId: session.user.id },
+      data: { read: true },
+    });
+
+    if (result.count === 0) {
+      return { error: "Notification not found" };
+    }
+
+    await publishNotificationEvent(session.user.id, { type: "read", ids: [notificationId] });
+
+    revalidatePath("/notifications");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Mark notification read error:", error);
+    return { error: "Failed to update notification" };
+  }
+}
+
+/**
+ * Mark all of the current user's notifications as read.
+ */
+export async function markAllNotificationsRead() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: { userId: session.user.id, read: false },
+      data: { read: true },
+    });
+
+    await publishNotificationEvent(session.user.id, { type: "read", ids: null });
+
+    revalidatePath("/notifications");
+
+    return { success: true, count: result.count };
+  } catch (error) {
+    console.error("Mark all notifications read error:", error);
+    return { error: "Failed to update notifications" };
+  }
+}
+
+// =============================================================================
+// Preferences
+// =============================================================================
+
+/**
+ * Get the current user's delivery channel for every notification type.
+ */
+export async function getNotificationPreferences() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const preferences = await getNotificationChannels(session.user.id);
+
+    return { success: true, preferences };
+  } catch (error) {
+    console.error("Get notification preferences error:", error);
+    return { error: "Failed to load notification preferences" };
+  }
+}
+
+/**
+ * Set how the current user receives one notification type.
+ */
+export async function updateNotificationPreference(data: z.infer<typeof updatePreferenceSchema>) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const validated = updatePreferenceSchema.parse(data);
+
+    await setNotificationChannel(session.user.id, validated.type, validated.channel);
+
+    revalidatePath("/me/settings");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Update notification preference error:", error);
+    return { error: "Failed to update notification preference" };
+  }
+}
@@ -5,13 +5,10 @@ import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 import { revalidatePath } from "next/cache";
 import { provisionMatrixUser } from "@/lib/matrix/provisioning";
+import { HandleError, claimInitialHandle, handleSchema } from "@/lib/handles";
 
 const onboardingSchema = z.object({
-  handle: z
-    .string()
-    .min(3, "Handle must be at least 3 characters")
-    .max(30, "Handle must be less than 30 characters")
-    .regex(/^[a-zA-Z0-9_-]+$/, "Handle can only contain letters, numbers, hyphens, and underscores"),
+  handle: handleSchema,
   roleTitle: z.string().min(1, "Role title is required").max(100),
   bio: z.string().max(500).optional(),
   location: z.string().max(100).optional(),
@@ -37,17 +34,20 @@ export async function completeOnboarding(
 
     const validated = onboardingSchema.parse(data);
 
-    // Check if handle is already taken
-    const existing = await prisma.user.findUnique({
-      where: { handle: validated.handle },
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { emailVerified: true },
     });
 
-    if (existing && existing.id !== session.user.id) {
-      return { error: "Handle is already taken" };
+    if (!currentUser?.emailVerified) {
+      return { error: "Please verify your email address before completing your profile" };
     }
 
     // Use transaction to ensure atomicity
     const user = await prisma.$transaction(async (tx) => {
+      // Rejects handles that are taken or recently released by someone else
+      await claimInitialHandle(tx, validated.handle, session.user.id);
+
       // Update user to ACTIVE status with profile data
       const updatedUser = await tx.user.update({
         where: { id: session.user.id },
@@ -121,6 +121,9 @@ export async function completeOnboarding(
     if (error instanceof z.ZodError) {
       return { error: error.issues[0].message };
     }
+    if (error instanceof HandleError) {
+      return { error: error.message };
+    }
     console.error("Onboarding error:", error);
     return { error: "Failed to complete onboarding" };
   }
@@ -130,6 +133,7 @@ export async function completeOnboarding(
 export async function getSkillTags() {
   try {
     const tags = await prisma.skillTag.findMany({
+      where: { status: "APPROVED" },
       orderBy: [
         { category: "asc" },
         { name: "asc" },
@@ -146,6 +150,7 @@ export async function getSkillTags() {
 export async function getToolTags() {
   try {
     const tags = await prisma.toolTag.findMany({
+      where: { status: "APPROVED" },
       orderBy: [
         { category: "asc" },
         { name: "asc" },
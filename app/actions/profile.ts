@@ -4,6 +4,21 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 import { revalidatePath } from "next/cache";
+import {
+  HandleError,
+  applyHandleChange,
+  changeUserHandle,
+  getNextHandleChangeAt,
+  handleSchema,
+  syncMatrixDisplayName,
+} from "@/lib/handles";
+import {
+  JsonResumeError,
+  RESUME_PROFILE_FIELDS,
+  parseJsonResume,
+  planJsonResumeImport,
+} from "@/lib/json-resume";
+import { withVisibleAvatar } from "@/lib/avatars";
 
 // ==================== USER PROFILE ====================
 
@@ -24,12 +39,38 @@ export async function getUserProfile(handle: string, viewerUserId?: string) {
         avatarVisibility: true,
         createdAt: true,
         userSkills: {
+          // Pending tag proposals are only shown to the member who has them
+          where: viewerUserId
+            ? { OR: [{ skillTag: { status: "APPROVED" } }, { userId: viewerUserId }] }
+            : { skillTag: { status: "APPROVED" } },
           include: {
             skillTag: true,
+            endorsements: {
+              where: { endorser: { status: "ACTIVE" } },
+              orderBy: { createdAt: "desc" },
+              take: 5,
+              select: {
+                endorser: {
+                  select: {
+                    id: true,
+                    name: true,
+                    handle: true,
+                    avatar: true,
+                    avatarVisibility: true,
+                  },
+                },
+              },
+            },
+            _count: {
+              select: { endorsements: { where: { endorser: { status: "ACTIVE" } } } },
+            },
           },
           orderBy: [{ featured: "desc" }, { createdAt: "desc" }],
         },
         userTools: {
+          where: viewerUserId
+            ? { OR: [{ toolTag: { status: "APPROVED" } }, { userId: viewerUserId }] }
+            : { toolTag: { status: "APPROVED" } },
           include: {
             toolTag: true,
           },
@@ -43,6 +84,36 @@ export async function getUserProfile(handle: string, viewerUserId?: string) {
         },
         qualifications: {
           orderBy: { createdAt: "desc" },
+          // Verification evidence and review notes are only shown to the owner in settings
+          select: {
+            id: true,
+            title: true,
+            institution: true,
+            year: true,
+            description: true,
+            visibility: true,
+            verificationStatus: true,
+            createdAt: true,
+          },
+        },
+        vouchesReceived: {
+          where: { voucher: { status: "ACTIVE" } },
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            message: true,
+            createdAt: true,
+            voucher: {
+              select: {
+                id: true,
+                name: true,
+                handle: true,
+                avatar: true,
+                avatarVisibility: true,
+                roleTitle: true,
+              },
+            },
+          },
         },
         _count: {
           select: {
@@ -71,6 +142,16 @@ export async function getUserProfile(handle: string, viewerUserId?: string) {
       isFollowing = !!follow;
     }
 
+    // Skills the viewer has endorsed
+    const viewerEndorsements =
+      viewerUserId && viewerUserId !== user.id
+        ? await prisma.skillEndorsement.findMany({
+            where: { endorserId: viewerUserId, userSkill: { userId: user.id } },
+            select: { userSkillId: true },
+          })
+        : [];
+    const endorsedSkillIds = new Set(viewerEndorsements.map((e) => e.userSkillId));
+
     // Filter avatar based on visibility
     let resolvedAvatar = user.avatar;
     if (viewerUserId !== user.id) {
@@ -99,6 +180,20 @@ export async function getUserProfile(handle: string, viewerUserId?: string) {
       return false;
     });
 
+    // Only show voucher avatars that are public (or the viewer's own)
+    const vouchesReceived = user.vouchesReceived.map(({ voucher, ...vouch }) => ({
+      ...vouch,
+      voucher: withVisibleAvatar(voucher, viewerUserId),
+    }));
+
+    // Endorsement summaries, with the same avatar rule as vouches
+    const userSkills = user.userSkills.map(({ endorsements, _count, ...userSkill }) => ({
+      ...userSkill,
+      endorsementCount: _count.endorsements,
+      endorsers: endorsements.map(({ endorser }) => withVisibleAvatar(endorser, viewerUserId)),
+      endorsedByViewer: endorsedSkillIds.has(userSkill.id),
+    }));
+
     // Create the full user object preserving all properties
     const fullUser = {
       id: user.id,
@@ -112,11 +207,12 @@ export async function getUserProfile(handle: string, viewerUserId?: string) {
       avatar: resolvedAvatar,
       avatarVisibility: user.avatarVisibility,
       createdAt: user.createdAt,
-      userSkills: user.userSkills,
+      userSkills,
       userTools: user.userTools,
       links: user.links,
       projects: filteredProjects,
       qualifications: filteredQualifications,
+      vouchesReceived,
       _count: user._count,
     };
 
@@ -149,6 +245,16 @@ export async function addSkill(data: z.infer<typeof addSkillSchema>) {
 
     const validated = addSkillSchema.parse(data);
 
+    // Pending proposals are added through proposeTag()
+    const skillTag = await prisma.skillTag.findUnique({
+      where: { id: validated.skillTagId },
+      select: { status: true },
+    });
+
+    if (skillTag?.status !== "APPROVED") {
+      return { error: "Skill not found" };
+    }
+
     // Check if already exists
     const existing = await prisma.userSkill.findUnique({
       where: {
@@ -272,6 +378,15 @@ export async function addTool(data: z.infer<typeof addToolSchema>) {
 
     const validated = addToolSchema.parse(data);
 
+    const toolTag = await prisma.toolTag.findUnique({
+      where: { id: validated.toolTagId },
+      select: { status: true },
+    });
+
+    if (toolTag?.status !== "APPROVED") {
+      return { error: "Tool not found" };
+    }
+
     const existing = await prisma.userTool.findUnique({
       where: {
         userId_toolTagId: {
@@ -596,6 +711,24 @@ export async function updateQualification(
 
     const validated = qualificationSchema.parse(data);
 
+    const existing = await prisma.qualification.findUnique({
+      where: { id: qualificationId, userId: session.user.id },
+      select: { title: true, institution: true, year: true, verificationStatus: true },
+    });
+
+    if (!existing) {
+      return { error: "Qualification not found" };
+    }
+
+    // A verification (or pending request) only covers the details that were reviewed
+    const detailsChanged =
+      existing.title !== validated.title ||
+      (existing.institution || "") !== (validated.institution || "") ||
+      (existing.year || "") !== (validated.year || "");
+    const resetVerification =
+      detailsChanged &&
+      (existing.verificationStatus === "VERIFIED" || existing.verificationStatus === "PENDING");
+
     const qualification = await prisma.qualification.update({
       where: {
         id: qualificationId,
@@ -607,6 +740,13 @@ export async function updateQualification(
         year: validated.year,
         description: validated.description,
         visibility: validated.visibility,
+        ...(resetVerification && {
+          verificationStatus: "UNVERIFIED",
+          verificationRequestedAt: null,
+          reviewedAt: null,
+          reviewedBy: null,
+          reviewNote: null,
+        }),
       },
     });
 
@@ -660,6 +800,7 @@ export async function deleteQualification(qualificationId: string) {
 export async function getAllSkillTags() {
   try {
     const tags = await prisma.skillTag.findMany({
+      where: { status: "APPROVED" },
       orderBy: [{ category: "asc" }, { name: "asc" }],
     });
     return { success: true, tags };
@@ -672,6 +813,7 @@ export async function getAllSkillTags() {
 export async function getAllToolTags() {
   try {
     const tags = await prisma.toolTag.findMany({
+      where: { status: "APPROVED" },
       orderBy: [{ category: "asc" }, { name: "asc" }],
     });
     return { success: true, tags };
@@ -761,11 +903,7 @@ export async function deleteLink(linkId: string) {
 
 const updateProfileSchema = z.object({
   name: z.string().min(1).max(100),
-  handle: z
-    .string()
-    .min(3)
-    .max(30)
-    .regex(/^[a-zA-Z0-9_-]+$/),
+  handle: handleSchema,
   roleTitle: z.string().max(100).optional(),
   bio: z.string().max(500).optional(),
   location: z.string().max(100).optional(),
@@ -782,38 +920,35 @@ export async function updateProfile(data: z.infer<typeof updateProfileSchema>) {
 
     const validated = updateProfileSchema.parse(data);
 
-    // Check if handle is taken by another user
-    if (validated.handle) {
-      const existingUser = await prisma.user.findFirst({
-        where: {
-          handle: validated.handle,
-          id: { not: session.user.id },
-        },
-      });
-
-      if (existingUser) {
-        return { error: "Handle is already taken" };
-      }
-    }
-
     const oldUser = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { handle: true },
+      select: { handle: true, name: true },
     });
 
-    const user = await prisma.user.update({
-      where: { id: session.user.id },
-      data: {
-        name: validated.name,
-        handle: validated.handle,
-        roleTitle: validated.roleTitle || null,
-        bio: validated.bio || null,
-        location: validated.location || null,
-        avatar: validated.avatar || null,
-        ...(validated.avatarVisibility && { avatarVisibility: validated.avatarVisibility }),
-      },
+    // One transaction, so a rejected profile update doesn't leave the handle changed
+    const user = await prisma.$transaction(async (tx) => {
+      // Handle changes go through the cooldown and reservation checks
+      if (validated.handle !== oldUser?.handle) {
+        await applyHandleChange(tx, session.user.id, validated.handle);
+      }
+
+      return tx.user.update({
+        where: { id: session.user.id },
+        data: {
+          name: validated.name,
+          roleTitle: validated.roleTitle || null,
+          bio: validated.bio || null,
+          location: validated.location || null,
+          avatar: validated.avatar || null,
+          ...(validated.avatarVisibility && { avatarVisibility: validated.avatarVisibility }),
+        },
+      });
     });
 
+    if (validated.name !== oldUser?.name || user.handle !== oldUser?.handle) {
+      await syncMatrixDisplayName(session.user.id);
+    }
+
     // Revalidate both old and new handle paths
     if (oldUser?.handle) {
       revalidatePath(`/u/${oldUser.handle}`);
@@ -826,7 +961,286 @@ export async function updateProfile(data: z.infer<typeof updateProfileSchema>) {
     if (error instanceof z.ZodError) {
       return { error: error.issues[0].message };
     }
+    if (error instanceof HandleError) {
+      return { error: error.message };
+    }
     console.error("Update profile error:", error);
     return { error: "Failed to update profile" };
   }
 }
+
+// ==================== HANDLE ====================
+
+/**
+ * Get the current user's handle and when they can next change it.
+ */
+export async function getHandleSettings() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        handle: true,
+        handleChangedAt: true,
+        handleHistory: {
+          orderBy: { releasedAt: "desc" },
+          select: { handle: true, releasedAt: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return { error: "User not found" };
+    }
+
+    return {
+      success: true,
+      handle: user.handle,
+      nextChangeAt: getNextHandleChangeAt(user.handleChangedAt),
+      previousHandles: user.handleHistory,
+    };
+  } catch (error) {
+    console.error("Get handle settings error:", error);
+    return { error: "Failed to load handle settings" };
+  }
+}
+
+/**
+ * Change the current user's handle. Old profile URLs keep redirecting.
+ */
+export async function changeHandle(handle: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { status: true },
+    });
+
+    if (user?.status !== "ACTIVE") {
+      return { error: "Your account must be active to change your handle" };
+    }
+
+    const result = await changeUserHandle(session.user.id, handle.trim());
+
+    if (result.previousHandle) {
+      revalidatePath(`/u/${result.previousHandle}`);
+    }
+    revalidatePath(`/u/${result.handle}`);
+    revalidatePath("/me/account");
+    revalidatePath("/me/settings");
+
+    return { success: true, handle: result.handle };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    if (error instanceof HandleError) {
+      return { error: error.message };
+    }
+    console.error("Change handle error:", error);
+    return { error: "Failed to change handle" };
+  }
+}
+
+// ==================== JSON RESUME ====================
+
+const resumeImportOptionsSchema = z.object({
+  fields: z.array(z.enum(RESUME_PROFILE_FIELDS)),
+  links: z.boolean(),
+  skills: z.boolean(),
+  projects: z.boolean(),
+  qualifications: z.boolean(),
+  visibility: z.enum(["PUBLIC", "PRIVATE", "CONNECTIONS_ONLY"]).default("PUBLIC"),
+});
+
+/**
+ * Plan a JSON Resume import for the current user.
+ */
+async function planResumeImportForUser(userId: string, raw: string) {
+  const resume = parseJsonResume(raw);
+
+  const [user, skillTags] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        handle: true,
+        name: true,
+        roleTitle: true,
+        bio: true,
+        location: true,
+        website: true,
+        links: { select: { url: true } },
+        userSkills: { select: { skillTagId: true } },
+        projects: { select: { title: true } },
+        qualifications: { select: { title: true, institution: true } },
+      },
+    }),
+    prisma.skillTag.findMany({
+      where: { status: "APPROVED" },
+      select: { id: true, name: true, slug: true, aliases: { select: { slug: true } } },
+    }),
+  ]);
+
+  if (!user) {
+    return null;
+  }
+
+  return { handle: user.handle, plan: planJsonResumeImport(resume, user, skillTags) };
+}
+
+/**
+ * Preview what importing a JSON Resume document would change.
+ */
+export async function previewJsonResumeImport(raw: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const result = await planResumeImportForUser(session.user.id, raw);
+    if (!result) {
+      return { error: "User not found" };
+    }
+
+    return { success: true, preview: result.plan };
+  } catch (error) {
+    if (error instanceof JsonResumeError) {
+      return { error: error.message };
+    }
+    console.error("Preview resume import error:", error);
+    return { error: "Failed to read résumé" };
+  }
+}
+
+/**
+ * Apply a JSON Resume import. The plan is rebuilt from the document rather
+ * than trusted from the client; items the profile already has are skipped.
+ */
+export async function applyJsonResumeImport(
+  raw: string,
+  options: z.input<typeof resumeImportOptionsSchema>
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+    const userId = session.user.id;
+
+    const validated = resumeImportOptionsSchema.parse(options);
+    const result = await planResumeImportForUser(userId, raw);
+    if (!result) {
+      return { error: "User not found" };
+    }
+    const { plan } = result;
+
+    const fields = plan.fields.filter(({ field }) => validated.fields.includes(field));
+    const links = validated.links ? plan.links.filter((link) => !link.exists) : [];
+    const skills = validated.skills ? plan.skills.filter((skill) => !skill.exists) : [];
+    const projects = validated.projects ? plan.projects.filter((p) => !p.exists) : [];
+    const qualifications = validated.qualifications
+      ? plan.qualifications.filter((q) => !q.exists)
+      : [];
+
+    await prisma.$transaction(async (tx) => {
+      if (fields.length > 0) {
+        await tx.user.update({
+          where: { id: userId },
+          data: Object.fromEntries(fields.map(({ field, incoming }) => [field, incoming])),
+        });
+      }
+
+      if (links.length > 0) {
+        const lastLink = await tx.link.findFirst({
+          where: { userId },
+          orderBy: { order: "desc" },
+        });
+        const firstOrder = (lastLink?.order ?? -1) + 1;
+
+        await tx.link.createMany({
+          data: links.map((link, index) => ({
+            userId,
+            label: link.label,
+            url: link.url,
+            order: firstOrder + index,
+          })),
+        });
+      }
+
+      if (skills.length > 0) {
+        await tx.userSkill.createMany({
+          data: skills.map((skill) => ({
+            userId,
+            skillTagId: skill.skillTagId,
+            level: skill.level,
+          })),
+          skipDuplicates: true,
+        });
+      }
+
+      if (projects.length > 0) {
+        await tx.project.createMany({
+          data: projects.map((project) => ({
+            userId,
+            title: project.title,
+            description: project.description,
+            url: project.url,
+            status: project.status,
+            visibility: validated.visibility,
+            startDate: project.startDate,
+            endDate: project.endDate,
+          })),
+        });
+      }
+
+      if (qualifications.length > 0) {
+        await tx.qualification.createMany({
+          data: qualifications.map((qualification) => ({
+            userId,
+            title: qualification.title,
+            institution: qualification.institution,
+            year: qualification.year,
+            description: qualification.description,
+            visibility: validated.visibility,
+          })),
+        });
+      }
+    });
+
+    if (fields.some(({ field }) => field === "name")) {
+      await syncMatrixDisplayName(userId);
+    }
+
+    revalidatePath(`/u/${result.handle}`);
+    revalidatePath("/me/settings");
+
+    return {
+      success: true,
+      imported: {
+        fields: fields.length,
+        links: links.length,
+        skills: skills.length,
+        projects: projects.length,
+        qualifications: qualifications.length,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    if (error instanceof JsonResumeError) {
+      return { error: error.message };
+    }
+    console.error("Apply resume import error:", error);
+    return { error: "Failed to import résumé" };
+  }
+}
@@ -5,6 +5,7 @@ import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { membershipRateLimiter } from "@/lib/rate-limit";
+import { createNotification, getActorName } from "@/lib/notifications";
 import {
   inviteMemberToProjectRoom,
   removeMemberFromProjectRoom,
@@ -177,6 +178,15 @@ export async function addProjectMember(data: z.infer<typeof addMemberSchema>) {
       // Don't fail the membership - chat is secondary
     }
 
+    await createNotification({
+      userId: validated.userId,
+      type: "PROJECT_UPDATE",
+      actorId: callerId,
+      entityType: "project",
+      entityId: validated.projectId,
+      message: `${await getActorName(callerId)} added you to ${project.title}`,
+    });
+
     revalidatePath(`/u/${project.user.handle}`);
 
     return { success: true, membership };
@@ -288,7 +298,7 @@ export async function updateMemberRole(data: z.infer<typeof updateMemberRoleSche
     // Verify project ownership (only owner can change roles)
     const project = await prisma.project.findUnique({
       where: { id: validated.projectId },
-      select: { userId: true },
+      select: { userId: true, title: true },
     });
 
     if (!project) {
@@ -312,6 +322,15 @@ export async function updateMemberRole(data: z.infer<typeof updateMemberRoleSche
       },
     });
 
+    await createNotification({
+      userId: validated.userId,
+      type: "PROJECT_UPDATE",
+      actorId: callerId,
+      entityType: "project",
+      entityId: validated.projectId,
+      message: `Your role on ${project.title} was changed to ${validated.role.toLowerCase()}`,
+    });
+
     return { success: true, membership };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -4,6 +4,7 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 import { revalidatePath } from "next/cache";
+import { revokeAllUserSessions } from "@/lib/sessions";
 
 // ==================== CREATE REPORT ====================
 
@@ -82,13 +83,17 @@ export async function getReports(filters: GetReportsFilters = {}) {
     // Check if user is admin
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { role: true },
+      select: { role: true, totpEnabledAt: true },
     });
 
     if (user?.role !== "ADMIN" && user?.role !== "MODERATOR") {
       return { error: "Unauthorized - Admin access required" };
     }
 
+    if (!user.totpEnabledAt) {
+      return { error: "Enable two-factor authentication to use moderation tools" };
+    }
+
     const { status, cursor, limit = 50 } = filters;
 
     const where: any = {};
@@ -156,13 +161,17 @@ export async function updateReportStatus(data: z.infer<typeof updateReportSchema
     // Check if user is admin
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { role: true },
+      select: { role: true, totpEnabledAt: true },
     });
 
     if (user?.role !== "ADMIN" && user?.role !== "MODERATOR") {
       return { error: "Unauthorized - Admin access required" };
     }
 
+    if (!user.totpEnabledAt) {
+      return { error: "Enable two-factor authentication to use moderation tools" };
+    }
+
     const validated = updateReportSchema.parse(data);
 
     const report = await prisma.report.update({
@@ -203,13 +212,17 @@ export async function suspendUser(userId: string, reason?: string) {
     // Check if user is admin
     const adminUser = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { role: true },
+      select: { role: true, totpEnabledAt: true },
     });
 
     if (adminUser?.role !== "ADMIN" && adminUser?.role !== "MODERATOR") {
       return { error: "Unauthorized - Admin access required" };
     }
 
+    if (!adminUser.totpEnabledAt) {
+      return { error: "Enable two-factor authentication to use moderation tools" };
+    }
+
     // Prevent self-suspension
     if (session.user.id === userId) {
       return { error: "Cannot suspend yourself" };
@@ -235,6 +248,9 @@ export async function suspendUser(userId: string, reason?: string) {
       data: { status: "SUSPENDED" },
     });
 
+    // Sign out every device immediately
+    await revokeAllUserSessions(userId);
+
     revalidatePath("/app/admin/reports");
     revalidatePath("/app");
 
@@ -257,13 +273,17 @@ export async function unsuspendUser(userId: string) {
     // Check if user is admin
     const adminUser = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { role: true },
+      select: { role: true, totpEnabledAt: true },
     });
 
     if (adminUser?.role !== "ADMIN" && adminUser?.role !== "MODERATOR") {
       return { error: "Unauthorized - Admin access required" };
     }
 
+    if (!adminUser.totpEnabledAt) {
+      return { error: "Enable two-factor authentication to use moderation tools" };
+    }
+
     // Update user status to ACTIVE
     const user = await prisma.user.update({
       where: { id: userId },
@@ -0,0 +1,215 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import {
+  MAX_SAVED_SEARCHES,
+  parseSavedSearchFilters,
+  resetSavedSearchMatches,
+  savedSearchFiltersSchema,
+} from "@/lib/saved-searches";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Verify user is authenticated and ACTIVE
+ */
+async function verifyActiveUser(): Promise<{ error: string } | { userId: string }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, status: true },
+  });
+
+  if (!user) {
+    return { error: "User not found" };
+  }
+
+  if (user.status !== "ACTIVE") {
+    return { error: "Your account must be active to perform this action" };
+  }
+
+  return { userId: user.id };
+}
+
+const savedSearchSelect = {
+  id: true,
+  name: true,
+  filters: true,
+  alertsEnabled: true,
+  createdAt: true,
+} satisfies Prisma.SavedSearchSelect;
+
+function toSavedSearch(
+  savedSearch: Prisma.SavedSearchGetPayload<{ select: typeof savedSearchSelect }>
+) {
+  return { ...savedSearch, filters: parseSavedSearchFilters(savedSearch.filters) };
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(60, "Name must be 60 characters or fewer");
+
+const createSavedSearchSchema = z.object({
+  name: nameSchema,
+  filters: savedSearchFiltersSchema,
+  alertsEnabled: z.boolean().default(false),
+});
+
+const updateSavedSearchSchema = z.object({
+  id: z.string(),
+  name: nameSchema.optional(),
+  alertsEnabled: z.boolean().optional(),
+});
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Get the current user's saved searches, newest first.
+ */
+export async function getSavedSearches() {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { userId: authResult.userId },
+      orderBy: { createdAt: "desc" },
+      select: savedSearchSelect,
+    });
+
+    return { success: true, savedSearches: savedSearches.map(toSavedSearch) };
+  } catch (error) {
+    console.error("Get saved searches error:", error);
+    return { error: "Failed to load saved searches" };
+  }
+}
+
+/**
+ * Save a set of directory filters under a name.
+ * With alerts on, only members who match after now are reported.
+ */
+export async function createSavedSearch(data: z.input<typeof createSavedSearchSchema>) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+    const { userId } = authResult;
+
+    const validated = createSavedSearchSchema.parse(data);
+
+    const count = await prisma.savedSearch.count({ where: { userId } });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return { error: `You can save up to ${MAX_SAVED_SEARCHES} searches` };
+    }
+
+    const savedSearch = await prisma.savedSearch.create({
+      data: {
+        userId,
+        name: validated.name,
+        filters: validated.filters,
+        alertsEnabled: validated.alertsEnabled,
+      },
+      select: savedSearchSelect,
+    });
+
+    if (savedSearch.alertsEnabled) {
+      await resetSavedSearchMatches({ ...savedSearch, userId });
+    }
+
+    return { success: true, savedSearch: toSavedSearch(savedSearch) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Create saved search error:", error);
+    return { error: "Failed to save search" };
+  }
+}
+
+/**
+ * Rename a saved search or turn its alerts on or off.
+ */
+export async function updateSavedSearch(data: z.infer<typeof updateSavedSearchSchema>) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+    const { userId } = authResult;
+
+    const validated = updateSavedSearchSchema.parse(data);
+
+    const existing = await prisma.savedSearch.findFirst({
+      where: { id: validated.id, userId },
+      select: { alertsEnabled: true },
+    });
+
+    if (!existing) {
+      return { error: "Saved search not found" };
+    }
+
+    const savedSearch = await prisma.savedSearch.update({
+      where: { id: validated.id },
+      data: { name: validated.name, alertsEnabled: validated.alertsEnabled },
+      select: savedSearchSelect,
+    });
+
+    // Members who matched while alerts were off aren't news
+    if (savedSearch.alertsEnabled && !existing.alertsEnabled) {
+      await resetSavedSearchMatches({ ...savedSearch, userId });
+    }
+
+    return { success: true, savedSearch: toSavedSearch(savedSearch) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Update saved search error:", error);
+    return { error: "Failed to update saved search" };
+  }
+}
+
+/**
+ * Delete a saved search.
+ */
+export async function deleteSavedSearch(id: string) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+
+    const { count } = await prisma.savedSearch.deleteMany({
+      where: { id, userId: authResult.userId },
+    });
+
+    if (count === 0) {
+      return { error: "Saved search not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete saved search error:", error);
+    return { error: "Failed to delete saved search" };
+  }
+}
@@ -0,0 +1,112 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { describeUserAgent, revokeAllUserSessions } from "@/lib/sessions";
+
+/**
+ * List the current user's active sessions, most recently used first.
+ */
+export async function getMySessions() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const userSessions = await prisma.userSession.findMany({
+      where: { userId: session.user.id, revokedAt: null },
+      orderBy: { lastSeenAt: "desc" },
+      select: {
+        id: true,
+        userAgent: true,
+        ip: true,
+        createdAt: true,
+        lastSeenAt: true,
+      },
+    });
+
+    return {
+      success: true,
+      sessions: userSessions.map((userSession) => ({
+        ...userSession,
+        device: describeUserAgent(userSession.userAgent),
+        current: userSession.id === session.sessionId,
+      })),
+    };
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    return { error: "Failed to load sessions" };
+  }
+}
+
+/**
+ * Sign out one of the current user's sessions.
+ */
+export async function revokeSession(sessionId: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const result = await prisma.userSession.updateMany({
+      where: { id: sessionId, userId: session.user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      return { error: "Session not found" };
+    }
+
+    revalidatePath("/me/account");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return { error: "Failed to sign out session" };
+  }
+}
+
+/**
+ * Sign out every session except the current one.
+ */
+export async function revokeOtherSessions() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const count = await revokeAllUserSessions(session.user.id, {
+      exceptSessionId: session.sessionId,
+    });
+
+    revalidatePath("/me/account");
+
+    return { success: true, count };
+  } catch (error) {
+    console.error("Revoke other sessions error:", error);
+    return { error: "Failed to sign out other sessions" };
+  }
+}
+
+/**
+ * Sign out every session, including the current one.
+ */
+export async function revokeAllSessions() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    await revokeAllUserSessions(session.user.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Revoke all sessions error:", error);
+    return { error: "Failed to sign out all sessions" };
+  }
+}
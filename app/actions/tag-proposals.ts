@@ -0,0 +1,564 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createNotification } from "@/lib/notifications";
+import {
+  TagError,
+  assertTagSlugAvailable,
+  findSimilarTags,
+  isUniqueConstraintError,
+  mergeSkillTags,
+  mergeToolTags,
+  removeTag,
+  slugifyTag,
+  type TagKind,
+} from "@/lib/tags";
+
+/** Most proposals a member can have waiting for review at once */
+const MAX_PENDING_PROPOSALS = 5;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Verify user is authenticated and ACTIVE
+ */
+async function verifyActiveUser(): Promise<{ error: string } | { userId: string }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, status: true },
+  });
+
+  if (!user) {
+    return { error: "User not found" };
+  }
+
+  if (user.status !== "ACTIVE") {
+    return { error: "Your account must be active to propose tags" };
+  }
+
+  return { userId: user.id };
+}
+
+/**
+ * Verify the caller is a moderator or admin with two-factor enabled
+ */
+async function verifyModerator(): Promise<{ error: string } | { moderatorId: string }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true, totpEnabledAt: true },
+  });
+
+  if (user?.role !== "ADMIN" && user?.role !== "MODERATOR") {
+    return { error: "Unauthorized - Admin access required" };
+  }
+
+  if (!user.totpEnabledAt) {
+    return { error: "Enable two-factor authentication to use moderation tools" };
+  }
+
+  return { moderatorId: session.user.id };
+}
+
+/**
+ * Load a pending proposal with the proposer and every member who has it on
+ * their profile.
+ */
+async function getPendingProposal(kind: TagKind, tagId: string) {
+  const tag =
+    kind === "skill"
+      ? await prisma.skillTag.findUnique({
+          where: { id: tagId },
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            proposedById: true,
+            userSkills: { select: { userId: true } },
+          },
+        })
+      : await prisma.toolTag.findUnique({
+          where: { id: tagId },
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            proposedById: true,
+            userTools: { select: { userId: true } },
+          },
+        });
+
+  if (!tag || tag.status !== "PENDING") {
+    return null;
+  }
+
+  const rows = "userSkills" in tag ? tag.userSkills : tag.userTools;
+  const memberIds = new Set(rows.map((row) => row.userId));
+  if (tag.proposedById) {
+    memberIds.add(tag.proposedById);
+  }
+
+  return { id: tag.id, name: tag.name, proposedById: tag.proposedById, memberIds: [...memberIds] };
+}
+
+async function notifyProposalMembers(memberIds: string[], tagId: string, message: string) {
+  for (const userId of memberIds) {
+    await createNotification({
+      userId,
+      type: "SYSTEM",
+      entityType: "tag_proposal",
+      entityId: tagId,
+      message,
+    });
+  }
+}
+
+function revalidateProposals() {
+  revalidatePath("/app/admin/tag-proposals");
+  revalidatePath("/app/admin/taxonomy");
+  revalidatePath("/me/settings");
+  revalidatePath("/u/[handle]", "page");
+  revalidatePath("/app");
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const tagKindSchema = z.enum(["skill", "tool"]);
+
+const proposeTagSchema = z.object({
+  kind: tagKindSchema,
+  name: z.string().trim().min(1, "Name is required").max(50, "Name must be 50 characters or less"),
+  category: z.string().trim().max(50).optional(),
+  description: z.string().trim().max(300).optional(),
+  level: z.enum(["BEGINNER", "INTERMEDIATE", "ADVANCED", "EXPERT"]).default("INTERMEDIATE"),
+  yearsOfExp: z.number().min(0).optional(),
+  /** Propose even though similar tags exist */
+  confirmed: z.boolean().default(false),
+});
+
+const approveSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50),
+  category: z.string().trim().max(50).optional(),
+  description: z.string().trim().max(300).optional(),
+});
+
+// =============================================================================
+// Member Actions
+// =============================================================================
+
+/**
+ * Propose a skill or tool tag that isn't in the list and add it to your
+ * profile. It's only visible to you until a moderator approves it.
+ *
+ * A proposal whose slug matches an existing tag or alias is turned away; one
+ * matching another member's pending proposal joins it instead. Names that
+ * look like existing tags come back as `similar` so the member can pick one,
+ * or resubmit with `confirmed` to propose anyway.
+ */
+export async function proposeTag(data: z.input<typeof proposeTagSchema>) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+    const { userId } = authResult;
+
+    const validated = proposeTagSchema.parse(data);
+    const { kind } = validated;
+    const slug = slugifyTag(validated.name);
+
+    if (!slug) {
+      return { error: "Name must contain letters or numbers" };
+    }
+
+    const existing =
+      kind === "skill"
+        ? await prisma.skillTag.findUnique({
+            where: { slug },
+            select: { id: true, name: true, status: true },
+          })
+        : await prisma.toolTag.findUnique({
+            where: { slug },
+            select: { id: true, name: true, status: true },
+          });
+
+    if (existing?.status === "APPROVED") {
+      return { error: `"${existing.name}" already exists. Select it from the list.` };
+    }
+
+    // Someone else proposed the same tag: add theirs to this profile too
+    if (existing?.status === "PENDING") {
+      await attachTag(kind, userId, existing.id, validated);
+      revalidateProposals();
+      return { success: true, tag: existing, joined: true };
+    }
+
+    const alias =
+      kind === "skill"
+        ? await prisma.skillTagAlias.findUnique({
+            where: { slug },
+            select: { skillTag: { select: { name: true } } },
+          })
+        : await prisma.toolTagAlias.findUnique({
+            where: { slug },
+            select: { toolTag: { select: { name: true } } },
+          });
+
+    if (alias) {
+      const name = "skillTag" in alias ? alias.skillTag.name : alias.toolTag.name;
+      return { error: `That's another name for "${name}". Select it from the list.` };
+    }
+
+    if (!validated.confirmed) {
+      const similar = await findSimilarTags(kind, validated.name);
+      if (similar.length > 0) {
+        return { needsConfirmation: true, similar };
+      }
+    }
+
+    const pendingCount =
+      kind === "skill"
+        ? await prisma.skillTag.count({ where: { proposedById: userId, status: "PENDING" } })
+        : await prisma.toolTag.count({ where: { proposedById: userId, status: "PENDING" } });
+
+    if (pendingCount >= MAX_PENDING_PROPOSALS) {
+      return {
+        error: `You have ${MAX_PENDING_PROPOSALS} ${kind} proposals awaiting review. Try again once they've been reviewed.`,
+      };
+    }
+
+    const values = {
+      name: validated.name,
+      slug,
+      category: validated.category || null,
+      description: validated.description || null,
+      status: "PENDING" as const,
+      proposedById: userId,
+      proposedAt: new Date(),
+    };
+
+    const tag = await prisma.$transaction(async (tx) => {
+      if (kind === "skill") {
+        const tag = await tx.skillTag.create({ data: values });
+        await tx.userSkill.create({
+          data: {
+            userId,
+            skillTagId: tag.id,
+            level: validated.level,
+            yearsOfExp: validated.yearsOfExp,
+          },
+        });
+        return tag;
+      }
+
+      const tag = await tx.toolTag.create({ data: values });
+      await tx.userTool.create({
+        data: {
+          userId,
+          toolTagId: tag.id,
+          level: validated.level,
+          yearsOfExp: validated.yearsOfExp,
+        },
+      });
+      return tag;
+    });
+
+    revalidateProposals();
+
+    return { success: true, tag, joined: false };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    if (isUniqueConstraintError(error)) {
+      return { error: "A tag with that name already exists" };
+    }
+    console.error("Propose tag error:", error);
+    return { error: "Failed to propose tag" };
+  }
+}
+
+async function attachTag(
+  kind: TagKind,
+  userId: string,
+  tagId: string,
+  data: { level: z.infer<typeof proposeTagSchema>["level"]; yearsOfExp?: number }
+) {
+  if (kind === "skill") {
+    await prisma.userSkill.upsert({
+      where: { userId_skillTagId: { userId, skillTagId: tagId } },
+      create: { userId, skillTagId: tagId, level: data.level, yearsOfExp: data.yearsOfExp },
+      update: {},
+    });
+  } else {
+    await prisma.userTool.upsert({
+      where: { userId_toolTagId: { userId, toolTagId: tagId } },
+      create: { userId, toolTagId: tagId, level: data.level, yearsOfExp: data.yearsOfExp },
+      update: {},
+    });
+  }
+}
+
+// =============================================================================
+// Moderator Actions
+// =============================================================================
+
+/**
+ * List pending skill and tool proposals, oldest first, with the existing tags
+ * each one looks like a duplicate of.
+ */
+export async function getTagProposalQueue() {
+  try {
+    const moderator = await verifyModerator();
+    if ("error" in moderator) {
+      return { error: moderator.error };
+    }
+
+    const select = {
+      id: true,
+      name: true,
+      category: true,
+      description: true,
+      proposedAt: true,
+      proposedBy: { select: { id: true, name: true, handle: true, avatar: true } },
+    } as const;
+
+    const [skillTags, toolTags] = await Promise.all([
+      prisma.skillTag.findMany({
+        where: { status: "PENDING" },
+        orderBy: [{ proposedAt: "asc" }, { id: "asc" }],
+        select: { ...select, _count: { select: { userSkills: true } } },
+      }),
+      prisma.toolTag.findMany({
+        where: { status: "PENDING" },
+        orderBy: [{ proposedAt: "asc" }, { id: "asc" }],
+        select: { ...select, _count: { select: { userTools: true } } },
+      }),
+    ]);
+
+    const proposals = await Promise.all([
+      ...skillTags.map(async ({ _count, ...tag }) => ({
+        ...tag,
+        kind: "skill" as const,
+        usageCount: _count.userSkills,
+        similar: await findSimilarTags("skill", tag.name, { exceptTagId: tag.id }),
+      })),
+      ...toolTags.map(async ({ _count, ...tag }) => ({
+        ...tag,
+        kind: "tool" as const,
+        usageCount: _count.userTools,
+        similar: await findSimilarTags("tool", tag.name, { exceptTagId: tag.id }),
+      })),
+    ]);
+
+    // Merge targets for the review dialog
+    const [approvedSkillTags, approvedToolTags] = await Promise.all([
+      prisma.skillTag.findMany({
+        where: { status: "APPROVED" },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, category: true },
+      }),
+      prisma.toolTag.findMany({
+        where: { status: "APPROVED" },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, category: true },
+      }),
+    ]);
+
+    return { success: true, proposals, approvedSkillTags, approvedToolTags };
+  } catch (error) {
+    console.error("Get tag proposal queue error:", error);
+    return { error: "Failed to load tag proposals" };
+  }
+}
+
+/**
+ * Approve a proposal, optionally correcting its name, category or description
+ * first. It becomes visible on every profile that has it.
+ */
+export async function approveTagProposal(
+  kind: TagKind,
+  tagId: string,
+  data: z.infer<typeof approveSchema>
+) {
+  try {
+    const moderator = await verifyModerator();
+    if ("error" in moderator) {
+      return { error: moderator.error };
+    }
+
+    const validated = approveSchema.parse(data);
+    const proposal = await getPendingProposal(tagKindSchema.parse(kind), tagId);
+
+    if (!proposal) {
+      return { error: "This proposal has already been reviewed" };
+    }
+
+    if (proposal.proposedById === moderator.moderatorId) {
+      return { error: "You can't review your own proposal" };
+    }
+
+    const slug = slugifyTag(validated.name);
+    await assertTagSlugAvailable(kind, slug, { exceptTagId: tagId });
+
+    const values = {
+      name: validated.name,
+      slug,
+      category: validated.category || null,
+      description: validated.description || null,
+      status: "APPROVED" as const,
+    };
+
+    if (kind === "skill") {
+      await prisma.skillTag.update({ where: { id: tagId }, data: values });
+    } else {
+      await prisma.toolTag.update({ where: { id: tagId }, data: values });
+    }
+
+    await notifyProposalMembers(
+      proposal.memberIds,
+      tagId,
+      `"${validated.name}" has been approved and is now visible on your profile`
+    );
+
+    revalidateProposals();
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    if (error instanceof TagError) {
+      return { error: error.message };
+    }
+    if (isUniqueConstraintError(error)) {
+      return { error: "A tag with that name already exists" };
+    }
+    console.error("Approve tag proposal error:", error);
+    return { error: "Failed to approve proposal" };
+  }
+}
+
+/**
+ * Merge a proposal into an existing tag. Members who had the proposal get the
+ * existing tag instead, and the proposed name becomes an alias of it.
+ */
+export async function mergeTagProposal(kind: TagKind, tagId: string, targetId: string) {
+  try {
+    const moderator = await verifyModerator();
+    if ("error" in moderator) {
+      return { error: moderator.error };
+    }
+
+    const proposal = await getPendingProposal(tagKindSchema.parse(kind), tagId);
+
+    if (!proposal) {
+      return { error: "This proposal has already been reviewed" };
+    }
+
+    if (proposal.proposedById === moderator.moderatorId) {
+      return { error: "You can't review your own proposal" };
+    }
+
+    const target =
+      kind === "skill"
+        ? await prisma.skillTag.findUnique({
+            where: { id: targetId },
+            select: { name: true, status: true },
+          })
+        : await prisma.toolTag.findUnique({
+            where: { id: targetId },
+            select: { name: true, status: true },
+          });
+
+    if (!target || target.status !== "APPROVED") {
+      return { error: "Choose an approved tag to merge into" };
+    }
+
+    if (kind === "skill") {
+      await mergeSkillTags(tagId, targetId);
+    } else {
+      await mergeToolTags(tagId, targetId);
+    }
+
+    await notifyProposalMembers(
+      proposal.memberIds,
+      targetId,
+      `"${proposal.name}" was merged into "${target.name}", which is now on your profile`
+    );
+
+    revalidateProposals();
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof TagError) {
+      return { error: error.message };
+    }
+    console.error("Merge tag proposal error:", error);
+    return { error: "Failed to merge proposal" };
+  }
+}
+
+/**
+ * Reject a proposal. It's removed from every profile that had it.
+ */
+export async function rejectTagProposal(kind: TagKind, tagId: string, note?: string) {
+  try {
+    const moderator = await verifyModerator();
+    if ("error" in moderator) {
+      return { error: moderator.error };
+    }
+
+    const reason = z
+      .string()
+      .trim()
+      .max(500, "Note must be 500 characters or less")
+      .optional()
+      .parse(note);
+    const proposal = await getPendingProposal(tagKindSchema.parse(kind), tagId);
+
+    if (!proposal) {
+      return { error: "This proposal has already been reviewed" };
+    }
+
+    if (proposal.proposedById === moderator.moderatorId) {
+      return { error: "You can't review your own proposal" };
+    }
+
+    await removeTag(kind, tagId);
+
+    await notifyProposalMembers(
+      proposal.memberIds,
+      tagId,
+      reason
+        ? `Your proposed ${kind} "${proposal.name}" wasn't approved: ${reason}`
+        : `Your proposed ${kind} "${proposal.name}" wasn't approved and has been removed from your profile`
+    );
+
+    revalidateProposals();
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Reject tag proposal error:", error);
+    return { error: "Failed to reject proposal" };
+  }
+}
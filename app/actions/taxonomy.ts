@@ -0,0 +1,315 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  TagError,
+  assertTagSlugAvailable,
+  isUniqueConstraintError,
+  mergeSkillTags,
+  mergeToolTags,
+  removeTag,
+  slugifyTag,
+  type TagKind,
+} from "@/lib/tags";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Verify the caller is an admin
+ */
+async function verifyAdmin(): Promise<{ error: string } | { adminId: string }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, role: true, totpEnabledAt: true },
+  });
+
+  if (!user) {
+    return { error: "User not found" };
+  }
+
+  if (user.role !== "ADMIN") {
+    return { error: "Admin access required" };
+  }
+
+  if (!user.totpEnabledAt) {
+    return { error: "Enable two-factor authentication to use admin tools" };
+  }
+
+  return { adminId: session.user.id };
+}
+
+function revalidateTaxonomy() {
+  revalidatePath("/app/admin/taxonomy");
+  revalidatePath("/me/settings");
+  revalidatePath("/app");
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const tagKindSchema = z.enum(["skill", "tool"]);
+
+const tagSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50),
+  category: z.string().trim().max(50).optional(),
+  description: z.string().trim().max(300).optional(),
+});
+
+const aliasSchema = z.string().trim().min(1, "Alias is required").max(50);
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * List every approved tag of a kind with its aliases and how many members use
+ * it. Pending proposals are reviewed in the tag proposal queue instead.
+ */
+export async function getTaxonomy(kind: TagKind) {
+  try {
+    const admin = await verifyAdmin();
+    if ("error" in admin) {
+      return { error: admin.error };
+    }
+
+    const orderBy = [{ category: "asc" as const }, { name: "asc" as const }];
+    const aliases = { orderBy: { name: "asc" as const }, select: { id: true, name: true } };
+
+    const tags =
+      tagKindSchema.parse(kind) === "skill"
+        ? (
+            await prisma.skillTag.findMany({
+              where: { status: "APPROVED" },
+              orderBy,
+              include: { aliases, _count: { select: { userSkills: true } } },
+            })
+          ).map(({ _count, ...tag }) => ({ ...tag, usageCount: _count.userSkills }))
+        : (
+            await prisma.toolTag.findMany({
+              where: { status: "APPROVED" },
+              orderBy,
+              include: { aliases, _count: { select: { userTools: true } } },
+            })
+          ).map(({ _count, ...tag }) => ({ ...tag, usageCount: _count.userTools }));
+
+    return { success: true, tags };
+  } catch (error) {
+    console.error("Get taxonomy error:", error);
+    return { error: "Failed to load tags" };
+  }
+}
+
+/**
+ * Create a tag.
+ */
+export async function createTag(kind: TagKind, data: z.infer<typeof tagSchema>) {
+  try {
+    const admin = await verifyAdmin();
+    if ("error" in admin) {
+      return { error: admin.error };
+    }
+
+    const validated = tagSchema.parse(data);
+    const slug = slugifyTag(validated.name);
+    await assertTagSlugAvailable(tagKindSchema.parse(kind), slug);
+
+    const values = {
+      name: validated.name,
+      slug,
+      category: validated.category || null,
+      description: validated.description || null,
+    };
+
+    const tag =
+      kind === "skill"
+        ? await prisma.skillTag.create({ data: values })
+        : await prisma.toolTag.create({ data: values });
+
+    revalidateTaxonomy();
+
+    return { success: true, tag };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    if (error instanceof TagError) {
+      return { error: error.message };
+    }
+    if (isUniqueConstraintError(error)) {
+      return { error: "A tag with that name already exists" };
+    }
+    console.error("Create tag error:", error);
+    return { error: "Failed to create tag" };
+  }
+}
+
+/**
+ * Rename, recategorize or describe a tag. Renaming also changes its slug.
+ */
+export async function updateTag(kind: TagKind, tagId: string, data: z.infer<typeof tagSchema>) {
+  try {
+    const admin = await verifyAdmin();
+    if ("error" in admin) {
+      return { error: admin.error };
+    }
+
+    const validated = tagSchema.parse(data);
+    const slug = slugifyTag(validated.name);
+    await assertTagSlugAvailable(tagKindSchema.parse(kind), slug, { exceptTagId: tagId });
+
+    const values = {
+      name: validated.name,
+      slug,
+      category: validated.category || null,
+      description: validated.description || null,
+    };
+
+    const tag =
+      kind === "skill"
+        ? await prisma.skillTag.update({ where: { id: tagId }, data: values })
+        : await prisma.toolTag.update({ where: { id: tagId }, data: values });
+
+    revalidateTaxonomy();
+
+    return { success: true, tag };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    if (error instanceof TagError) {
+      return { error: error.message };
+    }
+    if (isUniqueConstraintError(error)) {
+      return { error: "A tag with that name already exists" };
+    }
+    console.error("Update tag error:", error);
+    return { error: "Failed to update tag" };
+  }
+}
+
+/**
+ * Delete a tag. It's removed from every profile and saved search that uses it.
+ */
+export async function deleteTag(kind: TagKind, tagId: string) {
+  try {
+    const admin = await verifyAdmin();
+    if ("error" in admin) {
+      return { error: admin.error };
+    }
+
+    await removeTag(tagKindSchema.parse(kind), tagId);
+
+    revalidateTaxonomy();
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete tag error:", error);
+    return { error: "Failed to delete tag" };
+  }
+}
+
+/**
+ * Merge a duplicate tag into another. See mergeSkillTags() for the rules.
+ */
+export async function mergeTags(kind: TagKind, sourceId: string, targetId: string) {
+  try {
+    const admin = await verifyAdmin();
+    if ("error" in admin) {
+      return { error: admin.error };
+    }
+
+    const result =
+      tagKindSchema.parse(kind) === "skill"
+        ? await mergeSkillTags(sourceId, targetId)
+        : await mergeToolTags(sourceId, targetId);
+
+    revalidateTaxonomy();
+
+    return { success: true, ...result };
+  } catch (error) {
+    if (error instanceof TagError) {
+      return { error: error.message };
+    }
+    console.error("Merge tags error:", error);
+    return { error: "Failed to merge tags" };
+  }
+}
+
+/**
+ * Add an alternative name for a tag.
+ */
+export async function addTagAlias(kind: TagKind, tagId: string, name: string) {
+  try {
+    const admin = await verifyAdmin();
+    if ("error" in admin) {
+      return { error: admin.error };
+    }
+
+    const aliasName = aliasSchema.parse(name);
+    const slug = slugifyTag(aliasName);
+    await assertTagSlugAvailable(tagKindSchema.parse(kind), slug);
+
+    const alias =
+      kind === "skill"
+        ? await prisma.skillTagAlias.create({
+            data: { name: aliasName, slug, skillTagId: tagId },
+            select: { id: true, name: true },
+          })
+        : await prisma.toolTagAlias.create({
+            data: { name: aliasName, slug, toolTagId: tagId },
+            select: { id: true, name: true },
+          });
+
+    revalidateTaxonomy();
+
+    return { success: true, alias };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    if (error instanceof TagError) {
+      return { error: error.message };
+    }
+    if (isUniqueConstraintError(error)) {
+      return { error: "That alias is already in use" };
+    }
+    console.error("Add tag alias error:", error);
+    return { error: "Failed to add alias" };
+  }
+}
+
+/**
+ * Remove an alias.
+ */
+export async function removeTagAlias(kind: TagKind, aliasId: string) {
+  try {
+    const admin = await verifyAdmin();
+    if ("error" in admin) {
+      return { error: admin.error };
+    }
+
+    if (tagKindSchema.parse(kind) === "skill") {
+      await prisma.skillTagAlias.delete({ where: { id: aliasId } });
+    } else {
+      await prisma.toolTagAlias.delete({ where: { id: aliasId } });
+    }
+
+    revalidateTaxonomy();
+
+    return { success: true };
+  } catch (error) {
+    console.error("Remove tag alias error:", error);
+    return { error: "Failed to remove alias" };
+  }
+}
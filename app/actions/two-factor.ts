@@ -0,0 +1,276 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { encrypt } from "@/lib/encryption";
+import { authRateLimiter } from "@/lib/rate-limit";
+import { buildTotpUri, generateTotpSecret } from "@/lib/totp";
+import {
+  generateRecoveryCodes,
+  isTwoFactorRequired,
+  verifySecondFactor,
+  verifyTotpForUser,
+} from "@/lib/two-factor";
+import bcrypt from "bcryptjs";
+import QRCode from "qrcode";
+import { z } from "zod";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Rate limit code attempts per user (shared with the sign-in second step)
+ */
+function checkCodeRateLimit(userId: string): { error: string } | { success: true } {
+  const result = authRateLimiter.check(`2fa:${userId}`);
+  if (!result.success) {
+    return {
+      error: `Too many attempts. Please try again in ${result.retryAfterSeconds} seconds.`,
+    };
+  }
+  return { success: true };
+}
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().optional(),
+  code: z.string().min(1, "Enter a code from your authenticator app or a recovery code"),
+});
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Get the current user's 2FA status
+ */
+export async function getTwoFactorStatus() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        role: true,
+        password: true,
+        totpEnabledAt: true,
+        _count: { select: { recoveryCodes: { where: { usedAt: null } } } },
+      },
+    });
+
+    if (!user) {
+      return { error: "User not found" };
+    }
+
+    return {
+      success: true,
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt,
+      required: isTwoFactorRequired(user.role),
+      hasPassword: !!user.password,
+      recoveryCodesRemaining: user._count.recoveryCodes,
+    };
+  } catch (error) {
+    console.error("Get 2FA status error:", error);
+    return { error: "Failed to load two-factor status" };
+  }
+}
+
+/**
+ * Start enrolment: generate a new secret and return it with a QR code.
+ * 2FA isn't active until the user confirms with a valid code.
+ */
+export async function beginTwoFactorEnrollment() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, totpEnabledAt: true },
+    });
+
+    if (!user) {
+      return { error: "User not found" };
+    }
+
+    if (user.totpEnabledAt) {
+      return { error: "Two-factor authentication is already enabled" };
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { totpSecret: encrypt(secret), totpLastUsedStep: null },
+    });
+
+    const qrCodeDataUrl = await QRCode.toDataURL(buildTotpUri(secret, user.email));
+
+    return { success: true, secret, qrCodeDataUrl };
+  } catch (error) {
+    console.error("Begin 2FA enrollment error:", error);
+    return { error: "Failed to start two-factor setup" };
+  }
+}
+
+/**
+ * Finish enrolment by verifying a code from the authenticator app.
+ *
+ * @returns Recovery codes - shown once
+ */
+export async function confirmTwoFactorEnrollment(code: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+    const userId = session.user.id;
+
+    const rateLimitResult = checkCodeRateLimit(userId);
+    if ("error" in rateLimitResult) {
+      return { error: rateLimitResult.error };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+
+    if (!user?.totpSecret) {
+      return { error: "Start two-factor setup first" };
+    }
+
+    if (user.totpEnabledAt) {
+      return { error: "Two-factor authentication is already enabled" };
+    }
+
+    if (!(await verifyTotpForUser(userId, code.replace(/\s/g, "")))) {
+      return { error: "Invalid code. Check your authenticator app and try again." };
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date() },
+    });
+
+    const recoveryCodes = await generateRecoveryCodes(userId);
+
+    revalidatePath("/me/account");
+
+    return { success: true, recoveryCodes };
+  } catch (error) {
+    console.error("Confirm 2FA enrollment error:", error);
+    return { error: "Failed to enable two-factor authentication" };
+  }
+}
+
+/**
+ * Replace the current user's recovery codes. Requires a current 2FA code.
+ */
+export async function regenerateRecoveryCodes(code: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+    const userId = session.user.id;
+
+    const rateLimitResult = checkCodeRateLimit(userId);
+    if ("error" in rateLimitResult) {
+      return { error: rateLimitResult.error };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpEnabledAt: true },
+    });
+
+    if (!user?.totpEnabledAt) {
+      return { error: "Two-factor authentication is not enabled" };
+    }
+
+    if (!(await verifySecondFactor(userId, code))) {
+      return { error: "Invalid code" };
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(userId);
+
+    revalidatePath("/me/account");
+
+    return { success: true, recoveryCodes };
+  } catch (error) {
+    console.error("Regenerate recovery codes error:", error);
+    return { error: "Failed to regenerate recovery codes" };
+  }
+}
+
+/**
+ * Turn off 2FA. Requires re-authentication: the account password (when set)
+ * and a current 2FA or recovery code.
+ * Admins and moderators can't disable 2FA.
+ */
+export async function disableTwoFactor(data: z.infer<typeof disableTwoFactorSchema>) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+    const userId = session.user.id;
+
+    const validated = disableTwoFactorSchema.parse(data);
+
+    const rateLimitResult = checkCodeRateLimit(userId);
+    if ("error" in rateLimitResult) {
+      return { error: rateLimitResult.error };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, password: true, totpEnabledAt: true },
+    });
+
+    if (!user?.totpEnabledAt) {
+      return { error: "Two-factor authentication is not enabled" };
+    }
+
+    if (isTwoFactorRequired(user.role)) {
+      return { error: "Two-factor authentication is required for admins and moderators" };
+    }
+
+    if (user.password) {
+      const isValid = await bcrypt.compare(validated.password ?? "", user.password);
+      if (!isValid) {
+        return { error: "Incorrect password" };
+      }
+    }
+
+    if (!(await verifySecondFactor(userId, validated.code))) {
+      return { error: "Invalid code" };
+    }
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+      prisma.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      }),
+    ]);
+
+    revalidatePath("/me/account");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Disable 2FA error:", error);
+    return { error: "Failed to disable two-factor authentication" };
+  }
+}
@@ -0,0 +1,276 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createNotification } from "@/lib/notifications";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Verify the caller is a moderator or admin with two-factor enabled
+ */
+async function verifyModerator(): Promise<{ error: string } | { moderatorId: string }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true, totpEnabledAt: true },
+  });
+
+  if (user?.role !== "ADMIN" && user?.role !== "MODERATOR") {
+    return { error: "Unauthorized - Admin access required" };
+  }
+
+  if (!user.totpEnabledAt) {
+    return { error: "Enable two-factor authentication to use moderation tools" };
+  }
+
+  return { moderatorId: session.user.id };
+}
+
+async function revalidateQualificationOwner(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { handle: true },
+  });
+  if (user?.handle) {
+    revalidatePath(`/u/${user.handle}`);
+  }
+  revalidatePath("/me/settings");
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const requestVerificationSchema = z
+  .object({
+    qualificationId: z.string(),
+    evidenceUrl: z.string().trim().url("Enter a valid credential URL").optional(),
+    evidenceFileUrl: z.string().url().optional(),
+  })
+  .refine((data) => data.evidenceUrl || data.evidenceFileUrl, {
+    message: "Attach a certificate or a credential URL",
+  });
+
+const reviewSchema = z.object({
+  qualificationId: z.string(),
+  decision: z.enum(["VERIFIED", "REJECTED"]),
+  note: z.string().trim().max(500, "Note must be 500 characters or less").optional(),
+});
+
+// =============================================================================
+// Member Actions
+// =============================================================================
+
+/**
+ * Ask moderators to verify one of your qualifications.
+ *
+ * Evidence is either a credential URL or a certificate uploaded through the
+ * qualificationEvidenceUploader route.
+ */
+export async function requestQualificationVerification(
+  data: z.infer<typeof requestVerificationSchema>
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const validated = requestVerificationSchema.parse(data);
+
+    const qualification = await prisma.qualification.findFirst({
+      where: { id: validated.qualificationId, userId: session.user.id },
+      select: { id: true, verificationStatus: true },
+    });
+
+    if (!qualification) {
+      return { error: "Qualification not found" };
+    }
+
+    if (qualification.verificationStatus === "PENDING") {
+      return { error: "Verification has already been requested" };
+    }
+
+    if (qualification.verificationStatus === "VERIFIED") {
+      return { error: "This qualification is already verified" };
+    }
+
+    // Only accept certificates this member uploaded themselves
+    if (validated.evidenceFileUrl) {
+      const upload = await prisma.uploadedFile.findFirst({
+        where: {
+          userId: session.user.id,
+          url: validated.evidenceFileUrl,
+          kind: "qualification_evidence",
+        },
+        select: { id: true },
+      });
+
+      if (!upload) {
+        return { error: "Certificate upload not found" };
+      }
+    }
+
+    await prisma.qualification.update({
+      where: { id: qualification.id },
+      data: {
+        verificationStatus: "PENDING",
+        evidenceUrl: validated.evidenceUrl || null,
+        evidenceFileUrl: validated.evidenceFileUrl || null,
+        verificationRequestedAt: new Date(),
+        reviewedAt: null,
+        reviewedBy: null,
+        reviewNote: null,
+      },
+    });
+
+    revalidatePath("/me/settings");
+    revalidatePath("/app/admin/verifications");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Request verification error:", error);
+    return { error: "Failed to request verification" };
+  }
+}
+
+// =============================================================================
+// Moderator Actions
+// =============================================================================
+
+interface GetVerificationQueueFilters {
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * List qualifications waiting for review, oldest request first.
+ */
+export async function getVerificationQueue(filters: GetVerificationQueueFilters = {}) {
+  try {
+    const moderator = await verifyModerator();
+    if ("error" in moderator) {
+      return { error: moderator.error };
+    }
+
+    const { cursor, limit = 50 } = filters;
+
+    const qualifications = await prisma.qualification.findMany({
+      where: { verificationStatus: "PENDING" },
+      orderBy: [{ verificationRequestedAt: "asc" }, { id: "asc" }],
+      take: limit,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: {
+        id: true,
+        title: true,
+        institution: true,
+        year: true,
+        description: true,
+        evidenceUrl: true,
+        evidenceFileUrl: true,
+        verificationRequestedAt: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            handle: true,
+            avatar: true,
+          },
+        },
+      },
+    });
+
+    const nextCursor =
+      qualifications.length === limit ? qualifications[qualifications.length - 1].id : null;
+
+    return {
+      success: true,
+      qualifications,
+      nextCursor,
+      hasMore: qualifications.length === limit,
+    };
+  } catch (error) {
+    console.error("Get verification queue error:", error);
+    return { error: "Failed to load verification queue" };
+  }
+}
+
+/**
+ * Approve or reject a verification request and notify the member.
+ */
+export async function reviewQualification(data: z.infer<typeof reviewSchema>) {
+  try {
+    const moderator = await verifyModerator();
+    if ("error" in moderator) {
+      return { error: moderator.error };
+    }
+
+    const validated = reviewSchema.parse(data);
+
+    if (validated.decision === "REJECTED" && !validated.note) {
+      return { error: "Add a note explaining why the request was rejected" };
+    }
+
+    const qualification = await prisma.qualification.findUnique({
+      where: { id: validated.qualificationId },
+      select: { id: true, userId: true, title: true, verificationStatus: true },
+    });
+
+    if (!qualification || qualification.verificationStatus !== "PENDING") {
+      return { error: "This request has already been reviewed" };
+    }
+
+    if (qualification.userId === moderator.moderatorId) {
+      return { error: "You can't review your own qualification" };
+    }
+
+    // Conditional, so two moderators reviewing at once can't both decide
+    const { count } = await prisma.qualification.updateMany({
+      where: { id: qualification.id, verificationStatus: "PENDING" },
+      data: {
+        verificationStatus: validated.decision,
+        reviewedAt: new Date(),
+        reviewedBy: moderator.moderatorId,
+        reviewNote: validated.note || null,
+      },
+    });
+
+    if (count === 0) {
+      return { error: "This request has already been reviewed" };
+    }
+
+    await createNotification({
+      userId: qualification.userId,
+      type: "SYSTEM",
+      entityType: "qualification",
+      entityId: qualification.id,
+      message:
+        validated.decision === "VERIFIED"
+          ? `Your qualification "${qualification.title}" has been verified`
+          : `Your qualification "${qualification.title}" couldn't be verified: ${validated.note}`,
+    });
+
+    await revalidateQualificationOwner(qualification.userId);
+    revalidatePath("/app/admin/verifications");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Review qualification error:", error);
+    return { error: "Failed to review qualification" };
+  }
+}
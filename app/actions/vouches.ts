@@ -0,0 +1,284 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { vouchRateLimiter } from "@/lib/rate-limit";
+import { createNotification, getActorName } from "@/lib/notifications";
+import { withVisibleAvatar } from "@/lib/avatars";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Verify user is authenticated and ACTIVE
+ */
+async function verifyActiveUser(): Promise<{ error: string } | { userId: string }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, status: true },
+  });
+
+  if (!user) {
+    return { error: "User not found" };
+  }
+
+  if (user.status !== "ACTIVE") {
+    return { error: "Your account must be active to vouch for members" };
+  }
+
+  return { userId: user.id };
+}
+
+/**
+ * Check rate limit for vouch operations
+ */
+function checkVouchRateLimit(userId: string): { error: string } | { success: true } {
+  const result = vouchRateLimiter.check(`vouch:${userId}`);
+  if (!result.success) {
+    return {
+      error: `Rate limit exceeded. Try again in ${result.retryAfterSeconds} seconds.`,
+    };
+  }
+  return { success: true };
+}
+
+async function revalidateCandidateProfile(candidateId: string) {
+  const candidate = await prisma.user.findUnique({
+    where: { id: candidateId },
+    select: { handle: true },
+  });
+  if (candidate?.handle) {
+    revalidatePath(`/u/${candidate.handle}`);
+  }
+}
+
+const voucherSelect = {
+  id: true,
+  name: true,
+  handle: true,
+  avatar: true,
+  avatarVisibility: true,
+  roleTitle: true,
+} as const;
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const vouchSchema = z.object({
+  candidateId: z.string(),
+  message: z.string().trim().max(500, "Message must be 500 characters or less").optional(),
+});
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Vouch for another member, optionally with a short message.
+ */
+export async function vouchForUser(data: z.infer<typeof vouchSchema>) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+    const { userId } = authResult;
+
+    const rateLimitResult = checkVouchRateLimit(userId);
+    if ("error" in rateLimitResult) {
+      return { error: rateLimitResult.error };
+    }
+
+    const validated = vouchSchema.parse(data);
+
+    if (validated.candidateId === userId) {
+      return { error: "You cannot vouch for yourself" };
+    }
+
+    const candidate = await prisma.user.findUnique({
+      where: { id: validated.candidateId },
+      select: { status: true },
+    });
+
+    if (!candidate || candidate.status !== "ACTIVE") {
+      return { error: "User not found" };
+    }
+
+    const existing = await prisma.vouch.findUnique({
+      where: {
+        candidateId_voucherId: {
+          candidateId: validated.candidateId,
+          voucherId: userId,
+        },
+      },
+    });
+
+    if (existing) {
+      return { error: "You have already vouched for this member" };
+    }
+
+    const vouch = await prisma.vouch.create({
+      data: {
+        candidateId: validated.candidateId,
+        voucherId: userId,
+        message: validated.message || null,
+      },
+      include: { voucher: { select: voucherSelect } },
+    });
+
+    await createNotification({
+      userId: validated.candidateId,
+      type: "VOUCH",
+      actorId: userId,
+      entityType: "vouch",
+      entityId: vouch.id,
+      message: `${await getActorName(userId)} vouched for you`,
+    });
+
+    await revalidateCandidateProfile(validated.candidateId);
+
+    return {
+      success: true,
+      vouch: { ...vouch, voucher: withVisibleAvatar(vouch.voucher, userId) },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Vouch error:", error);
+    return { error: "Failed to vouch for user" };
+  }
+}
+
+/**
+ * Edit the message on a vouch the current user has given.
+ */
+export async function updateVouch(data: z.infer<typeof vouchSchema>) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+    const { userId } = authResult;
+
+    const rateLimitResult = checkVouchRateLimit(userId);
+    if ("error" in rateLimitResult) {
+      return { error: rateLimitResult.error };
+    }
+
+    const validated = vouchSchema.parse(data);
+
+    const result = await prisma.vouch.updateMany({
+      where: { candidateId: validated.candidateId, voucherId: userId },
+      data: { message: validated.message || null },
+    });
+
+    if (result.count === 0) {
+      return { error: "Vouch not found" };
+    }
+
+    await revalidateCandidateProfile(validated.candidateId);
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.issues[0].message };
+    }
+    console.error("Update vouch error:", error);
+    return { error: "Failed to update vouch" };
+  }
+}
+
+/**
+ * Withdraw a vouch the current user has given.
+ */
+export async function withdrawVouch(candidateId: string) {
+  try {
+    const authResult = await verifyActiveUser();
+    if ("error" in authResult) {
+      return { error: authResult.error };
+    }
+
+    const result = await prisma.vouch.deleteMany({
+      where: { candidateId, voucherId: authResult.userId },
+    });
+
+    if (result.count === 0) {
+      return { error: "Vouch not found" };
+    }
+
+    await revalidateCandidateProfile(candidateId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Withdraw vouch error:", error);
+    return { error: "Failed to withdraw vouch" };
+  }
+}
+
+/**
+ * List vouches a member has received from active members.
+ */
+export async function getVouchesReceived(userId: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const vouches = await prisma.vouch.findMany({
+      where: { candidateId: userId, voucher: { status: "ACTIVE" } },
+      orderBy: { createdAt: "desc" },
+      include: { voucher: { select: voucherSelect } },
+    });
+
+    return {
+      success: true,
+      vouches: vouches.map(({ voucher, ...vouch }) => ({
+        ...vouch,
+        voucher: withVisibleAvatar(voucher, session.user.id),
+      })),
+    };
+  } catch (error) {
+    console.error("Get vouches received error:", error);
+    return { error: "Failed to load vouches" };
+  }
+}
+
+/**
+ * List vouches the current user has given.
+ */
+export async function getVouchesGiven() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { error: "Unauthorized" };
+    }
+
+    const vouches = await prisma.vouch.findMany({
+      where: { voucherId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      include: { candidate: { select: voucherSelect } },
+    });
+
+    return {
+      success: true,
+      vouches: vouches.map(({ candidate, ...vouch }) => ({
+        ...vouch,
+        candidate: withVisibleAvatar(candidate, session.user.id),
+      })),
+    };
+  } catch (error) {
+    console.error("Get vouches given error:", error);
+    return { error: "Failed to load vouches" };
+  }
+}
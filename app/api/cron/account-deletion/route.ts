@@ -0,0 +1,27 @@
+import { purgeDueAccounts } from "@/lib/account-deletion";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Permanently delete accounts whose deletion grace period has ended.
+ *
+ * Call daily from a scheduler with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeDueAccounts();
+    console.log(`[Cron] Account deletion: ${result.purged} purged, ${result.failed} failed`);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Account deletion cron error:", error);
+    return NextResponse.json({ error: "Failed to purge accounts" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { purgeExpiredDataExports } from "@/lib/data-export";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Delete personal data archives past their retention window.
+ *
+ * Call daily from a scheduler with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeExpiredDataExports();
+    console.log(`[Cron] Data exports: ${purged} expired archives purged`);
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error("Data export cron error:", error);
+    return NextResponse.json({ error: "Failed to purge data exports" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { sendNotificationDigests } from "@/lib/notifications";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Send daily notification digests.
+ *
+ * Call once a day from a scheduler with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sendNotificationDigests();
+    console.log(`[Cron] Notification digests: ${result.sent} sent, ${result.failed} failed`);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Notification digest cron error:", error);
+    return NextResponse.json({ error: "Failed to send digests" }, { status: 500 });
+  }
+}
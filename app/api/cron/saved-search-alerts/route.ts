@@ -0,0 +1,30 @@
+import { sendSavedSearchAlerts } from "@/lib/saved-searches";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Alert members about new matches for their saved searches.
+ *
+ * Call once a day from a scheduler with `Authorization: Bearer $CRON_SECRET`,
+ * before the notification digest so new matches make that day's digest.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sendSavedSearchAlerts();
+    console.log(
+      `[Cron] Saved search alerts: ${result.checked} checked, ${result.alerted} alerted, ${result.failed} failed`
+    );
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Saved search alerts cron error:", error);
+    return NextResponse.json({ error: "Failed to send saved search alerts" }, { status: 500 });
+  }
+}
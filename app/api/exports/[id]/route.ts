@@ -0,0 +1,45 @@
+import { readDataExport } from "@/lib/data-export";
+import { NextResponse } from "next/server";
+import { format } from "date-fns";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Download a personal data export.
+ *
+ * Authorized by the signed `token` query parameter rather than the session,
+ * so links from notification emails work directly.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const token = new URL(request.url).searchParams.get("token");
+
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  try {
+    const result = await readDataExport(id, token);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "This download link is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    const filename = `inspire-lab-export-${format(result.completedAt, "yyyy-MM-dd")}.json`;
+
+    return new Response(new Uint8Array(result.json), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Data export download error:", error);
+    return NextResponse.json({ error: "Failed to download export" }, { status: 500 });
+  }
+}
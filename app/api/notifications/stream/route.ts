@@ -0,0 +1,84 @@
+import { auth } from "@/lib/auth";
+import { getNotificationPublisher, type NotificationEvent } from "@/lib/notifications";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Keep-alive interval; proxies commonly drop idle connections after 30-60s */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/**
+ * Server-Sent Events stream of the signed-in user's notification events.
+ *
+ * Events:
+ * - notification: a new notification was created
+ * - read: notifications were marked read (ids null = all)
+ */
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = session.user.id;
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      const unsubscribe = getNotificationPublisher().subscribe(
+        userId,
+        (event: NotificationEvent) => {
+          if (event.type === "created") {
+            send(`event: notification\ndata: ${JSON.stringify(event.notification)}\n\n`);
+          } else {
+            send(`event: read\ndata: ${JSON.stringify({ ids: event.ids })}\n\n`);
+          }
+        }
+      );
+
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = undefined;
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      // Tell the browser how long to wait before reconnecting
+      send("retry: 5000\n\n");
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
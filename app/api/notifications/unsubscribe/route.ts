@@ -0,0 +1,37 @@
+import { unsubscribeFromEmails, verifyUnsubscribeToken } from "@/lib/notifications";
+import { NextResponse } from "next/server";
+
+/**
+ * One-click unsubscribe (RFC 8058).
+ *
+ * Mail clients POST "List-Unsubscribe=One-Click" here directly; the
+ * /unsubscribe page's confirmation form posts here too and is redirected back.
+ * Unsubscribing stops emails only - notifications still appear in-app.
+ */
+export async function POST(request: Request) {
+  const url = new URL(request.url);
+  const formData = await request.formData().catch(() => null);
+  const token = url.searchParams.get("token") ?? formData?.get("token")?.toString();
+
+  const payload = token ? verifyUnsubscribeToken(token) : null;
+  if (!payload) {
+    return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 400 });
+  }
+
+  try {
+    await unsubscribeFromEmails(payload.userId, payload.types);
+  } catch (error) {
+    console.error("Unsubscribe error:", error);
+    return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+  }
+
+  // Mail client one-click request
+  if (formData?.get("List-Unsubscribe") === "One-Click") {
+    return NextResponse.json({ success: true });
+  }
+
+  const redirectUrl = new URL("/unsubscribe", request.url);
+  redirectUrl.searchParams.set("token", token!);
+  redirectUrl.searchParams.set("done", "1");
+  return NextResponse.redirect(redirectUrl, 303);
+}
@@ -0,0 +1,46 @@
+import { auth } from "@/lib/auth";
+import { getUserProfile } from "@/app/actions/profile";
+import { toJsonResume } from "@/lib/json-resume";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Download a profile as a JSON Resume document.
+ *
+ * Built from getUserProfile, so projects and qualifications the viewer can't
+ * see are left out.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ handle: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { handle } = await params;
+
+  try {
+    const result = await getUserProfile(handle, session.user.id);
+
+    if (result.error || !result.user) {
+      return NextResponse.json({ error: result.error || "User not found" }, { status: 404 });
+    }
+
+    const resume = toJsonResume(result.user, {
+      includeEmail: result.isOwner,
+      profileUrl: new URL(`/u/${handle}`, request.url).toString(),
+    });
+
+    return new Response(JSON.stringify(resume, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${handle}-resume.json"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Resume export error:", error);
+    return NextResponse.json({ error: "Failed to export résumé" }, { status: 500 });
+  }
+}
@@ -1,8 +1,22 @@
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
 
 const f = createUploadthing();
 
+/**
+ * Remember who uploaded a file so it can be removed when their account is deleted
+ */
+async function recordUpload(userId: string, file: { key: string; url: string }, kind: string) {
+  try {
+    await prisma.uploadedFile.create({
+      data: { userId, key: file.key, url: file.url, kind },
+    });
+  } catch (error) {
+    console.error("[UploadThing] Failed to record upload:", error);
+  }
+}
+
 export const ourFileRouter = {
   avatarUploader: f({ image: { maxFileSize: "4MB", maxFileCount: 1 } })
     .middleware(async () => {
@@ -11,6 +25,7 @@ export const ourFileRouter = {
       return { userId: session.user.id };
     })
     .onUploadComplete(async ({ metadata, file }) => {
+      await recordUpload(metadata.userId, file, "avatar");
       return { uploadedBy: metadata.userId, url: file.url };
     }),
 
@@ -21,6 +36,22 @@ export const ourFileRouter = {
       return { userId: session.user.id };
     })
     .onUploadComplete(async ({ metadata, file }) => {
+      await recordUpload(metadata.userId, file, "project_image");
+      return { uploadedBy: metadata.userId, url: file.url };
+    }),
+
+  // Certificates attached to qualification verification requests
+  qualificationEvidenceUploader: f({
+    image: { maxFileSize: "8MB", maxFileCount: 1 },
+    pdf: { maxFileSize: "8MB", maxFileCount: 1 },
+  })
+    .middleware(async () => {
+      const session = await auth();
+      if (!session?.user) throw new Error("Unauthorized");
+      return { userId: session.user.id };
+    })
+    .onUploadComplete(async ({ metadata, file }) => {
+      await recordUpload(metadata.userId, file, "qualification_evidence");
       return { uploadedBy: metadata.userId, url: file.url };
     }),
 
@@ -35,6 +66,8 @@ export const ourFileRouter = {
       return { userId: session.user.id };
     })
     .onUploadComplete(async ({ metadata, file }) => {
+      await recordUpload(metadata.userId, file, "attachment");
+
       // Return only the URL - encryption keys are handled client-side
       // and transmitted via Matrix encrypted events
       return {
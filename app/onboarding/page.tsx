@@ -2,6 +2,7 @@ import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { OnboardingFormClient } from "@/components/onboarding-form-client";
+import { VerifyEmailBanner } from "@/components/verify-email-banner";
 
 export default async function OnboardingPage() {
   const session = await auth();
@@ -18,6 +19,7 @@ export default async function OnboardingPage() {
       email: true,
       handle: true,
       status: true,
+      emailVerified: true,
     },
   });
 
@@ -32,9 +34,11 @@ export default async function OnboardingPage() {
   // Load skill and tool tags
   const [skillTags, toolTags] = await Promise.all([
     prisma.skillTag.findMany({
+      where: { status: "APPROVED" },
       orderBy: [{ category: "asc" }, { name: "asc" }],
     }),
     prisma.toolTag.findMany({
+      where: { status: "APPROVED" },
       orderBy: [{ category: "asc" }, { name: "asc" }],
     }),
   ]);
@@ -49,6 +53,8 @@ export default async function OnboardingPage() {
           </p>
         </div>
 
+        {!user.emailVerified && <VerifyEmailBanner email={user.email} />}
+
         <OnboardingFormClient
           user={user}
           skillTags={skillTags}
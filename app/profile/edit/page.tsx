@@ -1,6 +1,7 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
+import { withVisibleAvatar } from "@/lib/avatars";
 import { ProfileEditForm } from "@/components/profile-edit-form";
 
 async function getCurrentUserProfile() {
@@ -13,14 +14,48 @@ async function getCurrentUserProfile() {
     where: { id: session.user.id },
     include: {
       links: { orderBy: { order: "asc" } },
-      userSkills: { include: { skillTag: true }, orderBy: { createdAt: "desc" } },
+      userSkills: {
+        include: {
+          skillTag: true,
+          endorsements: {
+            where: { endorser: { status: "ACTIVE" } },
+            orderBy: { createdAt: "desc" },
+            take: 5,
+            select: {
+              endorser: {
+                select: {
+                  id: true,
+                  name: true,
+                  handle: true,
+                  avatar: true,
+                  avatarVisibility: true,
+                },
+              },
+            },
+          },
+          _count: { select: { endorsements: { where: { endorser: { status: "ACTIVE" } } } } },
+        },
+        orderBy: { createdAt: "desc" },
+      },
       userTools: { include: { toolTag: true }, orderBy: { createdAt: "desc" } },
       projects: { orderBy: { createdAt: "desc" } },
       qualifications: { orderBy: { order: "asc" } },
     },
   });
 
-  return user;
+  if (!user) {
+    return null;
+  }
+
+  // Only public endorser avatars are shown
+  return {
+    ...user,
+    userSkills: user.userSkills.map(({ endorsements, _count, ...userSkill }) => ({
+      ...userSkill,
+      endorsementCount: _count.endorsements,
+      endorsers: endorsements.map(({ endorser }) => withVisibleAvatar(endorser, session.user.id)),
+    })),
+  };
 }
 
 export default async function EditProfilePage() {
@@ -0,0 +1,72 @@
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { NOTIFICATION_TYPE_LABELS, verifyUnsubscribeToken } from "@/lib/notifications";
+
+export const metadata = {
+  title: "Unsubscribe - INSPIRE-LAB",
+  description: "Stop notification emails",
+};
+
+interface Props {
+  searchParams: Promise<{
+    token?: string;
+    done?: string;
+  }>;
+}
+
+export default async function UnsubscribePage({ searchParams }: Props) {
+  const { token, done } = await searchParams;
+  const payload = token ? verifyUnsubscribeToken(token) : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        {!payload ? (
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">Invalid Link</CardTitle>
+            <CardDescription>
+              This unsubscribe link is invalid. You can manage email preferences in your{" "}
+              <Link href="/me/settings" className="underline">
+                settings
+              </Link>
+              .
+            </CardDescription>
+          </CardHeader>
+        ) : done ? (
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">You&apos;re Unsubscribed</CardTitle>
+            <CardDescription>
+              You won&apos;t get these emails anymore. Notifications will still appear in the app,
+              and you can change this any time in your{" "}
+              <Link href="/me/settings" className="underline">
+                settings
+              </Link>
+              .
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl">Unsubscribe</CardTitle>
+              <CardDescription>Stop receiving emails about:</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="text-sm list-disc pl-6">
+                {payload.types.map((type) => (
+                  <li key={type}>{NOTIFICATION_TYPE_LABELS[type]}</li>
+                ))}
+              </ul>
+              <form action="/api/notifications/unsubscribe" method="POST">
+                <input type="hidden" name="token" value={token} />
+                <Button type="submit" className="w-full">
+                  Unsubscribe
+                </Button>
+              </form>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
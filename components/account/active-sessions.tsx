@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { signOut } from "next-auth/react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, LogOut, Monitor } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { revokeAllSessions, revokeOtherSessions, revokeSession } from "@/app/actions/sessions";
+
+interface ActiveSession {
+  id: string;
+  device: string;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+interface ActiveSessionsProps {
+  sessions: ActiveSession[];
+}
+
+export function ActiveSessions({ sessions }: ActiveSessionsProps) {
+  const router = useRouter();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const otherSessions = sessions.filter((session) => !session.current).length;
+
+  const handleRevoke = async (sessionId: string) => {
+    setPendingId(sessionId);
+    setError(null);
+
+    const result = await revokeSession(sessionId);
+
+    if (result.error) {
+      setError(result.error);
+    }
+    setPendingId(null);
+    router.refresh();
+  };
+
+  const handleRevokeOthers = async () => {
+    setPendingId("others");
+    setError(null);
+
+    const result = await revokeOtherSessions();
+
+    if (result.error) {
+      setError(result.error);
+    }
+    setPendingId(null);
+    router.refresh();
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm("Sign out of INSPIRE-LAB on every device, including this one?")) return;
+    setPendingId("all");
+    setError(null);
+
+    const result = await revokeAllSessions();
+
+    if (result.error) {
+      setError(result.error);
+      setPendingId(null);
+      return;
+    }
+
+    await signOut({ callbackUrl: "/sign-in" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          Active sessions
+        </CardTitle>
+        <CardDescription>
+          Devices currently signed in to your account. Sign out any you don&apos;t recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sessions.map((session) => (
+          <div key={session.id} className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="font-medium truncate">{session.device}</p>
+                {session.current && <Badge variant="outline">This device</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {session.ip || "Unknown IP"} · Active{" "}
+                {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })} · Signed in{" "}
+                {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+            {!session.current && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRevoke(session.id)}
+                disabled={pendingId !== null}
+                title="Sign out this session"
+              >
+                {pendingId === session.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <LogOut className="h-4 w-4" />
+                )}
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex gap-2 pt-2">
+          <Button
+            variant="outline"
+            onClick={handleRevokeOthers}
+            disabled={pendingId !== null || otherSessions === 0}
+          >
+            {pendingId === "others" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Sign out other sessions"
+            )}
+          </Button>
+          <Button variant="destructive" onClick={handleRevokeAll} disabled={pendingId !== null}>
+            {pendingId === "all" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Sign out everywhere"
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, FileArchive, Loader2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { requestDataExport } from "@/app/actions/account";
+
+interface DataExport {
+  id: string;
+  status: "PENDING" | "PROCESSING" | "READY" | "FAILED";
+  sizeBytes: number | null;
+  createdAt: Date;
+  expiresAt: Date | null;
+  downloadUrl: string | null;
+}
+
+interface DataExportSettingsProps {
+  exports: DataExport[];
+}
+
+const STATUS_LABELS = {
+  PENDING: "Queued",
+  PROCESSING: "Generating",
+  READY: "Ready",
+  FAILED: "Failed",
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DataExportSettings({ exports }: DataExportSettingsProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRequest = async () => {
+    setIsLoading(true);
+    setMessage(null);
+
+    const result = await requestDataExport();
+
+    setMessage(
+      result.error || "We're preparing your archive. You'll get a notification when it's ready."
+    );
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileArchive className="h-5 w-5" />
+          Download your data
+        </CardTitle>
+        <CardDescription>
+          Get a JSON archive of your profile, connections, vouches, reports, notifications, invites,
+          project memberships and chat activity.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {exports.length > 0 && (
+          <div className="space-y-3">
+            {exports.map((dataExport) => (
+              <div key={dataExport.id} className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium">
+                      Requested {format(new Date(dataExport.createdAt), "MMM d, yyyy")}
+                    </p>
+                    <Badge variant={dataExport.status === "FAILED" ? "destructive" : "outline"}>
+                      {STATUS_LABELS[dataExport.status]}
+                    </Badge>
+                  </div>
+                  {dataExport.downloadUrl && dataExport.expiresAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {dataExport.sizeBytes !== null && `${formatSize(dataExport.sizeBytes)} · `}
+                      Expires{" "}
+                      {formatDistanceToNow(new Date(dataExport.expiresAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                {dataExport.downloadUrl && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={dataExport.downloadUrl}>
+                      <Download className="h-4 w-4 mr-1" />
+                      Download
+                    </a>
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+        <Button variant="outline" onClick={handleRequest} disabled={isLoading}>
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Request data export"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { signOut } from "next-auth/react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Loader2, Trash2 } from "lucide-react";
+import { requestAccountDeletion } from "@/app/actions/account";
+
+interface DeleteAccountProps {
+  hasPassword: boolean;
+  twoFactorEnabled: boolean;
+  graceDays: number;
+}
+
+export function DeleteAccount({ hasPassword, twoFactorEnabled, graceDays }: DeleteAccountProps) {
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await requestAccountDeletion({
+      password: password || undefined,
+      code: code || undefined,
+    });
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    // Every session was revoked; finish signing out this one
+    await signOut({ callbackUrl: "/sign-in" });
+  };
+
+  return (
+    <Card className="border-destructive">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Delete account
+        </CardTitle>
+        <CardDescription>
+          Your profile is hidden immediately and permanently deleted after {graceDays} days, along
+          with your chats, uploads and projects nobody else belongs to. Sign back in before then to
+          cancel.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button variant="destructive">Delete my account</Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Delete your account?</DialogTitle>
+              <DialogDescription>
+                Projects with other members are handed over to another member. Everything else is
+                deleted after {graceDays} days.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {hasPassword && (
+                <div className="space-y-2">
+                  <Label htmlFor="delete-password">Password</Label>
+                  <Input
+                    id="delete-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+              {twoFactorEnabled && (
+                <div className="space-y-2">
+                  <Label htmlFor="delete-code">Authentication or recovery code</Label>
+                  <Input
+                    id="delete-code"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setOpen(false)} disabled={isLoading}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleDelete}
+                disabled={isLoading || (hasPassword && !password) || (twoFactorEnabled && !code)}
+              >
+                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Delete account"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
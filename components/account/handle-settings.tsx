@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AtSign, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { changeHandle } from "@/app/actions/profile";
+
+interface HandleSettingsProps {
+  handle: string | null;
+  nextChangeAt: Date | null;
+  previousHandles: Array<{ handle: string; releasedAt: Date }>;
+  cooldownDays: number;
+}
+
+export function HandleSettings({
+  handle,
+  nextChangeAt,
+  previousHandles,
+  cooldownDays,
+}: HandleSettingsProps) {
+  const router = useRouter();
+  const [value, setValue] = useState(handle || "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unchanged = value.trim() === handle;
+
+  const handleSave = async () => {
+    if (
+      !confirm(
+        `Change your handle to @${value.trim()}? You won't be able to change it again for ${cooldownDays} days.`
+      )
+    ) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const result = await changeHandle(value);
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AtSign className="h-5 w-5" />
+          Handle
+        </CardTitle>
+        <CardDescription>
+          Your profile lives at /u/{handle}. Links to your old handles keep working.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="handle">New handle</Label>
+          <div className="flex gap-2">
+            <Input
+              id="handle"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              disabled={isLoading || nextChangeAt !== null}
+            />
+            <Button
+              onClick={handleSave}
+              disabled={isLoading || unchanged || !value.trim() || nextChangeAt !== null}
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Change"}
+            </Button>
+          </div>
+          {nextChangeAt && (
+            <p className="text-sm text-muted-foreground">
+              You can change your handle again on {format(new Date(nextChangeAt), "MMMM d, yyyy")}.
+            </p>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        {previousHandles.length > 0 && (
+          <div>
+            <p className="text-xs text-muted-foreground mb-2">Previous handles</p>
+            <div className="space-y-1">
+              {previousHandles.map((previous) => (
+                <p key={previous.handle} className="text-sm">
+                  @{previous.handle}{" "}
+                  <span className="text-muted-foreground">
+                    · released {format(new Date(previous.releasedAt), "MMM d, yyyy")}
+                  </span>
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,330 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Copy, Loader2, ShieldCheck } from "lucide-react";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from "@/app/actions/two-factor";
+
+interface TwoFactorSettingsProps {
+  enabled: boolean;
+  required: boolean;
+  hasPassword: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export function TwoFactorSettings({
+  enabled,
+  required,
+  hasPassword,
+  recoveryCodesRemaining,
+}: TwoFactorSettingsProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Enrolment state
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCodeDataUrl: string } | null>(
+    null
+  );
+  const [code, setCode] = useState("");
+
+  // Recovery codes are only shown once, right after they're generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Dialogs for actions that need a fresh code
+  const [dialog, setDialog] = useState<"regenerate" | "disable" | null>(null);
+  const [password, setPassword] = useState("");
+
+  const resetForm = () => {
+    setCode("");
+    setPassword("");
+    setError(null);
+  };
+
+  const handleBeginEnrollment = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await beginTwoFactorEnrollment();
+
+    if (result.error || !result.secret || !result.qrCodeDataUrl) {
+      setError(result.error || "Failed to start two-factor setup");
+    } else {
+      setEnrollment({ secret: result.secret, qrCodeDataUrl: result.qrCodeDataUrl });
+    }
+    setIsLoading(false);
+  };
+
+  const handleConfirmEnrollment = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await confirmTwoFactorEnrollment(code);
+
+    if (result.error || !result.recoveryCodes) {
+      setError(result.error || "Failed to enable two-factor authentication");
+      setIsLoading(false);
+      return;
+    }
+
+    setEnrollment(null);
+    setRecoveryCodes(result.recoveryCodes);
+    resetForm();
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  const handleRegenerate = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await regenerateRecoveryCodes(code);
+
+    if (result.error || !result.recoveryCodes) {
+      setError(result.error || "Failed to regenerate recovery codes");
+      setIsLoading(false);
+      return;
+    }
+
+    setDialog(null);
+    setRecoveryCodes(result.recoveryCodes);
+    resetForm();
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  const handleDisable = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await disableTwoFactor({ password: password || undefined, code });
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    setDialog(null);
+    setRecoveryCodes(null);
+    resetForm();
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-factor authentication
+          </CardTitle>
+          <Badge variant={enabled ? "default" : "outline"}>{enabled ? "On" : "Off"}</Badge>
+        </div>
+        <CardDescription>
+          Require a code from an authenticator app when you sign in with your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {required && !enabled && (
+          <div className="p-3 border border-destructive bg-destructive/10 text-destructive text-sm">
+            Admins and moderators must enable two-factor authentication before using moderation
+            tools.
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-3 p-4 border border-border bg-muted/40">
+            <p className="text-sm font-medium">Save your recovery codes</p>
+            <p className="text-sm text-muted-foreground">
+              Each code can be used once to sign in if you lose access to your authenticator app.
+              They won&apos;t be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                {copied ? "Copied" : "Copy codes"}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                I&apos;ve saved them
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!enabled && !enrollment && (
+          <Button onClick={handleBeginEnrollment} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Set up two-factor"}
+          </Button>
+        )}
+
+        {!enabled && enrollment && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img
+              src={enrollment.qrCodeDataUrl}
+              alt="Two-factor QR code"
+              className="h-48 w-48 border border-border"
+            />
+            <p className="text-xs text-muted-foreground">
+              Can&apos;t scan it? Enter this key instead:{" "}
+              <span className="font-mono break-all">{enrollment.secret}</span>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="totp-code">Authentication code</Label>
+              <Input
+                id="totp-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleConfirmEnrollment} disabled={isLoading || !code}>
+                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Verify and enable"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setEnrollment(null);
+                  resetForm();
+                }}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {enabled && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {recoveryCodesRemaining} unused recovery code
+              {recoveryCodesRemaining === 1 ? "" : "s"} remaining
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  resetForm();
+                  setDialog("regenerate");
+                }}
+              >
+                New recovery codes
+              </Button>
+              {!required && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    resetForm();
+                    setDialog("disable");
+                  }}
+                >
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && !dialog && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog === "disable" ? "Turn off two-factor" : "New recovery codes"}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog === "disable"
+                ? "Confirm it's you to turn off two-factor authentication."
+                : "Your existing recovery codes will stop working."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {dialog === "disable" && hasPassword && (
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="confirm-code">Authentication or recovery code</Label>
+              <Input
+                id="confirm-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button
+              variant={dialog === "disable" ? "destructive" : "default"}
+              onClick={dialog === "disable" ? handleDisable : handleRegenerate}
+              disabled={isLoading || !code || (dialog === "disable" && hasPassword && !password)}
+            >
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : dialog === "disable" ? (
+                "Turn off"
+              ) : (
+                "Generate codes"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Ban, ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { revokeUserInviteCodes, type InviteTreeNode } from "@/app/actions/admin";
+
+interface Inviter {
+  id: string;
+  name: string | null;
+  handle: string | null;
+  avatar: string | null;
+  status: string;
+  inviteeCount: number;
+  reportedInvitees: number;
+  suspendedInvitees: number;
+  flaggedRate: number;
+  activeCodes: number;
+}
+
+interface AdminInvitesViewProps {
+  tree: InviteTreeNode[];
+  redemptionsByWeek: Array<{ weekStart: Date; count: number }>;
+  inviters: Inviter[];
+  totals: {
+    members: number;
+    invited: number;
+    redemptionsInPeriod: number;
+  };
+}
+
+function countDescendants(node: InviteTreeNode): number {
+  return node.children.reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+function MemberLink({
+  member,
+}: {
+  member: { name: string | null; handle: string | null; avatar: string | null };
+}) {
+  return (
+    <Link href={`/u/${member.handle}`} className="flex items-center gap-2 hover:underline min-w-0">
+      <Avatar className="h-6 w-6 rounded-full">
+        <AvatarImage src={member.avatar || undefined} alt={member.name || "Avatar"} />
+        <AvatarFallback className="rounded-full text-xs">
+          {member.name?.[0]?.toUpperCase() || "?"}
+        </AvatarFallback>
+      </Avatar>
+      <span className="text-sm font-medium truncate">{member.name || "Unnamed"}</span>
+      {member.handle && (
+        <span className="text-xs text-muted-foreground truncate">@{member.handle}</span>
+      )}
+    </Link>
+  );
+}
+
+function TreeNode({ node, depth }: { node: InviteTreeNode; depth: number }) {
+  const [expanded, setExpanded] = useState(depth < 1);
+  const descendants = countDescendants(node);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 py-1" style={{ paddingLeft: depth * 20 }}>
+        {node.children.length > 0 ? (
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={expanded ? "Collapse" : "Expand"}
+          >
+            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </button>
+        ) : (
+          <span className="w-4" />
+        )}
+        <MemberLink member={node} />
+        {node.status !== "ACTIVE" && (
+          <Badge variant={node.status === "SUSPENDED" ? "destructive" : "outline"}>
+            {node.status}
+          </Badge>
+        )}
+        {node.reportsReceived > 0 && (
+          <Badge variant="outline">
+            {node.reportsReceived} report{node.reportsReceived === 1 ? "" : "s"}
+          </Badge>
+        )}
+        {descendants > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {descendants} downstream member{descendants === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+      {expanded &&
+        node.children.map((child) => <TreeNode key={child.id} node={child} depth={depth + 1} />)}
+    </div>
+  );
+}
+
+export function AdminInvitesView({
+  tree,
+  redemptionsByWeek,
+  inviters,
+  totals,
+}: AdminInvitesViewProps) {
+  const router = useRouter();
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const maxWeekly = Math.max(1, ...redemptionsByWeek.map((week) => week.count));
+
+  const handleRevoke = async (inviter: Inviter) => {
+    if (!confirm(`Revoke all invite codes created by ${inviter.name || "this member"}?`)) return;
+
+    setRevokingId(inviter.id);
+    const result = await revokeUserInviteCodes(inviter.id);
+    setRevokingId(null);
+
+    setMessage("error" in result ? result.error : result.message);
+    router.refresh();
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2">Invite Growth</h1>
+        <p className="text-muted-foreground">
+          {totals.members} members · {totals.invited} joined by invite
+        </p>
+      </div>
+
+      {/* Redemptions over time */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Redemptions per week</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {totals.redemptionsInPeriod} in the last {redemptionsByWeek.length} weeks
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-2 h-40">
+            {redemptionsByWeek.map((week) => (
+              <div
+                key={new Date(week.weekStart).toISOString()}
+                className="flex-1 flex flex-col items-center justify-end gap-1 h-full"
+                title={`Week of ${format(new Date(week.weekStart), "MMM d")}: ${week.count}`}
+              >
+                <span className="text-xs text-muted-foreground">{week.count || ""}</span>
+                <div
+                  className="w-full bg-primary rounded-t"
+                  style={{ height: `${(week.count / maxWeekly) * 100}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-2">
+            {redemptionsByWeek.map((week) => (
+              <span
+                key={new Date(week.weekStart).toISOString()}
+                className="flex-1 text-center text-[10px] text-muted-foreground"
+              >
+                {format(new Date(week.weekStart), "MMM d")}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Inviter quality */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Inviters</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Members ranked by how often the people they invited were reported or suspended
+          </p>
+        </CardHeader>
+        <CardContent>
+          {message && <p className="text-sm text-muted-foreground mb-4">{message}</p>}
+          {inviters.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No one has invited a member yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {inviters.map((inviter) => (
+                <div key={inviter.id} className="flex items-center justify-between gap-4">
+                  <MemberLink member={inviter} />
+                  <div className="flex items-center gap-4 shrink-0">
+                    <span className="text-sm text-muted-foreground">
+                      {inviter.inviteeCount} invited · {inviter.reportedInvitees} reported ·{" "}
+                      {inviter.suspendedInvitees} suspended
+                    </span>
+                    <Badge variant={inviter.flaggedRate >= 0.5 ? "destructive" : "outline"}>
+                      {Math.round(inviter.flaggedRate * 100)}% flagged
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(inviter)}
+                      disabled={revokingId !== null || inviter.activeCodes === 0}
+                      title="Revoke all codes from this member"
+                    >
+                      {revokingId === inviter.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <>
+                          <Ban className="h-4 w-4 mr-1" />
+                          Revoke codes ({inviter.activeCodes})
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Invite tree */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Invite tree</CardTitle>
+          <p className="text-sm text-muted-foreground">Who invited whom</p>
+        </CardHeader>
+        <CardContent>
+          {tree.map((node) => (
+            <TreeNode key={node.id} node={node} depth={0} />
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -40,7 +40,7 @@ interface Report {
     name: string | null;
     handle: string | null;
     avatar: string | null;
-  };
+  } | null;
   reported: {
     id: string;
     name: string | null;
@@ -179,17 +179,21 @@ export function AdminReportsView({ initialReports, nextCursor, hasMore }: AdminR
                 {/* Reporter */}
                 <div>
                   <p className="text-xs text-muted-foreground mb-2">Reported by</p>
-                  <Link href={`/u/${report.reporter.handle}`} className="flex items-center gap-2 hover:underline">
-                    <Avatar className="h-8 w-8">
-                      <AvatarFallback className="bg-neutral-900 text-white text-xs">
-                        {report.reporter.name?.charAt(0) || "?"}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <p className="text-sm font-medium">{report.reporter.name}</p>
-                      <p className="text-xs text-muted-foreground">@{report.reporter.handle}</p>
-                    </div>
-                  </Link>
+                  {report.reporter ? (
+                    <Link href={`/u/${report.reporter.handle}`} className="flex items-center gap-2 hover:underline">
+                      <Avatar className="h-8 w-8">
+                        <AvatarFallback className="bg-neutral-900 text-white text-xs">
+                          {report.reporter.name?.charAt(0) || "?"}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <p className="text-sm font-medium">{report.reporter.name}</p>
+                        <p className="text-xs text-muted-foreground">@{report.reporter.handle}</p>
+                      </div>
+                    </Link>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Deleted account</p>
+                  )}
                 </div>
 
                 {/* Reported User */}
@@ -0,0 +1,369 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { CheckCircle, GitMerge, Loader2, XCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  approveTagProposal,
+  mergeTagProposal,
+  rejectTagProposal,
+} from "@/app/actions/tag-proposals";
+
+interface Tag {
+  id: string;
+  name: string;
+  category: string | null;
+}
+
+interface TagProposal {
+  id: string;
+  kind: "skill" | "tool";
+  name: string;
+  category: string | null;
+  description: string | null;
+  proposedAt: Date | null;
+  usageCount: number;
+  proposedBy: {
+    id: string;
+    name: string | null;
+    handle: string | null;
+    avatar: string | null;
+  } | null;
+  similar: Array<{
+    id: string;
+    name: string;
+    status: "PENDING" | "APPROVED";
+    matchedAlias: string | null;
+    similarity: number;
+  }>;
+}
+
+type Decision = "approve" | "merge" | "reject";
+
+interface AdminTagProposalsViewProps {
+  proposals: TagProposal[];
+  skillTags: Tag[];
+  toolTags: Tag[];
+}
+
+export function AdminTagProposalsView({
+  proposals,
+  skillTags,
+  toolTags,
+}: AdminTagProposalsViewProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Review dialog state
+  const [selected, setSelected] = useState<TagProposal | null>(null);
+  const [decision, setDecision] = useState<Decision>("approve");
+  const [form, setForm] = useState({ name: "", category: "", description: "" });
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenReview = (proposal: TagProposal, type: Decision, targetId = "") => {
+    setSelected(proposal);
+    setDecision(type);
+    setForm({
+      name: proposal.name,
+      category: proposal.category || "",
+      description: proposal.description || "",
+    });
+    setMergeTargetId(targetId);
+    setNote("");
+    setError(null);
+  };
+
+  const handleSubmitReview = async () => {
+    if (!selected) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const result =
+      decision === "approve"
+        ? await approveTagProposal(selected.kind, selected.id, {
+            name: form.name,
+            category: form.category || undefined,
+            description: form.description || undefined,
+          })
+        : decision === "merge"
+          ? await mergeTagProposal(selected.kind, selected.id, mergeTargetId)
+          : await rejectTagProposal(selected.kind, selected.id, note || undefined);
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(false);
+    setSelected(null);
+    router.refresh();
+  };
+
+  const mergeTargets = selected?.kind === "tool" ? toolTags : skillTags;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-white mb-2">Tag Proposals</h1>
+        <p className="text-gray-400">Review skills and tools proposed by members</p>
+      </div>
+
+      {proposals.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No pending tag proposals
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {proposals.map((proposal) => (
+            <Card key={proposal.id} className="bg-black border-neutral-800">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  {proposal.name}
+                  <Badge variant="outline">{proposal.kind === "skill" ? "Skill" : "Tool"}</Badge>
+                </CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {proposal.category || "Uncategorized"}
+                  {` · On ${proposal.usageCount} profile${proposal.usageCount === 1 ? "" : "s"}`}
+                  {proposal.proposedAt &&
+                    ` · Proposed ${formatDistanceToNow(new Date(proposal.proposedAt), {
+                      addSuffix: true,
+                    })}`}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {/* Proposer */}
+                {proposal.proposedBy && (
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-2">Proposed by</p>
+                    <Link
+                      href={`/u/${proposal.proposedBy.handle}`}
+                      className="flex items-center gap-2 hover:underline"
+                    >
+                      <Avatar className="h-8 w-8">
+                        <AvatarFallback className="bg-neutral-900 text-white text-xs">
+                          {proposal.proposedBy.name?.charAt(0) || "?"}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <p className="text-sm font-medium">{proposal.proposedBy.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          @{proposal.proposedBy.handle}
+                        </p>
+                      </div>
+                    </Link>
+                  </div>
+                )}
+
+                {proposal.description && (
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Description</p>
+                    <p className="text-sm bg-neutral-900 p-3 rounded">{proposal.description}</p>
+                  </div>
+                )}
+
+                {/* Possible duplicates */}
+                {proposal.similar.length > 0 && (
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-2">Possible duplicates</p>
+                    <div className="flex flex-wrap gap-2">
+                      {proposal.similar.map((tag) => (
+                        <Button
+                          key={tag.id}
+                          size="sm"
+                          variant="outline"
+                          disabled={tag.status !== "APPROVED"}
+                          onClick={() => handleOpenReview(proposal, "merge", tag.id)}
+                          title={
+                            tag.status === "APPROVED"
+                              ? `Merge into ${tag.name}`
+                              : "Also awaiting review"
+                          }
+                        >
+                          {tag.name}
+                          {tag.matchedAlias && ` (alias ${tag.matchedAlias})`}
+                          <span className="text-xs text-muted-foreground ml-1">
+                            {Math.round(tag.similarity * 100)}%
+                          </span>
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Actions */}
+                <div className="flex gap-2 pt-2">
+                  <Button size="sm" onClick={() => handleOpenReview(proposal, "approve")}>
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleOpenReview(proposal, "merge")}
+                  >
+                    <GitMerge className="h-4 w-4 mr-1" />
+                    Merge
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleOpenReview(proposal, "reject")}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Review Dialog */}
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision === "approve"
+                ? "Approve Proposal"
+                : decision === "merge"
+                  ? "Merge Proposal"
+                  : "Reject Proposal"}
+            </DialogTitle>
+            <DialogDescription>
+              {decision === "approve" &&
+                "Correct the name or category if needed. The tag becomes available to everyone."}
+              {decision === "merge" &&
+                `Members who added "${selected?.name}" get the tag you choose instead, and "${selected?.name}" becomes an alias of it.`}
+              {decision === "reject" &&
+                "The tag is removed from every profile that has it. Members are notified and shown your note."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {decision === "approve" && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="proposal-name">Name *</Label>
+                <Input
+                  id="proposal-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proposal-category">Category</Label>
+                <Input
+                  id="proposal-category"
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proposal-description">Description</Label>
+                <Textarea
+                  id="proposal-description"
+                  rows={2}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          )}
+
+          {decision === "merge" && (
+            <div className="space-y-2">
+              <Label>Merge into *</Label>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  {mergeTargets.map((tag) => (
+                    <SelectItem key={tag.id} value={tag.id}>
+                      {tag.name}
+                      {tag.category ? ` (${tag.category})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          )}
+
+          {decision === "reject" && (
+            <div className="space-y-2">
+              <Label>Note (Optional)</Label>
+              <Textarea
+                placeholder="Explain why this tag wasn't approved..."
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                maxLength={500}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmitReview}
+              disabled={
+                isLoading ||
+                (decision === "approve" && !form.name.trim()) ||
+                (decision === "merge" && !mergeTargetId)
+              }
+              variant={decision === "reject" ? "destructive" : "default"}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Processing...
+                </>
+              ) : decision === "approve" ? (
+                "Approve"
+              ) : decision === "merge" ? (
+                "Merge"
+              ) : (
+                "Reject"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Edit, GitMerge, Loader2, Plus, Trash2, X } from "lucide-react";
+import {
+  addTagAlias,
+  createTag,
+  deleteTag,
+  mergeTags,
+  removeTagAlias,
+  updateTag,
+} from "@/app/actions/taxonomy";
+
+type TagKind = "skill" | "tool";
+
+interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+  category: string | null;
+  description: string | null;
+  usageCount: number;
+  aliases: Array<{ id: string; name: string }>;
+}
+
+interface AdminTaxonomyViewProps {
+  skillTags: Tag[];
+  toolTags: Tag[];
+}
+
+export function AdminTaxonomyView({ skillTags, toolTags }: AdminTaxonomyViewProps) {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-white mb-2">Taxonomy</h1>
+        <p className="text-gray-400">Create, rename, merge and alias skill and tool tags</p>
+      </div>
+
+      <Tabs defaultValue="skill" className="w-full">
+        <TabsList>
+          <TabsTrigger value="skill">Skills ({skillTags.length})</TabsTrigger>
+          <TabsTrigger value="tool">Tools ({toolTags.length})</TabsTrigger>
+        </TabsList>
+        <TabsContent value="skill">
+          <TagList kind="skill" tags={skillTags} />
+        </TabsContent>
+        <TabsContent value="tool">
+          <TagList kind="tool" tags={toolTags} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function TagList({ kind, tags }: { kind: TagKind; tags: Tag[] }) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+
+  // Create/edit dialog
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [editingTag, setEditingTag] = useState<Tag | null>(null);
+  const [form, setForm] = useState({ name: "", category: "", description: "" });
+
+  // Merge dialog
+  const [mergingTag, setMergingTag] = useState<Tag | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+
+  // Alias input per tag
+  const [aliasInputs, setAliasInputs] = useState<Record<string, string>>({});
+
+  const categories = [...new Set(tags.map((tag) => tag.category).filter(Boolean))] as string[];
+
+  const query = filter.trim().toLowerCase();
+  const filteredTags = query
+    ? tags.filter(
+        (tag) =>
+          tag.name.toLowerCase().includes(query) ||
+          tag.aliases.some((alias) => alias.name.toLowerCase().includes(query))
+      )
+    : tags;
+
+  const groupedTags = filteredTags.reduce(
+    (acc, tag) => {
+      const category = tag.category || "Uncategorized";
+      if (!acc[category]) acc[category] = [];
+      acc[category].push(tag);
+      return acc;
+    },
+    {} as Record<string, Tag[]>
+  );
+
+  const runAction = async (action: () => Promise<{ error?: string }>): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await action();
+
+    setIsLoading(false);
+    if (result.error) {
+      setError(result.error);
+      return false;
+    }
+    router.refresh();
+    return true;
+  };
+
+  const handleOpenEdit = (tag?: Tag) => {
+    setEditingTag(tag ?? null);
+    setForm({
+      name: tag?.name ?? "",
+      category: tag?.category ?? "",
+      description: tag?.description ?? "",
+    });
+    setError(null);
+    setEditDialogOpen(true);
+  };
+
+  const handleSaveTag = async () => {
+    const data = {
+      name: form.name,
+      category: form.category || undefined,
+      description: form.description || undefined,
+    };
+    const saved = await runAction(() =>
+      editingTag ? updateTag(kind, editingTag.id, data) : createTag(kind, data)
+    );
+    if (saved) setEditDialogOpen(false);
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    const warning =
+      tag.usageCount > 0
+        ? `Delete "${tag.name}"? It will be removed from ${tag.usageCount} profile${tag.usageCount === 1 ? "" : "s"}. Consider merging it instead.`
+        : `Delete "${tag.name}"?`;
+    if (!confirm(warning)) return;
+    await runAction(() => deleteTag(kind, tag.id));
+  };
+
+  const handleMerge = async () => {
+    if (!mergingTag || !mergeTargetId) return;
+    const merged = await runAction(() => mergeTags(kind, mergingTag.id, mergeTargetId));
+    if (merged) {
+      setMergingTag(null);
+      setMergeTargetId("");
+    }
+  };
+
+  const handleAddAlias = async (tag: Tag) => {
+    const name = aliasInputs[tag.id]?.trim();
+    if (!name) return;
+    const added = await runAction(() => addTagAlias(kind, tag.id, name));
+    if (added) setAliasInputs((inputs) => ({ ...inputs, [tag.id]: "" }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Input
+          placeholder="Filter tags..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="max-w-sm"
+        />
+        <Button onClick={() => handleOpenEdit()}>
+          <Plus className="h-4 w-4 mr-2" />
+          New {kind} tag
+        </Button>
+      </div>
+
+      {error && !editDialogOpen && !mergingTag && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+
+      {Object.entries(groupedTags).map(([category, categoryTags]) => (
+        <Card key={category} className="bg-black border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-base">{category}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {categoryTags.map((tag) => (
+              <div
+                key={tag.id}
+                className="border-b border-neutral-800 pb-4 last:border-0 last:pb-0 space-y-2"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium">
+                      {tag.name}{" "}
+                      <span className="text-xs text-muted-foreground font-mono">{tag.slug}</span>
+                    </p>
+                    {tag.description && (
+                      <p className="text-sm text-muted-foreground">{tag.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Used by {tag.usageCount} member{tag.usageCount === 1 ? "" : "s"}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleOpenEdit(tag)}
+                      disabled={isLoading}
+                      title="Edit"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setMergingTag(tag);
+                        setMergeTargetId("");
+                        setError(null);
+                      }}
+                      disabled={isLoading}
+                      title="Merge into another tag"
+                    >
+                      <GitMerge className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(tag)}
+                      disabled={isLoading}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  {tag.aliases.map((alias) => (
+                    <Badge key={alias.id} variant="outline" className="flex items-center gap-1">
+                      {alias.name}
+                      <button
+                        onClick={() => runAction(() => removeTagAlias(kind, alias.id))}
+                        disabled={isLoading}
+                        title="Remove alias"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleAddAlias(tag);
+                    }}
+                    className="flex items-center gap-1"
+                  >
+                    <Input
+                      placeholder="Add alias"
+                      value={aliasInputs[tag.id] ?? ""}
+                      onChange={(e) =>
+                        setAliasInputs((inputs) => ({ ...inputs, [tag.id]: e.target.value }))
+                      }
+                      className="h-8 w-32"
+                      disabled={isLoading}
+                    />
+                  </form>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTag ? "Edit Tag" : `New ${kind} tag`}</DialogTitle>
+            <DialogDescription>
+              {editingTag
+                ? "Renaming a tag changes it on every profile that uses it."
+                : "New tags are immediately available to all members."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${kind}-tag-name`}>Name *</Label>
+              <Input
+                id={`${kind}-tag-name`}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${kind}-tag-category`}>Category</Label>
+              <Input
+                id={`${kind}-tag-category`}
+                list={`${kind}-tag-categories`}
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+              />
+              <datalist id={`${kind}-tag-categories`}>
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${kind}-tag-description`}>Description</Label>
+              <Textarea
+                id={`${kind}-tag-description`}
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditDialogOpen(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveTag} disabled={isLoading || !form.name.trim()}>
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog open={mergingTag !== null} onOpenChange={(open) => !open && setMergingTag(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge &quot;{mergingTag?.name}&quot;</DialogTitle>
+            <DialogDescription>
+              Members using this tag are moved to the tag you choose, and &quot;
+              {mergingTag?.name}&quot; becomes an alias of it. This can&apos;t be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Merge into *</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a tag" />
+              </SelectTrigger>
+              <SelectContent>
+                {tags
+                  .filter((tag) => tag.id !== mergingTag?.id)
+                  .map((tag) => (
+                    <SelectItem key={tag.id} value={tag.id}>
+                      {tag.name}
+                      {tag.category ? ` (${tag.category})` : ""}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergingTag(null)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={isLoading || !mergeTargetId}>
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Merge"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
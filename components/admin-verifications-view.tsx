@@ -0,0 +1,247 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { CheckCircle, ExternalLink, FileText, Loader2, XCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { reviewQualification } from "@/app/actions/verification";
+
+interface VerificationRequest {
+  id: string;
+  title: string;
+  institution: string | null;
+  year: string | null;
+  description: string | null;
+  evidenceUrl: string | null;
+  evidenceFileUrl: string | null;
+  verificationRequestedAt: Date | null;
+  user: {
+    id: string;
+    name: string | null;
+    handle: string | null;
+    avatar: string | null;
+  };
+}
+
+interface AdminVerificationsViewProps {
+  requests: VerificationRequest[];
+  hasMore: boolean;
+}
+
+export function AdminVerificationsView({ requests, hasMore }: AdminVerificationsViewProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Review dialog state
+  const [selected, setSelected] = useState<VerificationRequest | null>(null);
+  const [decision, setDecision] = useState<"VERIFIED" | "REJECTED">("VERIFIED");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenReview = (request: VerificationRequest, type: "VERIFIED" | "REJECTED") => {
+    setSelected(request);
+    setDecision(type);
+    setNote("");
+    setError(null);
+  };
+
+  const handleSubmitReview = async () => {
+    if (!selected) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const result = await reviewQualification({
+      qualificationId: selected.id,
+      decision,
+      note: note || undefined,
+    });
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(false);
+    setSelected(null);
+    router.refresh();
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-white mb-2">Verifications</h1>
+        <p className="text-gray-400">Review qualification verification requests</p>
+      </div>
+
+      {requests.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No pending verification requests
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {requests.map((request) => (
+            <Card key={request.id} className="bg-black border-neutral-800">
+              <CardHeader>
+                <CardTitle className="text-base">{request.title}</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {[request.institution, request.year].filter(Boolean).join(" · ")}
+                  {request.verificationRequestedAt &&
+                    ` · Requested ${formatDistanceToNow(new Date(request.verificationRequestedAt), {
+                      addSuffix: true,
+                    })}`}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {/* Member */}
+                <div>
+                  <p className="text-xs text-muted-foreground mb-2">Member</p>
+                  <Link
+                    href={`/u/${request.user.handle}`}
+                    className="flex items-center gap-2 hover:underline"
+                  >
+                    <Avatar className="h-8 w-8">
+                      <AvatarFallback className="bg-neutral-900 text-white text-xs">
+                        {request.user.name?.charAt(0) || "?"}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="text-sm font-medium">{request.user.name}</p>
+                      <p className="text-xs text-muted-foreground">@{request.user.handle}</p>
+                    </div>
+                  </Link>
+                </div>
+
+                {request.description && (
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Description</p>
+                    <p className="text-sm bg-neutral-900 p-3 rounded">{request.description}</p>
+                  </div>
+                )}
+
+                {/* Evidence */}
+                <div>
+                  <p className="text-xs text-muted-foreground mb-2">Evidence</p>
+                  <div className="flex flex-col gap-1">
+                    {request.evidenceUrl && (
+                      <a
+                        href={request.evidenceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-sm hover:underline break-all"
+                      >
+                        <ExternalLink className="h-4 w-4 shrink-0" />
+                        {request.evidenceUrl}
+                      </a>
+                    )}
+                    {request.evidenceFileUrl && (
+                      <a
+                        href={request.evidenceFileUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-sm hover:underline"
+                      >
+                        <FileText className="h-4 w-4 shrink-0" />
+                        Uploaded certificate
+                      </a>
+                    )}
+                  </div>
+                </div>
+
+                {/* Actions */}
+                <div className="flex gap-2 pt-2">
+                  <Button size="sm" onClick={() => handleOpenReview(request, "VERIFIED")}>
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleOpenReview(request, "REJECTED")}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {hasMore && (
+            <p className="text-sm text-muted-foreground text-center">
+              Showing the oldest {requests.length} requests
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Review Dialog */}
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision === "VERIFIED" ? "Approve Verification" : "Reject Verification"}
+            </DialogTitle>
+            <DialogDescription>
+              The member will be notified of your decision
+              {decision === "REJECTED" ? " and shown your note." : "."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Note {decision === "VERIFIED" ? "(Optional)" : "*"}</Label>
+            <Textarea
+              placeholder={
+                decision === "REJECTED"
+                  ? "Explain what's missing or why it couldn't be verified..."
+                  : "Add any notes about your decision..."
+              }
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              maxLength={500}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmitReview}
+              disabled={isLoading || (decision === "REJECTED" && !note.trim())}
+              variant={decision === "REJECTED" ? "destructive" : "default"}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Processing...
+                </>
+              ) : decision === "VERIFIED" ? (
+                "Approve"
+              ) : (
+                "Reject"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   DropdownMenuTrigger,
 } from "./ui/dropdown-menu";
 import { Avatar, AvatarImage, AvatarFallback } from "./ui/avatar";
+import { NotificationBell } from "./notifications/notification-bell";
 
 export function AppHeader() {
   const { data: session } = useSession();
@@ -29,6 +30,10 @@ export function AppHeader() {
             Edit Profile
           </Link>
 
+          {session?.user && (
+            <NotificationBell className="hover:text-muted-foreground transition-colors" />
+          )}
+
           {session?.user && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -17,6 +17,11 @@ import {
 import { Search, Filter, X, Loader2, MapPin, Briefcase } from "lucide-react";
 import Link from "next/link";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import type { SearchField, SearchHighlight } from "@/lib/directory-search";
+import type { FeedSort } from "@/lib/feed-cursor";
+import type { DirectoryFacets } from "@/lib/directory-facets";
+import type { SavedSearchFilters } from "@/lib/saved-searches";
+import { SavedSearchesSidebar, type SavedSearchItem } from "@/components/saved-searches-sidebar";
 
 interface SkillTag {
   id: string;
@@ -33,6 +38,9 @@ interface ToolTag {
 interface DirectoryFeedProps {
   skillTags: SkillTag[];
   toolTags: ToolTag[];
+  savedSearches: SavedSearchItem[];
+  /** Saved search to start from, e.g. when opened from an alert */
+  initialFilters?: SavedSearchFilters;
 }
 
 interface ProfileTile {
@@ -57,23 +65,86 @@ interface ProfileTile {
     title: string;
   } | null;
   isFollowing: boolean;
+  searchHighlight: SearchHighlight | null;
 }
 
-export function DirectoryFeed({ skillTags, toolTags }: DirectoryFeedProps) {
+const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: "Name",
+  handle: "Handle",
+  roleTitle: "Role",
+  bio: "Bio",
+  skill: "Skill",
+  tool: "Tool",
+  project: "Project",
+  qualification: "Qualification",
+};
+
+/**
+ * Render a search highlight snippet with the matched ranges marked
+ */
+function HighlightedSnippet({ highlight }: { highlight: SearchHighlight }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlight.ranges.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(highlight.text.slice(position, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-500/30 text-white rounded-sm">
+        {highlight.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(highlight.text.slice(position));
+
+  return (
+    <p className="text-xs text-gray-400 line-clamp-2">
+      <span className="text-gray-500">{SEARCH_FIELD_LABELS[highlight.field]}: </span>
+      {parts}
+    </p>
+  );
+}
+
+export function DirectoryFeed({
+  skillTags,
+  toolTags,
+  savedSearches,
+  initialFilters = {},
+}: DirectoryFeedProps) {
   const [tiles, setTiles] = useState<ProfileTile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [hasMore, setHasMore] = useState(true);
   const [cursor, setCursor] = useState<string | null>(null);
+  const [facets, setFacets] = useState<DirectoryFacets | null>(null);
 
   // Filters state
-  const [search, setSearch] = useState("");
-  const [selectedSkillIds, setSelectedSkillIds] = useState<string[]>([]);
-  const [selectedToolIds, setSelectedToolIds] = useState<string[]>([]);
-  const [location, setLocation] = useState("");
-  const [hasActiveProject, setHasActiveProject] = useState(false);
-  const [sortBy, setSortBy] = useState<"newest" | "following" | "relevance">("newest");
+  const [search, setSearch] = useState(initialFilters.search ?? "");
+  const [debouncedSearch, setDebouncedSearch] = useState(initialFilters.search ?? "");
+  const [selectedSkillIds, setSelectedSkillIds] = useState(initialFilters.skillTagIds ?? []);
+  const [selectedToolIds, setSelectedToolIds] = useState(initialFilters.toolTagIds ?? []);
+  const [location, setLocation] = useState(initialFilters.location ?? "");
+  const [hasActiveProject, setHasActiveProject] = useState(
+    initialFilters.hasActiveProject ?? false
+  );
+  const [sortBy, setSortBy] = useState<FeedSort>(initialFilters.search ? "match" : "newest");
   const [showFilters, setShowFilters] = useState(false);
 
+  // Wait for a pause in typing before searching. Starting a search sorts by
+  // best match; clearing it leaves best match, which has nothing to rank.
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const term = search.trim();
+      setDebouncedSearch(term);
+      if (term && !debouncedSearch) {
+        setSortBy("match");
+      } else if (!term) {
+        setSortBy((prev) => (prev === "match" ? "newest" : prev));
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search, debouncedSearch]);
+
   const { ref: loadMoreRef, inView } = useInView({
     threshold: 0,
   });
@@ -84,7 +155,7 @@ export function DirectoryFeed({ skillTags, toolTags }: DirectoryFeedProps) {
       setIsLoading(true);
 
       const result = await getFeed({
-        search: search || undefined,
+        search: debouncedSearch || undefined,
         skillTagIds: selectedSkillIds.length > 0 ? selectedSkillIds : undefined,
         toolTagIds: selectedToolIds.length > 0 ? selectedToolIds : undefined,
         location: location || undefined,
@@ -96,6 +167,7 @@ export function DirectoryFeed({ skillTags, toolTags }: DirectoryFeedProps) {
       if (result.success && result.tiles) {
         if (reset) {
           setTiles(result.tiles);
+          setFacets(result.facets ?? null);
         } else {
           setTiles((prev) => [...prev, ...result.tiles!]);
         }
@@ -105,13 +177,13 @@ export function DirectoryFeed({ skillTags, toolTags }: DirectoryFeedProps) {
 
       setIsLoading(false);
     },
-    [search, selectedSkillIds, selectedToolIds, location, hasActiveProject, sortBy, cursor]
+    [debouncedSearch, selectedSkillIds, selectedToolIds, location, hasActiveProject, sortBy, cursor]
   );
 
   // Initial load
   useEffect(() => {
     loadFeed(true);
-  }, [search, selectedSkillIds, selectedToolIds, location, hasActiveProject, sortBy]);
+  }, [debouncedSearch, selectedSkillIds, selectedToolIds, location, hasActiveProject, sortBy]);
 
   // Infinite scroll
   useEffect(() => {
@@ -156,6 +228,27 @@ export function DirectoryFeed({ skillTags, toolTags }: DirectoryFeedProps) {
     setSortBy("newest");
   };
 
+  // Apply a saved search's filters, searching right away rather than after the debounce
+  const applySavedSearch = (filters: SavedSearchFilters) => {
+    setSearch(filters.search ?? "");
+    setDebouncedSearch(filters.search ?? "");
+    setSortBy((prev) => (filters.search ? "match" : prev === "match" ? "newest" : prev));
+    setSelectedSkillIds(filters.skillTagIds ?? []);
+    setSelectedToolIds(filters.toolTagIds ?? []);
+    setLocation(filters.location ?? "");
+    setHasActiveProject(filters.hasActiveProject ?? false);
+  };
+
+  // Once counts are in, hide options that would return no one (unless selected)
+  const skillCounts = new Map(facets?.skills.map((facet) => [facet.id, facet.count]));
+  const toolCounts = new Map(facets?.tools.map((facet) => [facet.id, facet.count]));
+  const visibleSkillTags = facets
+    ? skillTags.filter((tag) => skillCounts.has(tag.id) || selectedSkillIds.includes(tag.id))
+    : skillTags;
+  const visibleToolTags = facets
+    ? toolTags.filter((tag) => toolCounts.has(tag.id) || selectedToolIds.includes(tag.id))
+    : toolTags;
+
   const hasActiveFilters =
     search ||
     selectedSkillIds.length > 0 ||
@@ -171,275 +264,334 @@ export function DirectoryFeed({ skillTags, toolTags }: DirectoryFeedProps) {
         <p className="text-gray-400">Discover and connect with professionals</p>
       </div>
 
-      {/* Search and Filters */}
-      <div className="mb-6 space-y-4">
-        <div className="flex gap-4">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-            <Input
-              placeholder="Search by name, handle, role, or skills..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="pl-10 bg-black border-neutral-800 text-white"
-            />
-          </div>
-          <Button
-            variant={showFilters ? "default" : "outline"}
-            onClick={() => setShowFilters(!showFilters)}
-            className="border-neutral-800"
-          >
-            <Filter className="h-4 w-4 mr-2" />
-            Filters
-            {hasActiveFilters && (
-              <Badge variant="secondary" className="ml-2 h-5 w-5 p-0 flex items-center justify-center">
-                {[
-                  search ? 1 : 0,
-                  selectedSkillIds.length,
-                  selectedToolIds.length,
-                  location ? 1 : 0,
-                  hasActiveProject ? 1 : 0,
-                ].reduce((a, b) => a + b, 0)}
-              </Badge>
-            )}
-          </Button>
-          <Select value={sortBy} onValueChange={(value: any) => setSortBy(value)}>
-            <SelectTrigger className="w-[180px] bg-black border-neutral-800 text-white">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="newest">Newest</SelectItem>
-              <SelectItem value="following">Following First</SelectItem>
-              <SelectItem value="relevance">Most Relevant</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Filters Panel */}
-        {showFilters && (
-          <Card className="p-4 bg-black border-neutral-800 space-y-4">
-            <div className="flex items-center justify-between">
-              <h3 className="font-semibold text-white">Filters</h3>
-              {hasActiveFilters && (
-                <Button variant="ghost" size="sm" onClick={clearFilters} className="text-gray-400">
-                  <X className="h-4 w-4 mr-1" />
-                  Clear All
-                </Button>
-              )}
-            </div>
-
-            {/* Location Filter */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-300">Location</label>
-              <Input
-                placeholder="Filter by location..."
-                value={location}
-                onChange={(e) => setLocation(e.target.value)}
-                className="bg-neutral-900 border-neutral-700 text-white"
-              />
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Saved Searches */}
+        <aside className="lg:w-64 shrink-0">
+          <SavedSearchesSidebar
+            initialSavedSearches={savedSearches}
+            currentFilters={{
+              search: debouncedSearch || undefined,
+              skillTagIds: selectedSkillIds.length > 0 ? selectedSkillIds : undefined,
+              toolTagIds: selectedToolIds.length > 0 ? selectedToolIds : undefined,
+              location: location || undefined,
+              hasActiveProject: hasActiveProject || undefined,
+            }}
+            canSave={Boolean(hasActiveFilters)}
+            onApply={applySavedSearch}
+          />
+        </aside>
+
+        <div className="flex-1 min-w-0">
+          {/* Search and Filters */}
+          <div className="mb-6 space-y-4">
+            <div className="flex gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search by name, role, skills, projects or bio..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10 bg-black border-neutral-800 text-white"
+                />
+              </div>
+              <Button
+                variant={showFilters ? "default" : "outline"}
+                onClick={() => setShowFilters(!showFilters)}
+                className="border-neutral-800"
+              >
+                <Filter className="h-4 w-4 mr-2" />
+                Filters
+                {hasActiveFilters && (
+                  <Badge variant="secondary" className="ml-2 h-5 w-5 p-0 flex items-center justify-center">
+                    {[
+                      search ? 1 : 0,
+                      selectedSkillIds.length,
+                      selectedToolIds.length,
+                      location ? 1 : 0,
+                      hasActiveProject ? 1 : 0,
+                    ].reduce((a, b) => a + b, 0)}
+                  </Badge>
+                )}
+              </Button>
+              <Select value={sortBy} onValueChange={(value: any) => setSortBy(value)}>
+                <SelectTrigger className="w-[180px] bg-black border-neutral-800 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {debouncedSearch && <SelectItem value="match">Best Match</SelectItem>}
+                  <SelectItem value="newest">Newest</SelectItem>
+                  <SelectItem value="following">Following First</SelectItem>
+                  <SelectItem value="relevance">Most Relevant</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
-            {/* Has Active Project Filter */}
-            <div className="flex items-center gap-2">
-              <input
-                type="checkbox"
-                id="hasActiveProject"
-                checked={hasActiveProject}
-                onChange={(e) => setHasActiveProject(e.target.checked)}
-                className="rounded border-neutral-700"
-              />
-              <label htmlFor="hasActiveProject" className="text-sm text-gray-300 cursor-pointer">
-                Has active projects
-              </label>
-            </div>
+            {/* Filters Panel */}
+            {showFilters && (
+              <Card className="p-4 bg-black border-neutral-800 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-white">
+                    Filters
+                    {facets && (
+                      <span className="ml-2 text-sm font-normal text-gray-400">
+                        {facets.total} {facets.total === 1 ? "member" : "members"}
+                      </span>
+                    )}
+                  </h3>
+                  {hasActiveFilters && (
+                    <Button variant="ghost" size="sm" onClick={clearFilters} className="text-gray-400">
+                      <X className="h-4 w-4 mr-1" />
+                      Clear All
+                    </Button>
+                  )}
+                </div>
 
-            {/* Skill Tags Filter */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-300">Skills</label>
-              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
-                {Object.entries(
-                  skillTags.reduce((acc, tag) => {
-                    const category = tag.category || "Uncategorized";
-                    if (!acc[category]) acc[category] = [];
-                    acc[category].push(tag);
-                    return acc;
-                  }, {} as Record<string, SkillTag[]>)
-                ).map(([category, tags]) => (
-                  <div key={category} className="w-full">
-                    <div className="text-xs text-gray-500 mb-1">{category}</div>
+                {/* Location Filter */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-300">Location</label>
+                  <Input
+                    placeholder="Filter by location..."
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                    className="bg-neutral-900 border-neutral-700 text-white"
+                  />
+                  {facets && facets.locations.length > 0 && (
                     <div className="flex flex-wrap gap-1">
-                      {tags.map((tag) => (
+                      {facets.locations.map((facet) => (
                         <button
-                          key={tag.id}
-                          onClick={() => toggleSkillFilter(tag.id)}
-                          className={`px-2 py-1 text-xs rounded border transition-colors ${
-                            selectedSkillIds.includes(tag.id)
-                              ? "bg-primary text-primary-foreground border-primary"
-                              : "bg-neutral-900 text-gray-300 border-neutral-700 hover:bg-neutral-800"
-                          }`}
+                          key={facet.name}
+                          onClick={() => setLocation(facet.name)}
+                          className="px-2 py-1 text-xs rounded border bg-neutral-900 text-gray-300 border-neutral-700 hover:bg-neutral-800"
                         >
-                          {tag.name}
+                          {facet.name} <span className="text-gray-500">{facet.count}</span>
                         </button>
                       ))}
                     </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+                  )}
+                </div>
 
-            {/* Tool Tags Filter */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-300">Tools</label>
-              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
-                {Object.entries(
-                  toolTags.reduce((acc, tag) => {
-                    const category = tag.category || "Uncategorized";
-                    if (!acc[category]) acc[category] = [];
-                    acc[category].push(tag);
-                    return acc;
-                  }, {} as Record<string, ToolTag[]>)
-                ).map(([category, tags]) => (
-                  <div key={category} className="w-full">
-                    <div className="text-xs text-gray-500 mb-1">{category}</div>
-                    <div className="flex flex-wrap gap-1">
-                      {tags.map((tag) => (
-                        <button
-                          key={tag.id}
-                          onClick={() => toggleToolFilter(tag.id)}
-                          className={`px-2 py-1 text-xs rounded border transition-colors ${
-                            selectedToolIds.includes(tag.id)
-                              ? "bg-primary text-primary-foreground border-primary"
-                              : "bg-neutral-900 text-gray-300 border-neutral-700 hover:bg-neutral-800"
-                          }`}
-                        >
-                          {tag.name}
-                        </button>
-                      ))}
-                    </div>
+                {/* Has Active Project Filter */}
+                {(!facets || facets.activeProjectCount > 0 || hasActiveProject) && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="hasActiveProject"
+                      checked={hasActiveProject}
+                      onChange={(e) => setHasActiveProject(e.target.checked)}
+                      className="rounded border-neutral-700"
+                    />
+                    <label htmlFor="hasActiveProject" className="text-sm text-gray-300 cursor-pointer">
+                      Has active projects
+                      {facets && <span className="text-gray-500"> ({facets.activeProjectCount})</span>}
+                    </label>
                   </div>
-                ))}
-              </div>
-            </div>
-          </Card>
-        )}
-      </div>
-
-      {/* Grid */}
-      {isLoading && tiles.length === 0 ? (
-        <div className="flex justify-center items-center py-20">
-          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
-        </div>
-      ) : tiles.length === 0 ? (
-        <div className="text-center py-20">
-          <p className="text-gray-400">No profiles found. Try adjusting your filters.</p>
-        </div>
-      ) : (
-        <>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {tiles.map((tile) => (
-              <Card
-                key={tile.id}
-                className="p-4 bg-black border-white hover:border-neutral-500 transition-colors"
-              >
-                <div className="flex flex-col gap-3">
-                  {/* Avatar and Name */}
-                  <div className="flex items-start gap-3">
-                    <Link href={`/u/${tile.handle}`}>
-                      <Avatar className="h-12 w-12 border border-neutral-700">
-                        <AvatarFallback className="bg-neutral-900 text-white">
-                          {tile.name?.charAt(0) || "?"}
-                        </AvatarFallback>
-                      </Avatar>
-                    </Link>
-                    <div className="flex-1 min-w-0">
-                      <Link href={`/u/${tile.handle}`}>
-                        <h3 className="font-semibold text-white truncate hover:underline">
-                          {tile.name}
-                        </h3>
-                      </Link>
-                      <p className="text-sm text-gray-400 truncate">@{tile.handle}</p>
-                    </div>
+                )}
+
+                {/* Skill Tags Filter */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-300">Skills</label>
+                  <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                    {visibleSkillTags.length === 0 && (
+                      <p className="text-xs text-gray-500">No skills match the current filters</p>
+                    )}
+                    {Object.entries(
+                      visibleSkillTags.reduce((acc, tag) => {
+                        const category = tag.category || "Uncategorized";
+                        if (!acc[category]) acc[category] = [];
+                        acc[category].push(tag);
+                        return acc;
+                      }, {} as Record<string, SkillTag[]>)
+                    ).map(([category, tags]) => (
+                      <div key={category} className="w-full">
+                        <div className="text-xs text-gray-500 mb-1">{category}</div>
+                        <div className="flex flex-wrap gap-1">
+                          {tags.map((tag) => (
+                            <button
+                              key={tag.id}
+                              onClick={() => toggleSkillFilter(tag.id)}
+                              className={`px-2 py-1 text-xs rounded border transition-colors ${
+                                selectedSkillIds.includes(tag.id)
+                                  ? "bg-primary text-primary-foreground border-primary"
+                                  : "bg-neutral-900 text-gray-300 border-neutral-700 hover:bg-neutral-800"
+                              }`}
+                            >
+                              {tag.name}
+                              {skillCounts.has(tag.id) && (
+                                <span className="ml-1 opacity-60">{skillCounts.get(tag.id)}</span>
+                              )}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
                   </div>
+                </div>
 
-                  {/* Role Title */}
-                  {tile.roleTitle && (
-                    <p className="text-sm text-gray-300 line-clamp-2">{tile.roleTitle}</p>
-                  )}
-
-                  {/* Location */}
-                  {tile.location && (
-                    <div className="flex items-center gap-1 text-xs text-gray-400">
-                      <MapPin className="h-3 w-3" />
-                      <span className="truncate">{tile.location}</span>
-                    </div>
-                  )}
-
-                  {/* Featured Skills */}
-                  {tile.featuredSkills.length > 0 && (
-                    <div className="space-y-1">
-                      <p className="text-xs text-gray-500 font-medium">Top Skills</p>
-                      <div className="flex flex-wrap gap-1">
-                        {tile.featuredSkills.map((skill) => (
-                          <Badge
-                            key={skill.id}
-                            variant="secondary"
-                            className="text-xs bg-neutral-900 text-gray-300"
-                          >
-                            {skill.name}
-                          </Badge>
-                        ))}
+                {/* Tool Tags Filter */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-300">Tools</label>
+                  <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                    {visibleToolTags.length === 0 && (
+                      <p className="text-xs text-gray-500">No tools match the current filters</p>
+                    )}
+                    {Object.entries(
+                      visibleToolTags.reduce((acc, tag) => {
+                        const category = tag.category || "Uncategorized";
+                        if (!acc[category]) acc[category] = [];
+                        acc[category].push(tag);
+                        return acc;
+                      }, {} as Record<string, ToolTag[]>)
+                    ).map(([category, tags]) => (
+                      <div key={category} className="w-full">
+                        <div className="text-xs text-gray-500 mb-1">{category}</div>
+                        <div className="flex flex-wrap gap-1">
+                          {tags.map((tag) => (
+                            <button
+                              key={tag.id}
+                              onClick={() => toggleToolFilter(tag.id)}
+                              className={`px-2 py-1 text-xs rounded border transition-colors ${
+                                selectedToolIds.includes(tag.id)
+                                  ? "bg-primary text-primary-foreground border-primary"
+                                  : "bg-neutral-900 text-gray-300 border-neutral-700 hover:bg-neutral-800"
+                              }`}
+                            >
+                              {tag.name}
+                              {toolCounts.has(tag.id) && (
+                                <span className="ml-1 opacity-60">{toolCounts.get(tag.id)}</span>
+                              )}
+                            </button>
+                          ))}
+                        </div>
                       </div>
-                    </div>
-                  )}
-
-                  {/* Featured Tools */}
-                  {tile.featuredTools.length > 0 && (
-                    <div className="flex flex-wrap gap-1">
-                      {tile.featuredTools.map((tool) => (
-                        <Badge
-                          key={tool.id}
-                          variant="outline"
-                          className="text-xs border-neutral-700 text-gray-400"
-                        >
-                          {tool.name}
-                        </Badge>
-                      ))}
-                    </div>
-                  )}
-
-                  {/* Active Project Badge */}
-                  {tile.activeProject && (
-                    <div className="flex items-center gap-1 text-xs text-green-400">
-                      <Briefcase className="h-3 w-3" />
-                      <span className="truncate">Active: {tile.activeProject.title}</span>
-                    </div>
-                  )}
-
-                  {/* Follow Button */}
-                  <Button
-                    variant={tile.isFollowing ? "outline" : "default"}
-                    size="sm"
-                    onClick={() => handleToggleFollow(tile.id)}
-                    className="w-full mt-2"
-                  >
-                    {tile.isFollowing ? "Following" : "Follow"}
-                  </Button>
+                    ))}
+                  </div>
                 </div>
               </Card>
-            ))}
+            )}
           </div>
 
-          {/* Load More Trigger */}
-          {hasMore && (
-            <div ref={loadMoreRef} className="flex justify-center py-8">
-              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          {/* Grid */}
+          {isLoading && tiles.length === 0 ? (
+            <div className="flex justify-center items-center py-20">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
             </div>
-          )}
+          ) : tiles.length === 0 ? (
+            <div className="text-center py-20">
+              <p className="text-gray-400">No profiles found. Try adjusting your filters.</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                {tiles.map((tile) => (
+                  <Card
+                    key={tile.id}
+                    className="p-4 bg-black border-white hover:border-neutral-500 transition-colors"
+                  >
+                    <div className="flex flex-col gap-3">
+                      {/* Avatar and Name */}
+                      <div className="flex items-start gap-3">
+                        <Link href={`/u/${tile.handle}`}>
+                          <Avatar className="h-12 w-12 border border-neutral-700">
+                            <AvatarFallback className="bg-neutral-900 text-white">
+                              {tile.name?.charAt(0) || "?"}
+                            </AvatarFallback>
+                          </Avatar>
+                        </Link>
+                        <div className="flex-1 min-w-0">
+                          <Link href={`/u/${tile.handle}`}>
+                            <h3 className="font-semibold text-white truncate hover:underline">
+                              {tile.name}
+                            </h3>
+                          </Link>
+                          <p className="text-sm text-gray-400 truncate">@{tile.handle}</p>
+                        </div>
+                      </div>
 
-          {!hasMore && tiles.length > 0 && (
-            <p className="text-center text-gray-500 py-8">No more profiles to load</p>
+                      {/* Role Title */}
+                      {tile.roleTitle && (
+                        <p className="text-sm text-gray-300 line-clamp-2">{tile.roleTitle}</p>
+                      )}
+
+                      {/* Search Match */}
+                      {tile.searchHighlight && <HighlightedSnippet highlight={tile.searchHighlight} />}
+
+                      {/* Location */}
+                      {tile.location && (
+                        <div className="flex items-center gap-1 text-xs text-gray-400">
+                          <MapPin className="h-3 w-3" />
+                          <span className="truncate">{tile.location}</span>
+                        </div>
+                      )}
+
+                      {/* Featured Skills */}
+                      {tile.featuredSkills.length > 0 && (
+                        <div className="space-y-1">
+                          <p className="text-xs text-gray-500 font-medium">Top Skills</p>
+                          <div className="flex flex-wrap gap-1">
+                            {tile.featuredSkills.map((skill) => (
+                              <Badge
+                                key={skill.id}
+                                variant="secondary"
+                                className="text-xs bg-neutral-900 text-gray-300"
+                              >
+                                {skill.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Featured Tools */}
+                      {tile.featuredTools.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {tile.featuredTools.map((tool) => (
+                            <Badge
+                              key={tool.id}
+                              variant="outline"
+                              className="text-xs border-neutral-700 text-gray-400"
+                            >
+                              {tool.name}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Active Project Badge */}
+                      {tile.activeProject && (
+                        <div className="flex items-center gap-1 text-xs text-green-400">
+                          <Briefcase className="h-3 w-3" />
+                          <span className="truncate">Active: {tile.activeProject.title}</span>
+                        </div>
+                      )}
+
+                      {/* Follow Button */}
+                      <Button
+                        variant={tile.isFollowing ? "outline" : "default"}
+                        size="sm"
+                        onClick={() => handleToggleFollow(tile.id)}
+                        className="w-full mt-2"
+                      >
+                        {tile.isFollowing ? "Following" : "Follow"}
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+
+              {/* Load More Trigger */}
+              {hasMore && (
+                <div ref={loadMoreRef} className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                </div>
+              )}
+
+              {!hasMore && tiles.length > 0 && (
+                <p className="text-center text-gray-500 py-8">No more profiles to load</p>
+              )}
+            </>
           )}
-        </>
-      )}
+        </div>
+      </div>
     </div>
   );
 }
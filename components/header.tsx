@@ -6,10 +6,11 @@ import { useSession, signOut } from "next-auth/react";
 import { Button } from "./ui/button";
 import { useEffect, useState } from "react";
 import { MessageSquare } from "lucide-react";
+import { NotificationBell } from "./notifications/notification-bell";
 
 export function Header() {
   const { data: session } = useSession();
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [role, setRole] = useState<string | null>(null);
   const [avatar, setAvatar] = useState<string | null>(null);
 
   useEffect(() => {
@@ -17,13 +18,15 @@ export function Header() {
       fetch("/api/user/role")
         .then((res) => res.json())
         .then((data) => {
-          setIsAdmin(data.role === "ADMIN" || data.role === "MODERATOR");
+          setRole(data.role ?? null);
           if (data.avatar) setAvatar(data.avatar);
         })
-        .catch(() => setIsAdmin(false));
+        .catch(() => setRole(null));
     }
   }, [session?.user?.id]);
 
+  const isAdmin = role === "ADMIN" || role === "MODERATOR";
+
   return (
     <header className="border-b border-white bg-black">
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
@@ -41,14 +44,38 @@ export function Header() {
                 <MessageSquare className="h-4 w-4" />
                 Messages
               </Link>
+              <Link href="/me/invites" className="text-white hover:underline">
+                Invites
+              </Link>
               {isAdmin && (
                 <Link href="/app/admin/reports" className="text-white hover:underline">
                   Reports
                 </Link>
               )}
+              {isAdmin && (
+                <Link href="/app/admin/verifications" className="text-white hover:underline">
+                  Verifications
+                </Link>
+              )}
+              {isAdmin && (
+                <Link href="/app/admin/tag-proposals" className="text-white hover:underline">
+                  Tag Proposals
+                </Link>
+              )}
+              {role === "ADMIN" && (
+                <Link href="/app/admin/invites" className="text-white hover:underline">
+                  Growth
+                </Link>
+              )}
+              {role === "ADMIN" && (
+                <Link href="/app/admin/taxonomy" className="text-white hover:underline">
+                  Taxonomy
+                </Link>
+              )}
               <Link href="/me/settings" className="text-white hover:underline">
                 Settings
               </Link>
+              <NotificationBell className="text-white hover:opacity-80" />
               <Button variant="secondary" onClick={() => signOut()}>
                 Sign Out
               </Button>
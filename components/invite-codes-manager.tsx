@@ -0,0 +1,307 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Plus, Copy, Check, Ban, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { createInviteCode, disableInviteCode } from "@/app/actions/invites";
+
+interface InviteCode {
+  id: string;
+  code: string;
+  maxUses: number;
+  usesCount: number;
+  enabled: boolean;
+  expiresAt: Date | null;
+  createdAt: Date;
+  redemptions: Array<{
+    id: string;
+    redeemedAt: Date;
+    redeemedBy: {
+      id: string;
+      name: string | null;
+      handle: string | null;
+      avatar: string | null;
+      status: string;
+    };
+  }>;
+}
+
+interface InviteCodesManagerProps {
+  codes: InviteCode[];
+  quota: {
+    maxActiveCodes: number | null;
+    maxUsesPerCode: number | null;
+    activeCount: number;
+  };
+}
+
+function getCodeState(code: InviteCode): "active" | "disabled" | "expired" | "used" {
+  if (!code.enabled) return "disabled";
+  if (code.expiresAt && new Date(code.expiresAt) <= new Date()) return "expired";
+  if (code.usesCount >= code.maxUses) return "used";
+  return "active";
+}
+
+const STATE_LABELS = {
+  active: "Active",
+  disabled: "Disabled",
+  expired: "Expired",
+  used: "Used up",
+};
+
+export function InviteCodesManager({ codes, quota }: InviteCodesManagerProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Create dialog state
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [maxUses, setMaxUses] = useState("1");
+  const [expiresInDays, setExpiresInDays] = useState("30");
+
+  const atQuota = quota.maxActiveCodes !== null && quota.activeCount >= quota.maxActiveCodes;
+
+  const getShareLink = (code: string) =>
+    `${window.location.origin}/sign-up?code=${encodeURIComponent(code)}`;
+
+  const handleCopyLink = async (code: InviteCode) => {
+    await navigator.clipboard.writeText(getShareLink(code.code));
+    setCopiedId(code.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleCreate = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await createInviteCode({
+      maxUses: Number(maxUses),
+      expiresInDays: expiresInDays === "never" ? null : Number(expiresInDays),
+    });
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    setDialogOpen(false);
+    setMaxUses("1");
+    setExpiresInDays("30");
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  const handleDisable = async (codeId: string) => {
+    if (!confirm("Disable this invite code? It can no longer be used to sign up.")) return;
+    setIsLoading(true);
+    const result = await disableInviteCode(codeId);
+    setIsLoading(false);
+    if (!result.error) {
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">Invites</h1>
+          <p className="text-muted-foreground">
+            {quota.maxActiveCodes === null
+              ? `${quota.activeCount} active codes`
+              : `${quota.activeCount} of ${quota.maxActiveCodes} active codes`}
+          </p>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button disabled={atQuota}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Invite Code
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New Invite Code</DialogTitle>
+              <DialogDescription>
+                Anyone with this code can join INSPIRE-LAB until it runs out or expires.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="maxUses">Max Uses</Label>
+                <Input
+                  id="maxUses"
+                  type="number"
+                  min={1}
+                  max={quota.maxUsesPerCode ?? undefined}
+                  value={maxUses}
+                  onChange={(e) => setMaxUses(e.target.value)}
+                />
+                {quota.maxUsesPerCode !== null && (
+                  <p className="text-xs text-muted-foreground">
+                    Up to {quota.maxUsesPerCode} uses per code
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expiresInDays">Expires</Label>
+                <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">In 1 day</SelectItem>
+                    <SelectItem value="7">In 7 days</SelectItem>
+                    <SelectItem value="30">In 30 days</SelectItem>
+                    <SelectItem value="90">In 90 days</SelectItem>
+                    <SelectItem value="never">Never</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={isLoading || !maxUses}>
+                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create Code"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {atQuota && (
+        <p className="text-sm text-muted-foreground mb-4">
+          You&apos;ve reached your active code limit. Disable an unused code to create a new one.
+        </p>
+      )}
+
+      {codes.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No invite codes yet. Create one to invite someone you trust.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {codes.map((code) => {
+            const state = getCodeState(code);
+
+            return (
+              <Card key={code.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center gap-2 mb-2">
+                        <CardTitle className="font-mono">{code.code}</CardTitle>
+                        <Badge variant={state === "active" ? "default" : "outline"}>
+                          {STATE_LABELS[state]}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {code.usesCount}/{code.maxUses} uses
+                        {code.expiresAt &&
+                          ` · ${
+                            state === "expired" ? "Expired" : "Expires"
+                          } ${formatDistanceToNow(new Date(code.expiresAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    {state === "active" && (
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleCopyLink(code)}>
+                          {copiedId === code.id ? (
+                            <Check className="h-4 w-4 mr-1" />
+                          ) : (
+                            <Copy className="h-4 w-4 mr-1" />
+                          )}
+                          {copiedId === code.id ? "Copied" : "Copy Link"}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDisable(code.id)}
+                          disabled={isLoading}
+                          title="Disable code"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardHeader>
+                {code.redemptions.length > 0 && (
+                  <CardContent>
+                    <p className="text-xs text-muted-foreground mb-2">Redeemed by</p>
+                    <div className="space-y-2">
+                      {code.redemptions.map((redemption) => (
+                        <div key={redemption.id} className="flex items-center justify-between">
+                          <Link
+                            href={`/u/${redemption.redeemedBy.handle}`}
+                            className="flex items-center gap-2 hover:underline"
+                          >
+                            <Avatar className="h-8 w-8 rounded-full">
+                              <AvatarImage
+                                src={redemption.redeemedBy.avatar || undefined}
+                                alt={redemption.redeemedBy.name || "Avatar"}
+                              />
+                              <AvatarFallback className="rounded-full text-xs">
+                                {redemption.redeemedBy.name?.[0]?.toUpperCase() || "?"}
+                              </AvatarFallback>
+                            </Avatar>
+                            <div>
+                              <p className="text-sm font-medium">
+                                {redemption.redeemedBy.name || "New member"}
+                              </p>
+                              {redemption.redeemedBy.handle && (
+                                <p className="text-xs text-muted-foreground">
+                                  @{redemption.redeemedBy.handle}
+                                </p>
+                              )}
+                            </div>
+                          </Link>
+                          <span className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(redemption.redeemedAt), {
+                              addSuffix: true,
+                            })}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
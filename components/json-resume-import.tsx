@@ -0,0 +1,405 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileUp, Loader2 } from "lucide-react";
+import { applyJsonResumeImport, previewJsonResumeImport } from "@/app/actions/profile";
+import { proposeTag } from "@/app/actions/tag-proposals";
+import type { ResumeImportPlan, ResumeProfileField } from "@/lib/json-resume";
+
+type Section = "links" | "skills" | "projects" | "qualifications";
+
+/** Where proposing an unmatched skill as a new tag got to */
+type SkillProposal =
+  | { status: "pending" }
+  | { status: "proposed" }
+  | { status: "similar"; similar: string[] }
+  | { status: "error"; error: string };
+
+const FIELD_LABELS: Record<ResumeProfileField, string> = {
+  name: "Name",
+  roleTitle: "Role title",
+  bio: "Bio",
+  location: "Location",
+  website: "Website",
+};
+
+const SECTION_LABELS: Record<Section, string> = {
+  links: "Links",
+  skills: "Skills",
+  projects: "Projects",
+  qualifications: "Qualifications",
+};
+
+export function JsonResumeImport() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [raw, setRaw] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ResumeImportPlan | null>(null);
+  const [selectedFields, setSelectedFields] = useState<ResumeProfileField[]>([]);
+  const [selectedSections, setSelectedSections] = useState<Section[]>([]);
+  const [visibility, setVisibility] = useState("PUBLIC");
+  const [proposals, setProposals] = useState<Record<string, SkillProposal>>({});
+
+  const reset = () => {
+    setRaw(null);
+    setPreview(null);
+    setError(null);
+    setProposals({});
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const contents = await file.text();
+    const result = await previewJsonResumeImport(contents);
+
+    if (result.error || !result.preview) {
+      setError(result.error || "Failed to read résumé");
+      setIsLoading(false);
+      return;
+    }
+
+    setRaw(contents);
+    setPreview(result.preview);
+    // Start with every change selected; the member can untick what they don't want
+    setSelectedFields(result.preview.fields.map(({ field }) => field));
+    setSelectedSections(
+      (["links", "skills", "projects", "qualifications"] as const).filter((section) =>
+        result.preview[section].some((item) => !item.exists)
+      )
+    );
+    setIsLoading(false);
+  };
+
+  const handleApply = async () => {
+    if (!raw) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const result = await applyJsonResumeImport(raw, {
+      fields: selectedFields,
+      links: selectedSections.includes("links"),
+      skills: selectedSections.includes("skills"),
+      projects: selectedSections.includes("projects"),
+      qualifications: selectedSections.includes("qualifications"),
+      visibility: visibility as "PUBLIC" | "PRIVATE" | "CONNECTIONS_ONLY",
+    });
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    setOpen(false);
+    reset();
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  // Propose a skill with no tag; it's added to the profile pending moderator review
+  const handleProposeSkill = async (
+    skill: ResumeImportPlan["unmatchedSkills"][number],
+    confirmed: boolean
+  ) => {
+    setProposals((prev) => ({ ...prev, [skill.name]: { status: "pending" } }));
+
+    const result = await proposeTag({
+      kind: "skill",
+      name: skill.name,
+      level: skill.level,
+      confirmed,
+    });
+
+    let proposal: SkillProposal;
+    if (result.error) {
+      proposal = { status: "error", error: result.error };
+    } else if (result.needsConfirmation && result.similar) {
+      proposal = { status: "similar", similar: result.similar.map((tag) => tag.name) };
+    } else {
+      proposal = { status: "proposed" };
+      router.refresh();
+    }
+    setProposals((prev) => ({ ...prev, [skill.name]: proposal }));
+  };
+
+  const toggleField = (field: ResumeProfileField) => {
+    setSelectedFields((fields) =>
+      fields.includes(field) ? fields.filter((f) => f !== field) : [...fields, field]
+    );
+  };
+
+  const toggleSection = (section: Section) => {
+    setSelectedSections((sections) =>
+      sections.includes(section) ? sections.filter((s) => s !== section) : [...sections, section]
+    );
+  };
+
+  const sectionItems = (
+    section: Section
+  ): Array<{ key: string; label: string; exists: boolean }> => {
+    if (!preview) return [];
+    switch (section) {
+      case "links":
+        return preview.links.map((link) => ({
+          key: link.url,
+          label: `${link.label} · ${link.url}`,
+          exists: link.exists,
+        }));
+      case "skills":
+        return preview.skills.map((skill) => ({
+          key: skill.skillTagId,
+          label: `${skill.tagName} (${skill.level.toLowerCase()})`,
+          exists: skill.exists,
+        }));
+      case "projects":
+        return preview.projects.map((project) => ({
+          key: project.title,
+          label: project.title,
+          exists: project.exists,
+        }));
+      case "qualifications":
+        return preview.qualifications.map((qualification) => ({
+          key: `${qualification.title}|${qualification.institution}`,
+          label: [qualification.title, qualification.institution, qualification.year]
+            .filter(Boolean)
+            .join(" · "),
+          exists: qualification.exists,
+        }));
+    }
+  };
+
+  const nothingSelected = selectedFields.length === 0 && selectedSections.length === 0;
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <FileUp className="h-4 w-4 mr-2" />
+        Import résumé
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(isOpen) => {
+          setOpen(isOpen);
+          if (!isOpen) reset();
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import a JSON Resume</DialogTitle>
+            <DialogDescription>
+              Fill in your profile from a{" "}
+              <a
+                href="https://jsonresume.org"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline"
+              >
+                JSON Resume
+              </a>{" "}
+              file. You&apos;ll see what changes before anything is saved.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!preview ? (
+            <div className="space-y-2">
+              <label
+                htmlFor="resume-upload"
+                className="inline-block px-4 py-2 font-medium border bg-transparent text-white border-white hover:bg-white hover:text-black transition-colors cursor-pointer"
+              >
+                {isLoading ? "Reading..." : "Choose file"}
+              </label>
+              <input
+                id="resume-upload"
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFileChange}
+                className="hidden"
+                disabled={isLoading}
+              />
+              <p className="text-sm text-muted-foreground">resume.json, up to 512KB</p>
+            </div>
+          ) : (
+            <div className="space-y-6 max-h-96 overflow-y-auto">
+              {preview.fields.length > 0 && (
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">Profile</p>
+                  {preview.fields.map(({ field, current, incoming }) => (
+                    <div key={field} className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        id={`resume-field-${field}`}
+                        checked={selectedFields.includes(field)}
+                        onChange={() => toggleField(field)}
+                        className="mt-1 rounded border-neutral-700"
+                      />
+                      <label htmlFor={`resume-field-${field}`} className="text-sm cursor-pointer">
+                        <span className="font-medium">{FIELD_LABELS[field]}</span>
+                        {current && (
+                          <span className="block text-muted-foreground line-through">
+                            {current}
+                          </span>
+                        )}
+                        <span className="block">{incoming}</span>
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {(["links", "skills", "projects", "qualifications"] as const).map((section) => {
+                const items = sectionItems(section);
+                if (items.length === 0) return null;
+                const newItems = items.filter((item) => !item.exists).length;
+
+                return (
+                  <div key={section} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id={`resume-section-${section}`}
+                        checked={selectedSections.includes(section)}
+                        onChange={() => toggleSection(section)}
+                        disabled={newItems === 0}
+                        className="rounded border-neutral-700"
+                      />
+                      <label
+                        htmlFor={`resume-section-${section}`}
+                        className="text-sm font-medium cursor-pointer"
+                      >
+                        {SECTION_LABELS[section]} ({newItems} new)
+                      </label>
+                    </div>
+                    <ul className="space-y-1 pl-6">
+                      {items.map((item) => (
+                        <li key={item.key} className="text-sm flex items-center gap-2">
+                          <span className={item.exists ? "text-muted-foreground" : undefined}>
+                            {item.label}
+                          </span>
+                          {item.exists && <Badge variant="outline">Already on profile</Badge>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+
+              {preview.unmatchedSkills.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Skills we don&apos;t have tags for yet</p>
+                  <p className="text-sm text-muted-foreground">
+                    Propose them as new skills. They&apos;re added to your profile and go to a
+                    moderator for review.
+                  </p>
+                  <ul className="space-y-1 pl-6">
+                    {preview.unmatchedSkills.map((skill) => {
+                      const proposal = proposals[skill.name];
+                      return (
+                        <li key={skill.name} className="text-sm space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span>
+                              {skill.name} ({skill.level.toLowerCase()})
+                            </span>
+                            {proposal?.status === "proposed" ? (
+                              <Badge variant="outline">Proposed</Badge>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7"
+                                disabled={proposal?.status === "pending"}
+                                onClick={() =>
+                                  handleProposeSkill(skill, proposal?.status === "similar")
+                                }
+                              >
+                                {proposal?.status === "pending" ? (
+                                  <Loader2 className="h-3 w-3 animate-spin" />
+                                ) : proposal?.status === "similar" ? (
+                                  "Propose anyway"
+                                ) : (
+                                  "Propose"
+                                )}
+                              </Button>
+                            )}
+                          </div>
+                          {proposal?.status === "similar" && (
+                            <p className="text-muted-foreground">
+                              Similar skills exist: {proposal.similar.join(", ")}. You can add those
+                              from your skills tab instead.
+                            </p>
+                          )}
+                          {proposal?.status === "error" && (
+                            <p className="text-destructive">{proposal.error}</p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+
+              {(selectedSections.includes("projects") ||
+                selectedSections.includes("qualifications")) && (
+                <div className="space-y-2">
+                  <Label>Visibility of imported projects and qualifications</Label>
+                  <Select value={visibility} onValueChange={setVisibility}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="PUBLIC">Public</SelectItem>
+                      <SelectItem value="PRIVATE">Private</SelectItem>
+                      <SelectItem value="CONNECTIONS_ONLY">Connections Only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {preview && (
+            <DialogFooter>
+              <Button variant="outline" onClick={reset} disabled={isLoading}>
+                Choose another file
+              </Button>
+              <Button onClick={handleApply} disabled={isLoading || nothingSelected}>
+                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Import selected"}
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Bell } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getUnreadNotificationCount } from "@/app/actions/notifications";
+import { useNotificationStream } from "./use-notification-stream";
+
+interface NotificationBellProps {
+  className?: string;
+}
+
+export function NotificationBell({ className }: NotificationBellProps) {
+  const pathname = usePathname();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshCount = useCallback(() => {
+    getUnreadNotificationCount().then((result) => {
+      if (result.success) {
+        setUnreadCount(result.count ?? 0);
+      }
+    });
+  }, []);
+
+  // Refresh the count on navigation so reading notifications clears the badge
+  useEffect(() => {
+    refreshCount();
+  }, [pathname, refreshCount]);
+
+  useNotificationStream({
+    onNotification: () => setUnreadCount((count) => count + 1),
+    onRead: refreshCount,
+  });
+
+  return (
+    <Link
+      href="/notifications"
+      className={cn("relative inline-flex items-center", className)}
+      aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+    >
+      <Bell className="h-5 w-5" />
+      {unreadCount > 0 && (
+        <span className="absolute -top-1.5 -right-2 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-4 text-center">
+          {unreadCount > 99 ? "99+" : unreadCount}
+        </span>
+      )}
+    </Link>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Bell,
+  CheckCheck,
+  FolderKanban,
+  Loader2,
+  MessageSquare,
+  Search,
+  ShieldCheck,
+  ThumbsUp,
+  UserPlus,
+  Video,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  getNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "@/app/actions/notifications";
+import { useNotificationStream } from "./use-notification-stream";
+
+interface Notification {
+  id: string;
+  type: string;
+  message: string;
+  read: boolean;
+  createdAt: Date;
+  entityType: string | null;
+  entityId: string | null;
+  actor: {
+    id: string;
+    name: string | null;
+    handle: string | null;
+    avatar: string | null;
+  } | null;
+}
+
+interface NotificationListProps {
+  initialNotifications: Notification[];
+  initialCursor: string | null;
+  initialHasMore: boolean;
+}
+
+const TYPE_ICONS: Record<string, typeof Bell> = {
+  FOLLOW: UserPlus,
+  VOUCH: ShieldCheck,
+  ENDORSEMENT: ThumbsUp,
+  PROJECT_UPDATE: FolderKanban,
+  MESSAGE: MessageSquare,
+  VIDEO_CALL: Video,
+  SAVED_SEARCH: Search,
+};
+
+export function NotificationList({
+  initialNotifications,
+  initialCursor,
+  initialHasMore,
+}: NotificationListProps) {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState(initialNotifications);
+  const [cursor, setCursor] = useState(initialCursor);
+  const [hasMore, setHasMore] = useState(initialHasMore);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isMarkingAll, setIsMarkingAll] = useState(false);
+
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  // Live updates from other tabs and new activity
+  useNotificationStream({
+    onNotification: (notification) =>
+      setNotifications((prev) =>
+        prev.some((n) => n.id === notification.id) ? prev : [notification, ...prev]
+      ),
+    onRead: (ids) =>
+      setNotifications((prev) =>
+        prev.map((n) => (ids === null || ids.includes(n.id) ? { ...n, read: true } : n))
+      ),
+  });
+
+  const handleLoadMore = async () => {
+    if (!cursor) return;
+    setIsLoadingMore(true);
+
+    const result = await getNotifications({ cursor });
+
+    if (result.success && result.notifications) {
+      setNotifications((prev) => [...prev, ...result.notifications]);
+      setCursor(result.nextCursor);
+      setHasMore(result.hasMore);
+    }
+
+    setIsLoadingMore(false);
+  };
+
+  const handleMarkRead = async (notificationId: string) => {
+    setNotifications((prev) =>
+      prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n))
+    );
+    await markNotificationRead(notificationId);
+    router.refresh();
+  };
+
+  const handleMarkAllRead = async () => {
+    setIsMarkingAll(true);
+    const result = await markAllNotificationsRead();
+    if (result.success) {
+      setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+      router.refresh();
+    }
+    setIsMarkingAll(false);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">Notifications</h1>
+          <p className="text-muted-foreground">
+            {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleMarkAllRead}
+          disabled={isMarkingAll || unreadCount === 0}
+        >
+          {isMarkingAll ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <>
+              <CheckCheck className="h-4 w-4 mr-2" />
+              Mark all read
+            </>
+          )}
+        </Button>
+      </div>
+
+      {notifications.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No notifications yet.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {notifications.map((notification) => {
+            const Icon = TYPE_ICONS[notification.type] ?? Bell;
+
+            return (
+              <Card
+                key={notification.id}
+                className={cn(!notification.read && "border-primary bg-muted/40")}
+              >
+                <CardContent className="p-4 flex items-start gap-3">
+                  <Link
+                    href={`/notifications/${notification.id}`}
+                    className="flex items-start gap-3 flex-1 min-w-0"
+                  >
+                    <div className="relative shrink-0">
+                      <Avatar className="h-10 w-10 rounded-full">
+                        <AvatarImage
+                          src={notification.actor?.avatar || undefined}
+                          alt={notification.actor?.name || "Avatar"}
+                        />
+                        <AvatarFallback className="rounded-full">
+                          {notification.actor?.name?.[0]?.toUpperCase() || "?"}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="absolute -bottom-1 -right-1 rounded-full bg-background border border-border p-0.5">
+                        <Icon className="h-3 w-3" />
+                      </span>
+                    </div>
+                    <div className="min-w-0">
+                      <p className={cn("text-sm", !notification.read && "font-medium")}>
+                        {notification.message}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(notification.createdAt), {
+                          addSuffix: true,
+                        })}
+                      </p>
+                    </div>
+                  </Link>
+                  {!notification.read && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMarkRead(notification.id)}
+                      title="Mark as read"
+                    >
+                      <CheckCheck className="h-4 w-4" />
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {hasMore && (
+            <div className="flex justify-center pt-4">
+              <Button variant="secondary" onClick={handleLoadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load More"}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
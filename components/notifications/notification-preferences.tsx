@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { updateNotificationPreference } from "@/app/actions/notifications";
+
+type NotificationType =
+  | "FOLLOW"
+  | "VOUCH"
+  | "ENDORSEMENT"
+  | "PROJECT_UPDATE"
+  | "SYSTEM"
+  | "MESSAGE"
+  | "VIDEO_CALL"
+  | "SAVED_SEARCH";
+
+type NotificationChannel = "IN_APP" | "INSTANT_EMAIL" | "DAILY_DIGEST" | "NONE";
+
+export type NotificationChannelMap = Record<NotificationType, NotificationChannel>;
+
+interface NotificationPreferencesProps {
+  preferences: NotificationChannelMap;
+}
+
+const TYPE_OPTIONS: Array<{ type: NotificationType; label: string; description: string }> = [
+  { type: "FOLLOW", label: "New followers", description: "Someone follows you" },
+  { type: "VOUCH", label: "Vouches", description: "Someone vouches for you" },
+  {
+    type: "ENDORSEMENT",
+    label: "Skill endorsements",
+    description: "Someone endorses one of your skills",
+  },
+  {
+    type: "PROJECT_UPDATE",
+    label: "Project updates",
+    description: "You're added to a project or your role changes",
+  },
+  { type: "MESSAGE", label: "New conversations", description: "Someone starts a chat with you" },
+  { type: "VIDEO_CALL", label: "Video calls", description: "Someone calls you" },
+  {
+    type: "SAVED_SEARCH",
+    label: "New saved search matches",
+    description: "New members match a saved search you get alerts for",
+  },
+  {
+    type: "SYSTEM",
+    label: "Account and system messages",
+    description: "Exports, verifications and other account updates",
+  },
+];
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  IN_APP: "In-app only",
+  INSTANT_EMAIL: "In-app + instant email",
+  DAILY_DIGEST: "In-app + daily digest",
+  NONE: "Off",
+};
+
+export function NotificationPreferences({ preferences }: NotificationPreferencesProps) {
+  const [channels, setChannels] = useState(preferences);
+  const [savingType, setSavingType] = useState<NotificationType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (type: NotificationType, channel: NotificationChannel) => {
+    const previous = channels[type];
+    setChannels((prev) => ({ ...prev, [type]: channel }));
+    setSavingType(type);
+    setError(null);
+
+    const result = await updateNotificationPreference({ type, channel });
+
+    if (result.error) {
+      setChannels((prev) => ({ ...prev, [type]: previous }));
+      setError(result.error);
+    }
+    setSavingType(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Choose how you hear about activity on INSPIRE-LAB.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {TYPE_OPTIONS.map(({ type, label, description }) => (
+          <div key={type} className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">{label}</p>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {savingType === type && <Loader2 className="h-4 w-4 animate-spin" />}
+              <Select
+                value={channels[type]}
+                onValueChange={(value) => handleChange(type, value as NotificationChannel)}
+              >
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                    <SelectItem key={channel} value={channel}>
+                      {CHANNEL_LABELS[channel]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ))}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { NotificationPayload } from "@/lib/notifications/publisher";
+
+interface NotificationStreamHandlers {
+  onNotification?: (notification: NotificationPayload) => void;
+  /** ids is null when every notification was marked read */
+  onRead?: (ids: string[] | null) => void;
+}
+
+/**
+ * Subscribe to live notification events for the signed-in user.
+ *
+ * EventSource reconnects automatically if the connection drops.
+ */
+export function useNotificationStream(handlers: NotificationStreamHandlers, enabled = true) {
+  // Keep the latest handlers without reopening the stream on every render
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return;
+
+    const source = new EventSource("/api/notifications/stream");
+
+    source.addEventListener("notification", (event) => {
+      const notification = JSON.parse((event as MessageEvent).data) as NotificationPayload;
+      handlersRef.current.onNotification?.(notification);
+    });
+
+    source.addEventListener("read", (event) => {
+      const { ids } = JSON.parse((event as MessageEvent).data) as { ids: string[] | null };
+      handlersRef.current.onRead?.(ids);
+    });
+
+    return () => source.close();
+  }, [enabled]);
+}
@@ -0,0 +1,68 @@
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle, Circle } from "lucide-react";
+import type { ProfileCompleteness as ProfileCompletenessData } from "@/lib/profile-completeness";
+
+interface ProfileCompletenessProps {
+  completeness: ProfileCompletenessData;
+  /** Hide finished items and show only what's left to do */
+  remainingOnly?: boolean;
+}
+
+export function ProfileCompleteness({
+  completeness,
+  remainingOnly = false,
+}: ProfileCompletenessProps) {
+  const { score, items } = completeness;
+  const visibleItems = remainingOnly ? items.filter((item) => !item.done) : items;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-base">Profile completeness</CardTitle>
+          <span className="text-sm font-medium">{score}%</span>
+        </div>
+        <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${score}%` }} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {score === 100 ? (
+          <p className="text-sm text-muted-foreground">Your profile is complete.</p>
+        ) : (
+          <ul className="space-y-2">
+            {visibleItems.map((item) => (
+              <li key={item.key} className="flex items-start gap-2 text-sm">
+                {item.done ? (
+                  <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+                ) : (
+                  <Circle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                )}
+                <div className="flex-1">
+                  <span className={item.done ? "text-muted-foreground line-through" : ""}>
+                    {item.done ? (
+                      item.label
+                    ) : item.href ? (
+                      <Link href={item.href} className="hover:underline">
+                        {item.hint}
+                      </Link>
+                    ) : (
+                      item.hint
+                    )}
+                  </span>
+                  {!item.done && item.target > 1 && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      ({item.current}/{item.target})
+                    </span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
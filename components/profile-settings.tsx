@@ -27,6 +27,18 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Plus, Trash2, Star, Loader2, Edit } from "lucide-react";
+import {
+  NotificationPreferences,
+  type NotificationChannelMap,
+} from "@/components/notifications/notification-preferences";
+import { JsonResumeImport } from "@/components/json-resume-import";
+import { TagProposalForm } from "@/components/tag-proposal-form";
+import { ProfileCompleteness } from "@/components/profile-completeness";
+import type { ProfileCompleteness as ProfileCompletenessData } from "@/lib/profile-completeness";
+import {
+  RequestVerificationButton,
+  VerificationBadge,
+} from "@/components/qualification-verification";
 import {
   addSkill,
   removeSkill,
@@ -47,12 +59,14 @@ interface SkillTag {
   id: string;
   name: string;
   category: string | null;
+  status?: string;
 }
 
 interface ToolTag {
   id: string;
   name: string;
   category: string | null;
+  status?: string;
 }
 
 interface UserSkill {
@@ -88,6 +102,8 @@ interface Qualification {
   year: string | null;
   description: string | null;
   visibility: string;
+  verificationStatus: string | null;
+  reviewNote: string | null;
 }
 
 interface User {
@@ -104,9 +120,22 @@ interface ProfileSettingsProps {
   user: User;
   skillTags: SkillTag[];
   toolTags: ToolTag[];
+  notificationPreferences: NotificationChannelMap;
+  completeness: ProfileCompletenessData | null;
+  /** Tab to open, e.g. from a completeness checklist link */
+  defaultTab?: string;
 }
 
-export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsProps) {
+const SETTINGS_TABS = ["skills", "tools", "projects", "qualifications", "notifications"];
+
+export function ProfileSettings({
+  user,
+  skillTags,
+  toolTags,
+  notificationPreferences,
+  completeness,
+  defaultTab,
+}: ProfileSettingsProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -121,6 +150,9 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
   const [selectedToolId, setSelectedToolId] = useState("");
   const [toolLevel, setToolLevel] = useState<string>("INTERMEDIATE");
 
+  // Tag proposal state
+  const [proposalKind, setProposalKind] = useState<"skill" | "tool" | null>(null);
+
   // Projects state
   const [projectDialogOpen, setProjectDialogOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
@@ -209,6 +241,25 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
     router.refresh();
   };
 
+  // Tag proposal handlers
+  const handleOpenProposal = (kind: "skill" | "tool") => {
+    setSkillDialogOpen(false);
+    setToolDialogOpen(false);
+    setError(null);
+    setProposalKind(kind);
+  };
+
+  const handleSelectExistingTag = (tagId: string) => {
+    if (proposalKind === "skill") {
+      setSelectedSkillId(tagId);
+      setSkillDialogOpen(true);
+    } else {
+      setSelectedToolId(tagId);
+      setToolDialogOpen(true);
+    }
+    setProposalKind(null);
+  };
+
   const handleRemoveTool = async (userToolId: string) => {
     setIsLoading(true);
     const result = await removeTool(userToolId);
@@ -362,12 +413,27 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
     <div className="container mx-auto px-4 py-8">
       <div className="flex items-center justify-between mb-8">
         <h1 className="text-4xl font-bold">Profile Settings</h1>
-        <Link href={`/u/${user.handle}`}>
-          <Button variant="outline">View Profile</Button>
-        </Link>
+        <div className="flex gap-2">
+          <JsonResumeImport />
+          <Link href="/me/account">
+            <Button variant="outline">Account</Button>
+          </Link>
+          <Link href={`/u/${user.handle}`}>
+            <Button variant="outline">View Profile</Button>
+          </Link>
+        </div>
       </div>
 
-      <Tabs defaultValue="skills" className="w-full">
+      {completeness && completeness.score < 100 && (
+        <div className="mb-8">
+          <ProfileCompleteness completeness={completeness} />
+        </div>
+      )}
+
+      <Tabs
+        defaultValue={defaultTab && SETTINGS_TABS.includes(defaultTab) ? defaultTab : "skills"}
+        className="w-full"
+      >
         <TabsList>
           <TabsTrigger value="skills">Skills ({user.userSkills.length})</TabsTrigger>
           <TabsTrigger value="tools">Tools ({user.userTools.length})</TabsTrigger>
@@ -375,6 +441,7 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
           <TabsTrigger value="qualifications">
             Qualifications ({user.qualifications.length})
           </TabsTrigger>
+          <TabsTrigger value="notifications">Notifications</TabsTrigger>
         </TabsList>
 
         {/* Skills Tab */}
@@ -421,6 +488,13 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
                         ))}
                       </SelectContent>
                     </Select>
+                    <button
+                      type="button"
+                      className="text-sm text-muted-foreground underline"
+                      onClick={() => handleOpenProposal("skill")}
+                    >
+                      Can&apos;t find your skill? Propose a new one
+                    </button>
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="skillLevel">Level</Label>
@@ -491,7 +565,14 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
                               />
                             </Button>
                             <div>
-                              <p className="font-medium">{userSkill.skillTag.name}</p>
+                              <p className="font-medium">
+                                {userSkill.skillTag.name}
+                                {userSkill.skillTag.status === "PENDING" && (
+                                  <Badge variant="outline" className="ml-2">
+                                    Pending review
+                                  </Badge>
+                                )}
+                              </p>
                               <p className="text-sm text-muted-foreground">{userSkill.level}</p>
                             </div>
                           </div>
@@ -557,6 +638,13 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
                         ))}
                       </SelectContent>
                     </Select>
+                    <button
+                      type="button"
+                      className="text-sm text-muted-foreground underline"
+                      onClick={() => handleOpenProposal("tool")}
+                    >
+                      Can&apos;t find your tool? Propose a new one
+                    </button>
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="toolLevel">Level</Label>
@@ -627,7 +715,14 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
                               />
                             </Button>
                             <div>
-                              <p className="font-medium">{userTool.toolTag.name}</p>
+                              <p className="font-medium">
+                                {userTool.toolTag.name}
+                                {userTool.toolTag.status === "PENDING" && (
+                                  <Badge variant="outline" className="ml-2">
+                                    Pending review
+                                  </Badge>
+                                )}
+                              </p>
                               <p className="text-sm text-muted-foreground">{userTool.level}</p>
                             </div>
                           </div>
@@ -649,6 +744,45 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
           )}
         </TabsContent>
 
+        {/* Tag Proposal Dialog */}
+        <Dialog
+          open={proposalKind !== null}
+          onOpenChange={(open) => !open && setProposalKind(null)}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Propose a {proposalKind === "tool" ? "Tool" : "Skill"}</DialogTitle>
+              <DialogDescription>
+                Suggest a {proposalKind ?? "skill"} that isn&apos;t in the list yet
+              </DialogDescription>
+            </DialogHeader>
+            {proposalKind && (
+              <TagProposalForm
+                key={proposalKind}
+                kind={proposalKind}
+                categories={Object.keys(
+                  proposalKind === "skill" ? groupedSkillTags : groupedToolTags
+                ).filter((category) => category !== "Uncategorized")}
+                ownedTagIds={
+                  proposalKind === "skill"
+                    ? user.userSkills.map((us) => us.skillTag.id)
+                    : user.userTools.map((ut) => ut.toolTag.id)
+                }
+                onProposed={() => {
+                  setProposalKind(null);
+                  router.refresh();
+                }}
+                onSelectExisting={handleSelectExistingTag}
+                onCancel={() =>
+                  proposalKind === "skill"
+                    ? handleSelectExistingTag(selectedSkillId)
+                    : handleSelectExistingTag(selectedToolId)
+                }
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Projects Tab */}
         <TabsContent value="projects" className="space-y-4">
           <div className="flex justify-between items-center">
@@ -842,9 +976,20 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
                         )}
                         <div className="flex gap-2 mt-2">
                           <Badge variant="secondary">{qual.visibility}</Badge>
+                          <VerificationBadge status={qual.verificationStatus} showAll />
                         </div>
+                        {qual.verificationStatus === "REJECTED" && qual.reviewNote && (
+                          <p className="text-sm text-muted-foreground mt-2">
+                            Moderator note: {qual.reviewNote}
+                          </p>
+                        )}
                       </div>
                       <div className="flex gap-2">
+                        <RequestVerificationButton
+                          qualificationId={qual.id}
+                          status={qual.verificationStatus}
+                          reviewNote={qual.reviewNote}
+                        />
                         <Button
                           variant="ghost"
                           size="sm"
@@ -956,6 +1101,11 @@ export function ProfileSettings({ user, skillTags, toolTags }: ProfileSettingsPr
             </DialogContent>
           </Dialog>
         </TabsContent>
+
+        {/* Notifications Tab */}
+        <TabsContent value="notifications" className="space-y-4">
+          <NotificationPreferences preferences={notificationPreferences} />
+        </TabsContent>
       </Tabs>
     </div>
   );
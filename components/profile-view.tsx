@@ -25,10 +25,24 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import { MapPin, Globe, Calendar, Star, ExternalLink, Loader2, Flag } from "lucide-react";
+import {
+  MapPin,
+  Globe,
+  Calendar,
+  Star,
+  ExternalLink,
+  Loader2,
+  Flag,
+  ShieldCheck,
+  FileDown,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { toggleFollow } from "@/app/actions/feed";
 import { createReport } from "@/app/actions/reports";
+import { vouchForUser, updateVouch, withdrawVouch } from "@/app/actions/vouches";
 import { MessageButton } from "@/components/chat/message-button";
+import { VerificationBadge } from "@/components/qualification-verification";
+import { SkillEndorsements } from "@/components/skill-endorsements";
 
 interface User {
   id: string;
@@ -50,7 +64,16 @@ interface User {
       id: string;
       name: string;
       category: string | null;
+      status?: string;
     };
+    endorsementCount: number;
+    endorsers: Array<{
+      id: string;
+      name: string | null;
+      handle: string | null;
+      avatar: string | null;
+    }>;
+    endorsedByViewer: boolean;
   }>;
   userTools: Array<{
     id: string;
@@ -61,6 +84,7 @@ interface User {
       id: string;
       name: string;
       category: string | null;
+      status?: string;
     };
   }>;
   links: Array<{
@@ -85,6 +109,19 @@ interface User {
     year: string | null;
     description: string | null;
     visibility: string;
+    verificationStatus: string | null;
+  }>;
+  vouchesReceived: Array<{
+    id: string;
+    message: string | null;
+    createdAt: Date;
+    voucher: {
+      id: string;
+      name: string | null;
+      handle: string | null;
+      avatar: string | null;
+      roleTitle: string | null;
+    };
   }>;
   _count: {
     followers: number;
@@ -99,7 +136,7 @@ interface ProfileViewProps {
   viewerId: string;
 }
 
-export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
+export function ProfileView({ user, isOwner, isFollowing, viewerId }: ProfileViewProps) {
   const router = useRouter();
   const [following, setFollowing] = useState(isFollowing);
   const [followerCount, setFollowerCount] = useState(user._count.followers);
@@ -112,6 +149,13 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
   const [reportError, setReportError] = useState<string | null>(null);
   const [isSubmittingReport, setIsSubmittingReport] = useState(false);
 
+  // Vouch dialog state
+  const myVouch = user.vouchesReceived.find((vouch) => vouch.voucher.id === viewerId);
+  const [vouchDialogOpen, setVouchDialogOpen] = useState(false);
+  const [vouchMessage, setVouchMessage] = useState(myVouch?.message ?? "");
+  const [vouchError, setVouchError] = useState<string | null>(null);
+  const [isSubmittingVouch, setIsSubmittingVouch] = useState(false);
+
   const memberSince = new Date(user.createdAt).toLocaleDateString("en-US", {
     month: "long",
     year: "numeric",
@@ -157,6 +201,42 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
     }
   };
 
+  const handleSubmitVouch = async () => {
+    setIsSubmittingVouch(true);
+    setVouchError(null);
+
+    const data = { candidateId: user.id, message: vouchMessage || undefined };
+    const result = myVouch ? await updateVouch(data) : await vouchForUser(data);
+
+    setIsSubmittingVouch(false);
+    if (result.error) {
+      setVouchError(result.error);
+      return;
+    }
+
+    setVouchDialogOpen(false);
+    router.refresh();
+  };
+
+  const handleWithdrawVouch = async () => {
+    if (!confirm("Withdraw your vouch for this member?")) return;
+
+    setIsSubmittingVouch(true);
+    setVouchError(null);
+
+    const result = await withdrawVouch(user.id);
+
+    setIsSubmittingVouch(false);
+    if (result.error) {
+      setVouchError(result.error);
+      return;
+    }
+
+    setVouchDialogOpen(false);
+    setVouchMessage("");
+    router.refresh();
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Google-style Profile Header */}
@@ -201,6 +281,13 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
                   )}
                 </Button>
                 <MessageButton userId={user.id} userName={user.name} />
+                <Button
+                  variant={myVouch ? "outline" : "secondary"}
+                  onClick={() => setVouchDialogOpen(true)}
+                >
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  {myVouch ? "Vouched" : "Vouch"}
+                </Button>
                 <Button
                   variant="ghost"
                   size="icon"
@@ -211,6 +298,11 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
                 </Button>
               </>
             )}
+            <a href={`/api/u/${user.handle}/resume`} download>
+              <Button variant="ghost" size="icon" title="Download as JSON Resume">
+                <FileDown className="h-4 w-4" />
+              </Button>
+            </a>
           </div>
         </div>
 
@@ -249,6 +341,10 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
             <span className="font-bold">{followerCount}</span>{" "}
             <span className="text-muted-foreground">Followers</span>
           </div>
+          <div>
+            <span className="font-bold">{user.vouchesReceived.length}</span>{" "}
+            <span className="text-muted-foreground">Vouches</span>
+          </div>
         </div>
 
         {/* Links */}
@@ -280,6 +376,7 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
           <TabsTrigger value="qualifications">
             Qualifications ({user.qualifications.length})
           </TabsTrigger>
+          <TabsTrigger value="vouches">Vouches ({user.vouchesReceived.length})</TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -394,20 +491,34 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
                     <CardTitle>{category}</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="flex flex-wrap gap-2">
+                    <div className="space-y-3">
                       {skills.map((userSkill) => (
-                        <Badge
+                        <div
                           key={userSkill.id}
-                          variant={userSkill.featured ? "default" : "outline"}
-                          className="flex items-center gap-1"
+                          className="flex flex-wrap items-center justify-between gap-2"
                         >
-                          {userSkill.featured && <Star className="h-3 w-3 fill-current" />}
-                          {userSkill.skillTag.name}
-                          <span className="text-xs opacity-75">({userSkill.level})</span>
-                          {userSkill.yearsOfExp && (
-                            <span className="text-xs opacity-75">· {userSkill.yearsOfExp}y</span>
-                          )}
-                        </Badge>
+                          <Badge
+                            variant={userSkill.featured ? "default" : "outline"}
+                            className="flex items-center gap-1"
+                          >
+                            {userSkill.featured && <Star className="h-3 w-3 fill-current" />}
+                            {userSkill.skillTag.name}
+                            <span className="text-xs opacity-75">({userSkill.level})</span>
+                            {userSkill.yearsOfExp && (
+                              <span className="text-xs opacity-75">· {userSkill.yearsOfExp}y</span>
+                            )}
+                            {userSkill.skillTag.status === "PENDING" && (
+                              <span className="text-xs opacity-75">· pending review</span>
+                            )}
+                          </Badge>
+                          <SkillEndorsements
+                            userSkillId={userSkill.id}
+                            count={userSkill.endorsementCount}
+                            endorsers={userSkill.endorsers}
+                            endorsedByViewer={userSkill.endorsedByViewer}
+                            canEndorse={!isOwner && following}
+                          />
+                        </div>
                       ))}
                     </div>
                   </CardContent>
@@ -453,6 +564,9 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
                           {userTool.yearsOfExp && (
                             <span className="text-xs opacity-75">· {userTool.yearsOfExp}y</span>
                           )}
+                          {userTool.toolTag.status === "PENDING" && (
+                            <span className="text-xs opacity-75">· pending review</span>
+                          )}
                         </Badge>
                       ))}
                     </div>
@@ -525,7 +639,10 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
                   <CardHeader>
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
-                        <CardTitle>{qual.title}</CardTitle>
+                        <div className="flex items-center gap-2">
+                          <CardTitle>{qual.title}</CardTitle>
+                          <VerificationBadge status={qual.verificationStatus} showAll={isOwner} />
+                        </div>
                         <CardDescription className="mt-1">
                           {qual.institution && `${qual.institution}`}
                           {qual.year && ` · ${qual.year}`}
@@ -546,8 +663,112 @@ export function ProfileView({ user, isOwner, isFollowing }: ProfileViewProps) {
             </div>
           )}
         </TabsContent>
+
+        {/* Vouches Tab */}
+        <TabsContent value="vouches">
+          {user.vouchesReceived.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                No vouches yet.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4">
+              {user.vouchesReceived.map((vouch) => (
+                <Card key={vouch.id}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start gap-3">
+                      <Link href={`/u/${vouch.voucher.handle}`}>
+                        <Avatar className="h-10 w-10 rounded-full">
+                          <AvatarImage
+                            src={vouch.voucher.avatar || undefined}
+                            alt={vouch.voucher.name || "Avatar"}
+                          />
+                          <AvatarFallback className="rounded-full">
+                            {vouch.voucher.name?.[0]?.toUpperCase() || "?"}
+                          </AvatarFallback>
+                        </Avatar>
+                      </Link>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <Link
+                            href={`/u/${vouch.voucher.handle}`}
+                            className="font-semibold hover:underline"
+                          >
+                            {vouch.voucher.name}
+                          </Link>
+                          <span className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(vouch.createdAt), { addSuffix: true })}
+                          </span>
+                        </div>
+                        {vouch.voucher.roleTitle && (
+                          <p className="text-sm text-muted-foreground">{vouch.voucher.roleTitle}</p>
+                        )}
+                        {vouch.message && <p className="text-sm mt-2">{vouch.message}</p>}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
       </Tabs>
 
+      {/* Vouch Dialog */}
+      <Dialog open={vouchDialogOpen} onOpenChange={setVouchDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{myVouch ? "Your Vouch" : `Vouch for ${user.name}`}</DialogTitle>
+            <DialogDescription>
+              Vouching tells the community you know and trust this member. Your vouch is shown
+              publicly on their profile.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="vouchMessage">Message (Optional)</Label>
+            <Textarea
+              id="vouchMessage"
+              placeholder="How do you know them?"
+              value={vouchMessage}
+              onChange={(e) => setVouchMessage(e.target.value)}
+              rows={3}
+              maxLength={500}
+            />
+            <p className="text-xs text-muted-foreground">{vouchMessage.length}/500 characters</p>
+            {vouchError && <p className="text-sm text-destructive">{vouchError}</p>}
+          </div>
+          <DialogFooter>
+            {myVouch && (
+              <Button
+                variant="ghost"
+                onClick={handleWithdrawVouch}
+                disabled={isSubmittingVouch}
+                className="mr-auto"
+              >
+                Withdraw Vouch
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setVouchDialogOpen(false)}
+              disabled={isSubmittingVouch}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitVouch} disabled={isSubmittingVouch}>
+              {isSubmittingVouch ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : myVouch ? (
+                "Save"
+              ) : (
+                "Vouch"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Report Dialog */}
       <Dialog open={reportDialogOpen} onOpenChange={setReportDialogOpen}>
         <DialogContent>
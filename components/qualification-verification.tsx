@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { BadgeCheck, Clock, Loader2, XCircle } from "lucide-react";
+import { useUploadThing } from "@/lib/uploadthing";
+import { requestQualificationVerification } from "@/app/actions/verification";
+
+interface VerificationBadgeProps {
+  status: string | null;
+  /** Show pending and rejected states too (owner views) */
+  showAll?: boolean;
+}
+
+export function VerificationBadge({ status, showAll = false }: VerificationBadgeProps) {
+  if (status === "VERIFIED") {
+    return (
+      <Badge variant="outline" className="gap-1 border-green-500 text-green-500">
+        <BadgeCheck className="h-3 w-3" />
+        Verified
+      </Badge>
+    );
+  }
+
+  if (!showAll) {
+    return null;
+  }
+
+  if (status === "PENDING") {
+    return (
+      <Badge variant="outline" className="gap-1">
+        <Clock className="h-3 w-3" />
+        Verification pending
+      </Badge>
+    );
+  }
+
+  if (status === "REJECTED") {
+    return (
+      <Badge variant="outline" className="gap-1 border-destructive text-destructive">
+        <XCircle className="h-3 w-3" />
+        Not verified
+      </Badge>
+    );
+  }
+
+  return null;
+}
+
+interface RequestVerificationButtonProps {
+  qualificationId: string;
+  status: string | null;
+  reviewNote?: string | null;
+}
+
+/**
+ * Lets the owner of a qualification submit evidence for moderator review.
+ */
+export function RequestVerificationButton({
+  qualificationId,
+  status,
+  reviewNote,
+}: RequestVerificationButtonProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [evidenceUrl, setEvidenceUrl] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const { startUpload, isUploading } = useUploadThing("qualificationEvidenceUploader");
+
+  if (status === "VERIFIED" || status === "PENDING") {
+    return null;
+  }
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    let evidenceFileUrl: string | undefined;
+    if (file) {
+      try {
+        const uploaded = await startUpload([file]);
+        evidenceFileUrl = uploaded?.[0]?.url;
+      } catch (uploadError) {
+        console.error("Upload error:", uploadError);
+      }
+      if (!evidenceFileUrl) {
+        setError("Failed to upload certificate");
+        setIsLoading(false);
+        return;
+      }
+    }
+
+    const result = await requestQualificationVerification({
+      qualificationId,
+      evidenceUrl: evidenceUrl.trim() || undefined,
+      evidenceFileUrl,
+    });
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    setOpen(false);
+    setEvidenceUrl("");
+    setFile(null);
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <BadgeCheck className="h-4 w-4 mr-1" />
+        {status === "REJECTED" ? "Request again" : "Request verification"}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request verification</DialogTitle>
+            <DialogDescription>
+              A moderator will check your evidence and mark the qualification as verified.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {status === "REJECTED" && reviewNote && (
+              <div className="p-3 border border-destructive bg-destructive/10 text-sm">
+                Previous request: {reviewNote}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor={`evidence-url-${qualificationId}`}>Credential URL</Label>
+              <Input
+                id={`evidence-url-${qualificationId}`}
+                placeholder="https://..."
+                value={evidenceUrl}
+                onChange={(e) => setEvidenceUrl(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`evidence-file-${qualificationId}`}>Or upload a certificate</Label>
+              <Input
+                id={`evidence-file-${qualificationId}`}
+                type="file"
+                accept="image/*,application/pdf"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">PDF or image, max 8MB</p>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={isLoading || isUploading || (!evidenceUrl.trim() && !file)}
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Submit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
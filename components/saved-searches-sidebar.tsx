@@ -0,0 +1,235 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Bell, BellOff, Bookmark, Loader2, Trash2 } from "lucide-react";
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  updateSavedSearch,
+} from "@/app/actions/saved-searches";
+import type { SavedSearchFilters } from "@/lib/saved-searches";
+
+export interface SavedSearchItem {
+  id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alertsEnabled: boolean;
+}
+
+interface SavedSearchesSidebarProps {
+  initialSavedSearches: SavedSearchItem[];
+  /** Filters currently applied in the directory */
+  currentFilters: SavedSearchFilters;
+  /** Whether any filter is set; there's nothing to save otherwise */
+  canSave: boolean;
+  onApply: (filters: SavedSearchFilters) => void;
+}
+
+export function SavedSearchesSidebar({
+  initialSavedSearches,
+  currentFilters,
+  canSave,
+  onApply,
+}: SavedSearchesSidebarProps) {
+  const [savedSearches, setSavedSearches] = useState(initialSavedSearches);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Save dialog
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [alertsEnabled, setAlertsEnabled] = useState(false);
+
+  const handleOpenDialog = () => {
+    setName("");
+    setAlertsEnabled(false);
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    const result = await createSavedSearch({ name, filters: currentFilters, alertsEnabled });
+
+    setIsSaving(false);
+
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+
+    if (result.savedSearch) {
+      setSavedSearches((prev) => [result.savedSearch!, ...prev]);
+    }
+    setIsDialogOpen(false);
+  };
+
+  const handleToggleAlerts = async (savedSearch: SavedSearchItem) => {
+    setPendingId(savedSearch.id);
+    setError(null);
+
+    const result = await updateSavedSearch({
+      id: savedSearch.id,
+      alertsEnabled: !savedSearch.alertsEnabled,
+    });
+
+    setPendingId(null);
+
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+
+    setSavedSearches((prev) =>
+      prev.map((item) =>
+        item.id === savedSearch.id ? { ...item, alertsEnabled: !savedSearch.alertsEnabled } : item
+      )
+    );
+  };
+
+  const handleDelete = async (savedSearch: SavedSearchItem) => {
+    if (!confirm(`Delete the saved search "${savedSearch.name}"?`)) {
+      return;
+    }
+
+    setPendingId(savedSearch.id);
+    setError(null);
+
+    const result = await deleteSavedSearch(savedSearch.id);
+
+    setPendingId(null);
+
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+
+    setSavedSearches((prev) => prev.filter((item) => item.id !== savedSearch.id));
+  };
+
+  return (
+    <Card className="p-4 bg-black border-neutral-800 space-y-3">
+      <h3 className="font-semibold text-white">Saved searches</h3>
+
+      {savedSearches.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Set some filters and save them to re-run the search later.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {savedSearches.map((savedSearch) => (
+            <li key={savedSearch.id} className="flex items-center gap-1">
+              <button
+                onClick={() => onApply(savedSearch.filters)}
+                className="flex-1 min-w-0 truncate text-left text-sm text-gray-300 hover:text-white hover:underline"
+              >
+                {savedSearch.name}
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-gray-400"
+                disabled={pendingId === savedSearch.id}
+                onClick={() => handleToggleAlerts(savedSearch)}
+                title={
+                  savedSearch.alertsEnabled
+                    ? "Alerts on: you're notified about new matches"
+                    : "Alerts off"
+                }
+              >
+                {savedSearch.alertsEnabled ? (
+                  <Bell className="h-4 w-4 text-white" />
+                ) : (
+                  <BellOff className="h-4 w-4" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-gray-400"
+                disabled={pendingId === savedSearch.id}
+                onClick={() => handleDelete(savedSearch)}
+                title="Delete"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && !isDialogOpen && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full border-neutral-800"
+        disabled={!canSave}
+        onClick={handleOpenDialog}
+      >
+        <Bookmark className="h-4 w-4 mr-2" />
+        Save current search
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save search</DialogTitle>
+            <DialogDescription>
+              Re-run these filters from the sidebar, and optionally get notified when new members
+              match them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name *</Label>
+              <Input
+                id="saved-search-name"
+                placeholder="e.g. React developers in Berlin"
+                maxLength={60}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="saved-search-alerts"
+                checked={alertsEnabled}
+                onChange={(e) => setAlertsEnabled(e.target.checked)}
+                className="rounded border-neutral-700"
+              />
+              <Label htmlFor="saved-search-alerts" className="font-normal cursor-pointer">
+                Alert me about new matches
+              </Label>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -11,6 +11,7 @@ import { Label } from "../ui/label";
 import { Textarea } from "../ui/textarea";
 import { useRouter } from "next/navigation";
 import { z } from "zod";
+import { RequestVerificationButton, VerificationBadge } from "../qualification-verification";
 
 type QualificationForm = z.infer<typeof qualificationSchema>;
 
@@ -55,13 +56,23 @@ export function QualificationsSection({ qualifications }: { qualifications: any[
           <div key={qual.id} className="border border-white p-4">
             <div className="flex items-start justify-between mb-2">
               <div>
-                <h3 className="font-bold">{qual.title}</h3>
+                <div className="flex items-center gap-2">
+                  <h3 className="font-bold">{qual.title}</h3>
+                  <VerificationBadge status={qual.verificationStatus} showAll />
+                </div>
                 {qual.institution && <p className="text-sm opacity-75">{qual.institution}</p>}
                 {qual.year && <p className="text-sm opacity-75">{qual.year}</p>}
               </div>
-              <Button variant="destructive" onClick={() => handleDelete(qual.id)}>
-                Delete
-              </Button>
+              <div className="flex gap-2">
+                <RequestVerificationButton
+                  qualificationId={qual.id}
+                  status={qual.verificationStatus}
+                  reviewNote={qual.reviewNote}
+                />
+                <Button variant="destructive" onClick={() => handleDelete(qual.id)}>
+                  Delete
+                </Button>
+              </div>
             </div>
             {qual.description && <p className="text-sm">{qual.description}</p>}
           </div>
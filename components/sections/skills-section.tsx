@@ -5,6 +5,7 @@ import { removeSkill } from "@/app/actions/profile";
 import { Button } from "../ui/button";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { SkillEndorsements } from "../skill-endorsements";
 
 export function SkillsSection({ skills }: { skills: any[] }) {
   const router = useRouter();
@@ -35,6 +36,11 @@ export function SkillsSection({ skills }: { skills: any[] }) {
           skills.map((skill) => (
             <div key={skill.id} className="border border-white px-3 py-1 flex items-center gap-2">
               <span>{skill.skillTag?.name || skill.name}</span>
+              <SkillEndorsements
+                userSkillId={skill.id}
+                count={skill.endorsementCount ?? 0}
+                endorsers={skill.endorsers ?? []}
+              />
               <button
                 onClick={() => handleDelete(skill.id)}
                 className="text-error"
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Loader2, ThumbsUp } from "lucide-react";
+import { endorseSkill, withdrawEndorsement } from "@/app/actions/endorsements";
+
+interface Endorser {
+  id: string;
+  name: string | null;
+  handle: string | null;
+  avatar: string | null;
+}
+
+interface SkillEndorsementsProps {
+  userSkillId: string;
+  count: number;
+  endorsers: Endorser[];
+  endorsedByViewer?: boolean;
+  /** Whether the viewer may endorse (they follow the member and aren't the owner) */
+  canEndorse?: boolean;
+}
+
+export function SkillEndorsements({
+  userSkillId,
+  count,
+  endorsers,
+  endorsedByViewer = false,
+  canEndorse = false,
+}: SkillEndorsementsProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = endorsedByViewer
+      ? await withdrawEndorsement(userSkillId)
+      : await endorseSkill(userSkillId);
+
+    if (result.error) {
+      setError(result.error);
+    }
+    setIsLoading(false);
+    router.refresh();
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {endorsers.length > 0 && (
+        <div className="flex -space-x-2">
+          {endorsers.map((endorser) => (
+            <Link key={endorser.id} href={`/u/${endorser.handle}`} title={endorser.name || ""}>
+              <Avatar className="h-6 w-6 rounded-full border border-background">
+                <AvatarImage src={endorser.avatar || undefined} alt={endorser.name || "Avatar"} />
+                <AvatarFallback className="rounded-full text-[10px]">
+                  {endorser.name?.[0]?.toUpperCase() || "?"}
+                </AvatarFallback>
+              </Avatar>
+            </Link>
+          ))}
+        </div>
+      )}
+      {count > 0 && (
+        <span className="text-xs text-muted-foreground">
+          {count} endorsement{count === 1 ? "" : "s"}
+        </span>
+      )}
+      {canEndorse && (
+        <Button
+          variant={endorsedByViewer ? "secondary" : "ghost"}
+          size="sm"
+          onClick={handleToggle}
+          disabled={isLoading}
+          title={endorsedByViewer ? "Withdraw endorsement" : "Endorse this skill"}
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <ThumbsUp className={`h-4 w-4 ${endorsedByViewer ? "fill-current" : ""}`} />
+          )}
+        </Button>
+      )}
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  );
+}
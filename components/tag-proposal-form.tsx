@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { DialogFooter } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { proposeTag } from "@/app/actions/tag-proposals";
+
+interface SimilarTag {
+  id: string;
+  name: string;
+  category: string | null;
+  status: "PENDING" | "APPROVED";
+  matchedAlias: string | null;
+}
+
+interface TagProposalFormProps {
+  kind: "skill" | "tool";
+  /** Existing categories, suggested in the category field */
+  categories: string[];
+  /** IDs of tags already on the member's profile */
+  ownedTagIds: string[];
+  /** Called after the proposal is added to the profile */
+  onProposed: () => void;
+  /** Called when the member picks an existing approved tag instead */
+  onSelectExisting: (tagId: string) => void;
+  onCancel: () => void;
+}
+
+export function TagProposalForm({
+  kind,
+  categories,
+  ownedTagIds,
+  onProposed,
+  onSelectExisting,
+  onCancel,
+}: TagProposalFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [similar, setSimilar] = useState<SimilarTag[]>([]);
+  const [form, setForm] = useState({
+    name: "",
+    category: "",
+    description: "",
+    level: "INTERMEDIATE",
+  });
+
+  const label = kind === "skill" ? "Skill" : "Tool";
+
+  const submit = async (name: string, confirmed: boolean) => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await proposeTag({
+      kind,
+      name,
+      category: form.category || undefined,
+      description: form.description || undefined,
+      level: form.level as "BEGINNER" | "INTERMEDIATE" | "ADVANCED" | "EXPERT",
+      confirmed,
+    });
+
+    setIsLoading(false);
+
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+
+    if (result.needsConfirmation && result.similar) {
+      setSimilar(result.similar);
+      return;
+    }
+
+    onProposed();
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Your {kind} is added to your profile right away, but only you can see it until a moderator
+          approves it.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor={`proposed-${kind}-name`}>{label} name *</Label>
+          <Input
+            id={`proposed-${kind}-name`}
+            value={form.name}
+            onChange={(e) => {
+              setForm({ ...form, name: e.target.value });
+              setSimilar([]);
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`proposed-${kind}-category`}>Category</Label>
+          <Input
+            id={`proposed-${kind}-category`}
+            list={`proposed-${kind}-categories`}
+            value={form.category}
+            onChange={(e) => setForm({ ...form, category: e.target.value })}
+          />
+          <datalist id={`proposed-${kind}-categories`}>
+            {categories.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`proposed-${kind}-description`}>Description</Label>
+          <Textarea
+            id={`proposed-${kind}-description`}
+            rows={2}
+            placeholder={`What is this ${kind}? Helps moderators review it.`}
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`proposed-${kind}-level`}>Level</Label>
+          <Select value={form.level} onValueChange={(level) => setForm({ ...form, level })}>
+            <SelectTrigger id={`proposed-${kind}-level`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="BEGINNER">Beginner</SelectItem>
+              <SelectItem value="INTERMEDIATE">Intermediate</SelectItem>
+              <SelectItem value="ADVANCED">Advanced</SelectItem>
+              <SelectItem value="EXPERT">Expert</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {similar.length > 0 && (
+          <div className="space-y-2 rounded-md border border-border p-3">
+            <p className="text-sm font-medium">Did you mean one of these?</p>
+            {similar.map((tag) => (
+              <div key={tag.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {tag.name}
+                  {tag.matchedAlias && (
+                    <span className="text-muted-foreground"> (also called {tag.matchedAlias})</span>
+                  )}
+                  {tag.status === "PENDING" && (
+                    <span className="text-muted-foreground"> · awaiting review</span>
+                  )}
+                </span>
+                {ownedTagIds.includes(tag.id) ? (
+                  <span className="text-xs text-muted-foreground">Already on your profile</span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={() =>
+                      tag.status === "APPROVED" ? onSelectExisting(tag.id) : submit(tag.name, true)
+                    }
+                  >
+                    Use this
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel} disabled={isLoading}>
+          Back
+        </Button>
+        <Button
+          onClick={() => submit(form.name, similar.length > 0)}
+          disabled={isLoading || !form.name.trim()}
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : similar.length > 0 ? (
+            "Propose anyway"
+          ) : (
+            `Propose ${label}`
+          )}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Mail } from "lucide-react";
+import { resendVerificationEmail } from "@/app/actions/auth";
+
+interface VerifyEmailBannerProps {
+  email: string;
+}
+
+export function VerifyEmailBanner({ email }: VerifyEmailBannerProps) {
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setMessage(null);
+    setError(null);
+
+    const result = await resendVerificationEmail();
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setMessage("Verification email sent. Check your inbox.");
+    }
+    setIsSending(false);
+  };
+
+  return (
+    <div className="mb-8 p-4 border border-border bg-muted/40 flex items-start gap-3">
+      <Mail className="h-5 w-5 mt-0.5 shrink-0" />
+      <div className="flex-1 space-y-2">
+        <p className="font-medium">Verify your email address</p>
+        <p className="text-sm text-muted-foreground">
+          We sent a verification link to {email}. You need to verify your email before you can
+          complete your profile.
+        </p>
+        {message && <p className="text-sm">{message}</p>}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+      <Button variant="outline" size="sm" onClick={handleResend} disabled={isSending}>
+        {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Resend email"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+/**
+ * Account Deletion
+ *
+ * Members can delete their account from /me/account. The account is moved to
+ * PENDING_DELETION and every session is revoked; signing back in during the
+ * grace period lets them cancel. Once the grace period has passed, the
+ * account-deletion cron calls purgeDueAccounts(), which tears the account down
+ * across every system:
+ *
+ * 1. Owned projects with other members are transferred to the longest-standing
+ *    admin (or member); projects without other members are deleted along with
+ *    their Matrix room
+ * 2. The user is kicked from the rooms of projects they belong to
+ * 3. DM rooms are deleted from Matrix and the database
+ * 4. The Matrix account is deactivated and erased
+ * 5. UploadThing files they uploaded are deleted (avatar, images of deleted
+ *    projects, encrypted chat attachments)
+ * 6. Reports they filed are kept for moderation but anonymized
+ * 7. The User row is hard-deleted (remaining data cascades)
+ */
+
+import { UTApi } from "uploadthing/server";
+import { prisma } from "@/lib/prisma";
+import { deactivateUser, deleteRoom, kickUser } from "@/lib/matrix/admin";
+
+/** Days between a deletion request and the permanent purge */
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+/** Most accounts purged per cron run */
+const PURGE_BATCH_SIZE = 20;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Extract the UploadThing file key from a file URL
+ * (https://utfs.io/f/<key> or https://<app>.ufs.sh/f/<key>).
+ */
+function getUploadThingKey(url: string | null): string | null {
+  if (!url) return null;
+
+  try {
+    const { hostname, pathname } = new URL(url);
+    if (hostname !== "utfs.io" && !hostname.endsWith(".ufs.sh")) {
+      return null;
+    }
+    const match = pathname.match(/^\/f\/([^/]+)$/);
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run a best-effort external call, logging failures.
+ * Teardown of external systems must not block the database purge.
+ */
+async function bestEffort(label: string, fn: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await fn();
+    return true;
+  } catch (error) {
+    console.error(`[Account Deletion] ${label} failed:`, error);
+    return false;
+  }
+}
+
+// =============================================================================
+// Teardown
+// =============================================================================
+
+/**
+ * Transfer or delete the projects a user owns.
+ *
+ * @returns Project image URLs that belong to deleted projects
+ */
+async function teardownOwnedProjects(userId: string): Promise<string[]> {
+  const projects = await prisma.project.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      imageUrl: true,
+      matrixRoomId: true,
+      members: {
+        where: { userId: { not: userId }, user: { status: "ACTIVE" } },
+        orderBy: { joinedAt: "asc" },
+        select: { id: true, userId: true, role: true },
+      },
+    },
+  });
+
+  const deletedImages: string[] = [];
+
+  for (const project of projects) {
+    const successor =
+      project.members.find((member) => member.role === "ADMIN") ??
+      project.members.find((member) => member.role === "MEMBER") ??
+      project.members[0];
+
+    if (successor) {
+      await prisma.$transaction([
+        prisma.project.update({
+          where: { id: project.id },
+          data: { userId: successor.userId },
+        }),
+        prisma.projectMembership.update({
+          where: { id: successor.id },
+          data: { role: "OWNER" },
+        }),
+      ]);
+      continue;
+    }
+
+    if (project.matrixRoomId) {
+      const roomId = project.matrixRoomId;
+      await bestEffort(`Deleting project room ${roomId}`, () =>
+        deleteRoom(roomId, { message: "Project deleted" })
+      );
+    }
+
+    if (project.imageUrl) {
+      deletedImages.push(project.imageUrl);
+    }
+
+    await prisma.project.delete({ where: { id: project.id } });
+  }
+
+  return deletedImages;
+}
+
+/**
+ * Remove the user from Matrix: project rooms, DM rooms and the account itself.
+ */
+async function teardownMatrix(userId: string, matrixUserId: string | null): Promise<void> {
+  const [memberships, dmRooms] = await Promise.all([
+    prisma.projectMembership.findMany({
+      where: { userId },
+      select: { project: { select: { matrixRoomId: true } } },
+    }),
+    prisma.matrixRoom.findMany({
+      where: { roomType: "dm", OR: [{ userAId: userId }, { userBId: userId }] },
+      select: { id: true, matrixRoomId: true },
+    }),
+  ]);
+
+  if (matrixUserId) {
+    for (const membership of memberships) {
+      const roomId = membership.project.matrixRoomId;
+      if (roomId) {
+        await bestEffort(`Kicking from ${roomId}`, () =>
+          kickUser(roomId, matrixUserId, "Account deleted")
+        );
+      }
+    }
+  }
+
+  for (const room of dmRooms) {
+    await bestEffort(`Deleting DM room ${room.matrixRoomId}`, () =>
+      deleteRoom(room.matrixRoomId, { message: "Account deleted" })
+    );
+  }
+
+  await prisma.matrixRoom.deleteMany({
+    where: { id: { in: dmRooms.map((room) => room.id) } },
+  });
+
+  if (matrixUserId) {
+    await bestEffort(`Deactivating ${matrixUserId}`, () => deactivateUser(matrixUserId, true));
+  }
+}
+
+/**
+ * Delete the user's files from UploadThing.
+ */
+async function teardownUploads(
+  userId: string,
+  avatarUrl: string | null,
+  projectImageUrls: string[]
+): Promise<void> {
+  const uploads = await prisma.uploadedFile.findMany({
+    where: { userId },
+    select: { key: true, url: true, kind: true },
+  });
+
+  // Project images stay with projects that were transferred to another member
+  const deletedImages = new Set(projectImageUrls);
+  const keys = new Set(
+    uploads
+      .filter((upload) => upload.kind !== "project_image" || deletedImages.has(upload.url))
+      .map((upload) => upload.key)
+  );
+
+  // Files uploaded before uploads were tracked
+  for (const url of [avatarUrl, ...projectImageUrls]) {
+    const key = getUploadThingKey(url);
+    if (key) keys.add(key);
+  }
+
+  if (keys.size > 0) {
+    await bestEffort(`Deleting ${keys.size} UploadThing files`, () =>
+      new UTApi().deleteFiles([...keys])
+    );
+  }
+}
+
+/**
+ * Permanently delete an account and everything tied to it.
+ */
+export async function purgeAccount(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, avatar: true, matrixUserId: true },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const deletedProjectImages = await teardownOwnedProjects(user.id);
+  await teardownMatrix(user.id, user.matrixUserId);
+  await teardownUploads(user.id, user.avatar, deletedProjectImages);
+
+  await prisma.$transaction([
+    // Reports stay on record without the reporter's identity
+    prisma.report.updateMany({
+      where: { reporterId: user.id },
+      data: { reporterId: null },
+    }),
+    // Invite codes are disabled and kept without their creator, so the
+    // invite tree and redemption history survive
+    prisma.inviteCode.updateMany({
+      where: { createdById: user.id },
+      data: { createdById: null, enabled: false },
+    }),
+    prisma.user.delete({ where: { id: user.id } }),
+  ]);
+
+  console.log(`[Account Deletion] Purged user ${user.id}`);
+}
+
+/**
+ * Purge accounts whose grace period has ended. Called by the cron route.
+ */
+export async function purgeDueAccounts(): Promise<{ purged: number; failed: number }> {
+  const due = await prisma.user.findMany({
+    where: { status: "PENDING_DELETION", deletionScheduledAt: { lte: new Date() } },
+    orderBy: { deletionScheduledAt: "asc" },
+    take: PURGE_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let purged = 0;
+  let failed = 0;
+
+  for (const { id } of due) {
+    try {
+      await purgeAccount(id);
+      purged++;
+    } catch (error) {
+      console.error(`[Account Deletion] Failed to purge user ${id}:`, error);
+      failed++;
+    }
+  }
+
+  return { purged, failed };
+}
@@ -0,0 +1,103 @@
+/**
+ * Auth Emails
+ *
+ * Emails sent during authentication: magic sign-in links, email address
+ * verification and password resets. Delivered through the configured mail
+ * transport (lib/mail).
+ */
+
+import { prisma } from "@/lib/prisma";
+import { escapeHtml, getAppUrl, sendMail } from "@/lib/mail";
+import { consumeToken, issueToken } from "@/lib/tokens";
+
+/** How long email verification links stay valid */
+const VERIFY_EMAIL_TTL_SECONDS = 24 * 60 * 60;
+
+/** How long password reset links stay valid */
+const PASSWORD_RESET_TTL_SECONDS = 60 * 60;
+
+// =============================================================================
+// Magic Link
+// =============================================================================
+
+/**
+ * Send an Auth.js magic sign-in link.
+ */
+export async function sendMagicLinkEmail(email: string, url: string) {
+  await sendMail({
+    to: email,
+    subject: "Sign in to INSPIRE-LAB",
+    text: `Use this link to sign in to INSPIRE-LAB:\n\n${url}\n\nThe link expires in 15 minutes. If you didn't request it, you can ignore this email.`,
+    html: `<p>Use this link to sign in to INSPIRE-LAB:</p>
+<p><a href="${url}">Sign in</a></p>
+<p style="font-size:12px;color:#666">The link expires in 15 minutes. If you didn't request it, you can ignore this email.</p>`,
+  });
+}
+
+// =============================================================================
+// Email Verification
+// =============================================================================
+
+/**
+ * Email a verification link for a user's address.
+ */
+export async function sendVerificationEmail(user: { email: string; name: string | null }) {
+  const token = await issueToken("verify-email", user.email, VERIFY_EMAIL_TTL_SECONDS);
+  const url = getAppUrl(`/verify-email?token=${token}`);
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email for INSPIRE-LAB",
+    text: `Hi ${user.name || "there"},\n\nConfirm your email address to finish setting up your INSPIRE-LAB account:\n\n${url}\n\nThe link expires in 24 hours.`,
+    html: `<p>Hi ${escapeHtml(user.name || "there")},</p>
+<p>Confirm your email address to finish setting up your INSPIRE-LAB account:</p>
+<p><a href="${url}">Verify email</a></p>
+<p style="font-size:12px;color:#666">The link expires in 24 hours.</p>`,
+  });
+}
+
+/**
+ * Mark the address a verification token was issued for as verified.
+ *
+ * @returns true if the token was valid
+ */
+export async function verifyEmailAddress(token: string): Promise<boolean> {
+  const email = await consumeToken("verify-email", token);
+  if (!email) {
+    return false;
+  }
+
+  const result = await prisma.user.updateMany({
+    where: { email, emailVerified: null },
+    data: { emailVerified: new Date() },
+  });
+
+  // Already-verified addresses still count as success
+  return result.count > 0 || (await prisma.user.count({ where: { email } })) > 0;
+}
+
+// =============================================================================
+// Password Reset
+// =============================================================================
+
+/**
+ * Email a password reset link. Issuing a new link revokes any earlier one.
+ */
+export async function sendPasswordResetEmail(user: {
+  id: string;
+  email: string;
+  name: string | null;
+}) {
+  const token = await issueToken("password-reset", user.id, PASSWORD_RESET_TTL_SECONDS);
+  const url = getAppUrl(`/reset-password?token=${token}`);
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your INSPIRE-LAB password",
+    text: `Hi ${user.name || "there"},\n\nUse this link to choose a new password:\n\n${url}\n\nThe link expires in 1 hour and can only be used once. If you didn't request a reset, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(user.name || "there")},</p>
+<p>Use this link to choose a new password:</p>
+<p><a href="${url}">Reset password</a></p>
+<p style="font-size:12px;color:#666">The link expires in 1 hour and can only be used once. If you didn't request a reset, you can ignore this email.</p>`,
+  });
+}
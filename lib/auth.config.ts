@@ -1,8 +1,37 @@
-import type { NextAuthConfig } from "next-auth";
+import { CredentialsSignin, type NextAuthConfig } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
+import type { EmailConfig } from "next-auth/providers/email";
 import { prisma } from "./prisma";
+import { sendMagicLinkEmail } from "./auth-emails";
+import { verifySecondFactor } from "./two-factor";
+import { authRateLimiter } from "./rate-limit";
+import { createUserSession, revokeUserSession, touchUserSession } from "./sessions";
 import bcrypt from "bcryptjs";
 
+/** Password was correct but the account needs a 2FA code */
+class TwoFactorRequiredError extends CredentialsSignin {
+  code = "2fa_required";
+}
+
+/** The 2FA code (or recovery code) was wrong or already used */
+class InvalidTwoFactorCodeError extends CredentialsSignin {
+  code = "invalid_2fa";
+}
+
+/**
+ * Magic-link sign-in. Links are delivered through the configured mail
+ * transport (Resend, SMTP or console - see lib/mail).
+ */
+const EmailProvider: EmailConfig = {
+  id: "email",
+  type: "email",
+  name: "Email",
+  maxAge: 15 * 60, // 15 minutes
+  async sendVerificationRequest({ identifier, url }) {
+    await sendMagicLinkEmail(identifier, url);
+  },
+};
+
 export const authConfig = {
   session: {
     strategy: "jwt",
@@ -17,6 +46,7 @@ export const authConfig = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        totp: { label: "Authentication code", type: "text" },
       },
       async authorize(credentials) {
         if (!credentials?.email || !credentials?.password) {
@@ -37,6 +67,22 @@ export const authConfig = {
           return null;
         }
 
+        // Second step: accounts with 2FA need a TOTP or recovery code as well
+        if (user.totpEnabledAt) {
+          const code = (credentials.totp as string | undefined)?.trim();
+          if (!code) {
+            throw new TwoFactorRequiredError();
+          }
+
+          if (!authRateLimiter.check(`2fa:${user.id}`).success) {
+            throw new InvalidTwoFactorCodeError();
+          }
+
+          if (!(await verifySecondFactor(user.id, code))) {
+            throw new InvalidTwoFactorCodeError();
+          }
+        }
+
         return {
           id: user.id,
           email: user.email,
@@ -45,12 +91,27 @@ export const authConfig = {
         };
       },
     }),
+    EmailProvider,
   ],
   callbacks: {
+    async signIn({ user, account }) {
+      // Invite-only: magic links can't create accounts, only sign in to existing ones.
+      // They also can't bypass 2FA, so enrolled accounts must use their password.
+      if (account?.provider === "email") {
+        if (!user.email) return false;
+        const existing = await prisma.user.findUnique({
+          where: { email: user.email },
+          select: { id: true, totpEnabledAt: true },
+        });
+        return !!existing && !existing.totpEnabledAt;
+      }
+      return true;
+    },
     async session({ session, token }) {
       if (token && session.user) {
         session.user.id = token.sub!;
         session.user.image = token.picture as string | undefined;
+        session.sessionId = token.sid;
       }
       return session;
     },
@@ -59,7 +120,53 @@ export const authConfig = {
         token.sub = user.id;
         token.picture = user.image;
       }
+
+      if (!token.sub) {
+        return token;
+      }
+
+      const dbUser = await prisma.user.findUnique({
+        where: { id: token.sub },
+        select: {
+          sessionVersion: true,
+          userSessions: {
+            where: { id: token.sid ?? "" },
+            select: { id: true, revokedAt: true, lastSeenAt: true },
+          },
+        },
+      });
+
+      if (!dbUser) {
+        return null;
+      }
+
+      if (user) {
+        token.sessionVersion = dbUser.sessionVersion;
+        token.sid = await createUserSession(user.id!);
+        return token;
+      }
+
+      if ((token.sessionVersion ?? 0) !== dbUser.sessionVersion) {
+        // Sessions issued before a password reset are no longer valid
+        return null;
+      }
+
+      // Signed out from another device, or suspended
+      const userSession = dbUser.userSessions[0];
+      if (!userSession || userSession.revokedAt) {
+        return null;
+      }
+
+      await touchUserSession(userSession.id, userSession.lastSeenAt);
+
       return token;
     },
   },
+  events: {
+    async signOut(message) {
+      if ("token" in message && message.token?.sid) {
+        await revokeUserSession(message.token.sid);
+      }
+    },
+  },
 } satisfies NextAuthConfig;
@@ -0,0 +1,23 @@
+/**
+ * Avatars
+ *
+ * Members pick who sees their avatar with avatarVisibility. Profile owners are
+ * resolved against their followers in getUserProfile(); members listed on
+ * someone else's profile or in their own settings (vouchers, endorsers) only
+ * show an avatar that's public.
+ */
+
+import type { Visibility } from "@prisma/client";
+
+/**
+ * Drop avatarVisibility, hiding the avatar unless it's public or the viewer's
+ * own.
+ */
+export function withVisibleAvatar<
+  T extends { id: string; avatar: string | null; avatarVisibility: Visibility },
+>({ avatarVisibility, ...member }: T, viewerId: string | undefined) {
+  return {
+    ...member,
+    avatar: avatarVisibility === "PUBLIC" || member.id === viewerId ? member.avatar : null,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Data Export Archives
+ *
+ * Builds and stores the JSON archive in the background, then notifies the
+ * owner with a SYSTEM notification.
+ */
+
+import { gzipSync } from "zlib";
+import { prisma } from "@/lib/prisma";
+import { createNotification } from "@/lib/notifications";
+
+/** Days an archive stays available after it's generated */
+export const DATA_EXPORT_RETENTION_DAYS = 7;
+
+/** Minimum hours between export requests */
+export const DATA_EXPORT_COOLDOWN_HOURS = 24;
+
+// =============================================================================
+// Archive
+// =============================================================================
+
+/**
+ * Collect everything stored about a user.
+ */
+async function buildArchive(userId: string) {
+  const [user, chatAuditLogs] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        emailVerified: true,
+        name: true,
+        handle: true,
+        handleChangedAt: true,
+        avatar: true,
+        avatarVisibility: true,
+        roleTitle: true,
+        bio: true,
+        location: true,
+        website: true,
+        matrixUserId: true,
+        status: true,
+        role: true,
+        totpEnabledAt: true,
+        invitedById: true,
+        createdAt: true,
+        updatedAt: true,
+        lastActiveAt: true,
+        links: true,
+        userSkills: {
+          include: {
+            skillTag: { select: { name: true, slug: true } },
+            endorsements: {
+              select: {
+                createdAt: true,
+                endorser: { select: { id: true, handle: true, name: true } },
+              },
+            },
+          },
+        },
+        userTools: { include: { toolTag: { select: { name: true, slug: true } } } },
+        projects: true,
+        qualifications: true,
+        following: {
+          select: {
+            createdAt: true,
+            following: { select: { id: true, handle: true, name: true } },
+          },
+        },
+        followers: {
+          select: {
+            createdAt: true,
+            follower: { select: { id: true, handle: true, name: true } },
+          },
+        },
+        vouchesGiven: {
+          include: { candidate: { select: { id: true, handle: true, name: true } } },
+        },
+        vouchesReceived: {
+          include: { voucher: { select: { id: true, handle: true, name: true } } },
+        },
+        skillEndorsementsGiven: {
+          select: {
+            createdAt: true,
+            userSkill: {
+              select: {
+                skillTag: { select: { name: true } },
+                user: { select: { id: true, handle: true, name: true } },
+              },
+            },
+          },
+        },
+        reportsCreated: {
+          select: {
+            id: true,
+            reportedId: true,
+            reason: true,
+            description: true,
+            status: true,
+            createdAt: true,
+            resolvedAt: true,
+          },
+        },
+        notifications: {
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            type: true,
+            actorId: true,
+            entityType: true,
+            entityId: true,
+            message: true,
+            read: true,
+            emailedAt: true,
+            createdAt: true,
+          },
+        },
+        notificationPreferences: { select: { type: true, channel: true } },
+        savedSearches: {
+          select: { name: true, filters: true, alertsEnabled: true, createdAt: true },
+        },
+        inviteCodesCreated: {
+          include: {
+            redemptions: {
+              select: {
+                redeemedAt: true,
+                redeemedBy: { select: { id: true, handle: true, name: true } },
+              },
+            },
+          },
+        },
+        inviteRedemptions: {
+          select: { redeemedAt: true, inviteCode: { select: { code: true, createdById: true } } },
+        },
+        projectMemberships: {
+          select: {
+            role: true,
+            joinedAt: true,
+            project: { select: { id: true, title: true, userId: true } },
+          },
+        },
+        handleHistory: { select: { handle: true, releasedAt: true } },
+        userSessions: {
+          select: {
+            userAgent: true,
+            ip: true,
+            createdAt: true,
+            lastSeenAt: true,
+            revokedAt: true,
+          },
+        },
+        uploadedFiles: { select: { url: true, kind: true, createdAt: true } },
+      },
+    }),
+    prisma.chatAuditLog.findMany({
+      where: { OR: [{ actorUserId: userId }, { targetUserId: userId }] },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  const { userSessions, uploadedFiles, ...profile } = user;
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user: profile,
+    sessions: userSessions,
+    uploads: uploadedFiles,
+    chatAuditLogs,
+  };
+}
+
+/**
+ * Generate a pending export and notify its owner.
+ * Runs in the background; failures are recorded on the export.
+ */
+export async function generateDataExport(exportId: string): Promise<void> {
+  const dataExport = await prisma.dataExport.update({
+    where: { id: exportId },
+    data: { status: "PROCESSING" },
+    select: { id: true, userId: true },
+  });
+
+  try {
+    const json = JSON.stringify(await buildArchive(dataExport.userId), null, 2);
+    const now = new Date();
+
+    await prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: {
+        status: "READY",
+        archive: gzipSync(json),
+        sizeBytes: Buffer.byteLength(json),
+        completedAt: now,
+        expiresAt: new Date(now.getTime() + DATA_EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    await createNotification({
+      userId: dataExport.userId,
+      type: "SYSTEM",
+      entityType: "data_export",
+      entityId: dataExport.id,
+      message: `Your data export is ready. It can be downloaded for ${DATA_EXPORT_RETENTION_DAYS} days.`,
+    });
+  } catch (error) {
+    console.error(`[Data Export] Failed to generate export ${dataExport.id}:`, error);
+
+    await prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: { status: "FAILED", error: error instanceof Error ? error.message : "Unknown error" },
+    });
+
+    await createNotification({
+      userId: dataExport.userId,
+      type: "SYSTEM",
+      message: "Your data export couldn't be generated. Please try again.",
+    });
+  }
+}
+
+/**
+ * Delete archives past their retention window. Called by the data-exports cron.
+ */
+export async function purgeExpiredDataExports(): Promise<number> {
+  const result = await prisma.dataExport.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+  return result.count;
+}
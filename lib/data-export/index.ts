@@ -0,0 +1,15 @@
+/**
+ * Personal Data Export
+ *
+ * Members can download a JSON archive of everything we hold about them.
+ * Archives are generated in the background (after the request that asked
+ * for them), stored gzipped on DataExport, and announced with a SYSTEM
+ * notification. Downloads use signed, expiring links so they work from the
+ * notification email without exposing other users' archives.
+ *
+ * Secrets are never exported: password hash, TOTP secret, recovery codes,
+ * Matrix credentials and session internals are left out.
+ */
+
+export * from "./archive";
+export * from "./links";
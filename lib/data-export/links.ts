@@ -0,0 +1,61 @@
+/**
+ * Data Export Downloads
+ *
+ * Signed, expiring download links. Kept separate from archive generation so
+ * the notification service can build links without a circular import.
+ */
+
+import { gunzipSync } from "zlib";
+import { prisma } from "@/lib/prisma";
+import { createSignedToken, verifySignedToken } from "@/lib/signed-token";
+
+/** Lifetime of a signed download link */
+const DOWNLOAD_LINK_TTL_SECONDS = 24 * 60 * 60;
+
+interface DownloadTokenPayload {
+  purpose: "data-export";
+  exportId: string;
+  userId: string;
+}
+
+/**
+ * Build a signed, expiring download URL path for an export.
+ */
+export function getDataExportDownloadPath(exportId: string, userId: string): string {
+  const token = createSignedToken<DownloadTokenPayload>(
+    { purpose: "data-export", exportId, userId },
+    DOWNLOAD_LINK_TTL_SECONDS
+  );
+  return `/api/exports/${exportId}?token=${token}`;
+}
+
+/**
+ * Load an export's JSON for a signed download link.
+ *
+ * @returns The archive, or null if the link is invalid or the export expired
+ */
+export async function readDataExport(
+  exportId: string,
+  token: string
+): Promise<{ json: Buffer; completedAt: Date } | null> {
+  const payload = verifySignedToken<DownloadTokenPayload>(token);
+  if (!payload || payload.purpose !== "data-export" || payload.exportId !== exportId) {
+    return null;
+  }
+
+  const dataExport = await prisma.dataExport.findFirst({
+    where: {
+      id: exportId,
+      userId: payload.userId,
+      status: "READY",
+      expiresAt: { gt: new Date() },
+    },
+    select: { archive: true, completedAt: true },
+  });
+
+  if (!dataExport?.archive || !dataExport.completedAt) {
+    return null;
+  }
+
+  return { json: gunzipSync(dataExport.archive), completedAt: dataExport.completedAt };
+}
@@ -0,0 +1,128 @@
+/**
+ * Directory Facets
+ *
+ * Counts for the directory filter panel: how many members each skill, tool,
+ * location and the active-project filter would return for the current query.
+ * All counts come from one query.
+ *
+ * Each facet is counted with every filter except its own, so selecting
+ * another skill shows how many members have it rather than 0 (skills and
+ * tools match any selected tag). Locations are the exception: the location
+ * text narrows its own suggestions, so typing "lon" lists London.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  activeProjectSql,
+  directoryFilterSql,
+  type DirectoryFilters,
+} from "@/lib/directory-filters";
+import { searchMatchSql } from "@/lib/directory-search";
+
+export interface FacetCount {
+  id: string;
+  name: string;
+  count: number;
+}
+
+export interface LocationFacetCount {
+  name: string;
+  count: number;
+}
+
+export interface DirectoryFacets {
+  /** Members matching every filter */
+  total: number;
+  /** Every approved skill with results; ones not listed would return no one */
+  skills: FacetCount[];
+  /** Every approved tool with results */
+  tools: FacetCount[];
+  /** Most common locations, as most members wrote them */
+  locations: LocationFacetCount[];
+  /** Members with an active project */
+  activeProjectCount: number;
+}
+
+/** Most locations suggested; tags are all counted, bounded by the taxonomy */
+const LOCATION_FACET_LIMIT = 8;
+
+/**
+ * Count facets over active members other than the viewer, limited to those
+ * matching `search` when set.
+ */
+export async function getDirectoryFacets(
+  viewerId: string,
+  filters: DirectoryFilters,
+  search?: string
+): Promise<DirectoryFacets> {
+  const conditions = directoryFilterSql(filters);
+  const [row] = await prisma.$queryRaw<
+    Array<{
+      total: number;
+      skills: FacetCount[] | null;
+      tools: FacetCount[] | null;
+      locations: LocationFacetCount[] | null;
+      activeProjectCount: number;
+    }>
+  >`
+    WITH candidates AS (
+      SELECT u.id,
+             u.location,
+             ${conditions.skillTagIds} AS "skillMatch",
+             ${conditions.toolTagIds} AS "toolMatch",
+             ${conditions.location} AS "locationMatch",
+             ${conditions.hasActiveProject} AS "activeProjectMatch",
+             ${activeProjectSql} AS "hasActiveProject"
+        FROM "User" u
+       WHERE u.status = 'ACTIVE'
+         AND u.id <> ${viewerId}
+         ${search ? Prisma.sql`AND ${searchMatchSql(search)}` : Prisma.empty}
+    )
+    SELECT
+      (SELECT COUNT(*)::int FROM candidates c
+        WHERE "skillMatch" AND "toolMatch" AND "locationMatch" AND "activeProjectMatch"
+      ) AS total,
+      (SELECT json_agg(s) FROM (
+         SELECT st.id, st.name, COUNT(*)::int AS count
+           FROM candidates c
+           JOIN "UserSkill" us ON us."userId" = c.id
+           JOIN "SkillTag" st ON st.id = us."skillTagId"
+          WHERE st.status = 'APPROVED'
+            AND "toolMatch" AND "locationMatch" AND "activeProjectMatch"
+          GROUP BY st.id
+          ORDER BY count DESC, st.name
+      ) s) AS skills,
+      (SELECT json_agg(t) FROM (
+         SELECT tt.id, tt.name, COUNT(*)::int AS count
+           FROM candidates c
+           JOIN "UserTool" ut ON ut."userId" = c.id
+           JOIN "ToolTag" tt ON tt.id = ut."toolTagId"
+          WHERE tt.status = 'APPROVED'
+            AND "skillMatch" AND "locationMatch" AND "activeProjectMatch"
+          GROUP BY tt.id
+          ORDER BY count DESC, tt.name
+      ) t) AS tools,
+      (SELECT json_agg(l) FROM (
+         SELECT mode() WITHIN GROUP (ORDER BY btrim(c.location)) AS name,
+                COUNT(*)::int AS count
+           FROM candidates c
+          WHERE btrim(c.location) <> ''
+            AND "skillMatch" AND "toolMatch" AND "locationMatch" AND "activeProjectMatch"
+          GROUP BY lower(btrim(c.location))
+          ORDER BY count DESC, name
+          LIMIT ${LOCATION_FACET_LIMIT}
+      ) l) AS locations,
+      (SELECT COUNT(*)::int FROM candidates c
+        WHERE "hasActiveProject" AND "skillMatch" AND "toolMatch" AND "locationMatch"
+      ) AS "activeProjectCount"
+  `;
+
+  return {
+    total: row.total,
+    skills: row.skills ?? [],
+    tools: row.tools ?? [],
+    locations: row.locations ?? [],
+    activeProjectCount: row.activeProjectCount,
+  };
+}
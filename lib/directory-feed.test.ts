@@ -0,0 +1,243 @@
+/**
+ * Pages through a seeded directory in every sort and checks that paging never
+ * repeats or skips a member. Needs a database with the schema pushed
+ * (npm run db:push), so it's skipped unless DATABASE_URL is set. Seeded rows
+ * carry a unique token, are scoped by their own skill tag and are removed
+ * afterwards.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SkillLevel, UserStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getDirectoryFeed, type FeedFilters } from "@/lib/directory-feed";
+import { FeedCursorError, compareFeedPositions } from "@/lib/feed-cursor";
+
+const token = `feedtest${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+const MEMBER_COUNT = 13;
+const LEVELS: SkillLevel[] = ["BEGINNER", "INTERMEDIATE", "ADVANCED", "EXPERT"];
+
+interface SeededMember {
+  id: string;
+  createdAt: Date;
+  followed: boolean;
+  /** Expected search rank when searching for the token; 0 if they don't match */
+  searchRank: number;
+}
+
+let skillTagId: string;
+let viewerId: string;
+let members: SeededMember[];
+let hiddenIds: string[];
+
+async function createMember(
+  index: number,
+  status: UserStatus,
+  createdAt: Date,
+  profile: { name: string; roleTitle?: string; bio?: string }
+) {
+  const user = await prisma.user.create({
+    data: {
+      email: `${token}-${index}@example.test`,
+      ...profile,
+      status,
+      createdAt,
+      userSkills: { create: { skillTagId, level: LEVELS[index % LEVELS.length] } },
+    },
+    select: { id: true },
+  });
+  return user.id;
+}
+
+/** Follow every page's cursor to the end, returning member ids in display order */
+async function pageThrough(filters: FeedFilters, limit: number): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+
+  for (let pages = 0; pages < 50; pages++) {
+    const result = await getDirectoryFeed(viewerId, {
+      ...filters,
+      skillTagIds: [skillTagId],
+      cursor,
+      limit,
+    });
+    assert.ok(result.tiles.length <= limit);
+    ids.push(...result.tiles.map((tile) => tile.id));
+
+    if (!result.nextCursor) {
+      assert.equal(result.hasMore, false);
+      return ids;
+    }
+    assert.equal(result.hasMore, true);
+    cursor = result.nextCursor;
+  }
+
+  throw new Error("Paging didn't finish");
+}
+
+/** Page in several sizes and check each run returns `expected` exactly once each */
+async function assertPagesThrough(filters: FeedFilters, expected: string[]) {
+  for (const limit of [1, 2, 4, 5, MEMBER_COUNT + 1]) {
+    const ids = await pageThrough(filters, limit);
+    assert.equal(new Set(ids).size, ids.length, `duplicates with limit ${limit}`);
+    assert.ok(!ids.includes(viewerId), `viewer listed with limit ${limit}`);
+    assert.ok(!ids.some((id) => hiddenIds.includes(id)), `inactive member with limit ${limit}`);
+    assert.deepEqual(ids, expected, `order with limit ${limit}`);
+  }
+}
+
+function newestFirst(list: SeededMember[]): string[] {
+  return list
+    .map((member) => ({ key: [member.createdAt.getTime()], id: member.id }))
+    .sort(compareFeedPositions)
+    .map((position) => position.id);
+}
+
+function bestMatchFirst(list: SeededMember[]): string[] {
+  return list
+    .map((member) => ({ key: [member.searchRank], id: member.id }))
+    .sort(compareFeedPositions)
+    .map((position) => position.id);
+}
+
+function followedFirst(list: SeededMember[]): string[] {
+  return list
+    .map((member) => ({
+      key: [member.followed ? 1 : 0, member.createdAt.getTime()],
+      id: member.id,
+    }))
+    .sort(compareFeedPositions)
+    .map((position) => position.id);
+}
+
+describe("getDirectoryFeed", { skip: !process.env.DATABASE_URL && "DATABASE_URL not set" }, () => {
+  before(async () => {
+    const skillTag = await prisma.skillTag.create({
+      // Named apart from the token so searching doesn't match every member by skill
+      data: { name: `Paging ${Math.random().toString().slice(2, 10)}`, slug: token },
+      select: { id: true },
+    });
+    skillTagId = skillTag.id;
+
+    const base = Date.UTC(2025, 0, 1);
+    viewerId = await createMember(0, "ACTIVE", new Date(base), { name: `${token} viewer` });
+
+    // Members join in threes at the same instant, so pages split ties. Odd
+    // members match the token in their name (rank 1) or role title (0.8), and
+    // some in their bio too (+0.05); several share a rank.
+    members = [];
+    for (let i = 1; i <= MEMBER_COUNT; i++) {
+      const createdAt = new Date(base - Math.floor(i / 3) * 60_000);
+      const inName = i % 4 === 1;
+      const inRoleTitle = i % 4 === 3;
+      const inBio = (inName || inRoleTitle) && i % 3 === 0;
+      const id = await createMember(i, "ACTIVE", createdAt, {
+        name: inName ? `${token} member ${i}` : `Member ${i}`,
+        roleTitle: inRoleTitle ? `${token} engineer` : undefined,
+        bio: inBio ? `Ask me about ${token}` : undefined,
+      });
+      const searchRank = (inName ? 1 : inRoleTitle ? 0.8 : 0) + (inBio ? 0.05 : 0);
+      members.push({ id, createdAt, followed: i % 4 === 0, searchRank });
+    }
+
+    await prisma.follow.createMany({
+      data: members
+        .filter((member) => member.followed)
+        .map((member) => ({ followerId: viewerId, followingId: member.id })),
+    });
+
+    // Matching but not ACTIVE: never listed
+    hiddenIds = [
+      await createMember(MEMBER_COUNT + 1, "SUSPENDED", new Date(base), {
+        name: `${token} suspended`,
+      }),
+      await createMember(MEMBER_COUNT + 2, "PENDING", new Date(base), { name: `${token} pending` }),
+    ];
+  });
+
+  after(async () => {
+    await prisma.user.deleteMany({ where: { email: { startsWith: `${token}-` } } });
+    await prisma.skillTag.deleteMany({ where: { slug: token } });
+    await prisma.$disconnect();
+  });
+
+  it("pages newest first", async () => {
+    await assertPagesThrough({ sortBy: "newest" }, newestFirst(members));
+  });
+
+  it("pages followed members first, then newest first", async () => {
+    await assertPagesThrough({ sortBy: "following" }, followedFirst(members));
+  });
+
+  it("pages by relevance", async () => {
+    const { tiles } = await getDirectoryFeed(viewerId, {
+      sortBy: "relevance",
+      skillTagIds: [skillTagId],
+      limit: MEMBER_COUNT + 1,
+    });
+    const ranked = tiles.map((tile) => tile.id);
+    assert.deepEqual(new Set(ranked), new Set(members.map((member) => member.id)));
+
+    await assertPagesThrough({ sortBy: "relevance" }, ranked);
+  });
+
+  it("ranks search results by best match", async () => {
+    const matching = members.filter((member) => member.searchRank > 0);
+
+    await assertPagesThrough({ sortBy: "match", search: token }, bestMatchFirst(matching));
+  });
+
+  it("falls back to newest for best match without a search", async () => {
+    await assertPagesThrough({ sortBy: "match" }, newestFirst(members));
+  });
+
+  it("keeps newest and following order when searching", async () => {
+    const matching = members.filter((member) => member.searchRank > 0);
+
+    await assertPagesThrough({ sortBy: "newest", search: token }, newestFirst(matching));
+    await assertPagesThrough({ sortBy: "following", search: token }, followedFirst(matching));
+  });
+
+  it("counts and highlights every search match", async () => {
+    const { tiles, facets } = await getDirectoryFeed(viewerId, {
+      search: token,
+      skillTagIds: [skillTagId],
+      limit: MEMBER_COUNT + 1,
+    });
+
+    assert.equal(facets?.total, members.filter((member) => member.searchRank > 0).length);
+    assert.ok(tiles.every((tile) => tile.searchHighlight));
+  });
+
+  it("pages search results by relevance", async () => {
+    const { tiles } = await getDirectoryFeed(viewerId, {
+      sortBy: "relevance",
+      search: token,
+      skillTagIds: [skillTagId],
+      limit: MEMBER_COUNT + 1,
+    });
+    const ranked = tiles.map((tile) => tile.id);
+    assert.deepEqual(
+      new Set(ranked),
+      new Set(members.filter((member) => member.searchRank > 0).map((member) => member.id))
+    );
+
+    await assertPagesThrough({ sortBy: "relevance", search: token }, ranked);
+  });
+
+  it("rejects a cursor from another sort", async () => {
+    const { nextCursor } = await getDirectoryFeed(viewerId, {
+      sortBy: "newest",
+      skillTagIds: [skillTagId],
+      limit: 1,
+    });
+    assert.ok(nextCursor);
+
+    for (const filters of [{ sortBy: "following" as const }, { search: token }]) {
+      await assert.rejects(
+        getDirectoryFeed(viewerId, { ...filters, skillTagIds: [skillTagId], cursor: nextCursor }),
+        FeedCursorError
+      );
+    }
+  });
+});
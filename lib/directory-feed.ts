@@ -0,0 +1,315 @@
+/**
+ * Directory Feed
+ *
+ * The member directory behind getFeed(): filtered, sorted pages of member
+ * tiles for a viewer, with filter counts on the first page. Newest and
+ * following page with a database keyset on createdAt, where a search term only
+ * narrows the members; relevance is ranked by lib/directory-relevance.ts; and
+ * best match orders search results by their search rank.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { searchDirectory, searchMatchSql, type DirectorySearchMatch } from "@/lib/directory-search";
+import { rankByRelevance } from "@/lib/directory-relevance";
+import { getDirectoryFacets } from "@/lib/directory-facets";
+import { directoryFilterSql } from "@/lib/directory-filters";
+import {
+  compareFeedPositions,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  isAfterCursor,
+  type FeedCursor,
+  type FeedMode,
+  type FeedPosition,
+  type FeedSort,
+} from "@/lib/feed-cursor";
+
+export interface FeedFilters {
+  search?: string;
+  skillTagIds?: string[];
+  toolTagIds?: string[];
+  location?: string;
+  hasActiveProject?: boolean;
+  sortBy?: FeedSort;
+  cursor?: string;
+  limit?: number;
+}
+
+/** Featured skills and tools shown on tiles */
+const featuredSkillsSelect = {
+  where: { featured: true, skillTag: { status: "APPROVED" } },
+  take: 3,
+  select: {
+    id: true,
+    level: true,
+    skillTag: {
+      select: {
+        id: true,
+        name: true,
+        category: true,
+      },
+    },
+    _count: {
+      select: { endorsements: { where: { endorser: { status: "ACTIVE" } } } },
+    },
+  },
+  orderBy: { createdAt: "desc" },
+} satisfies Prisma.User$userSkillsArgs;
+
+const featuredToolsSelect = {
+  where: { featured: true, toolTag: { status: "APPROVED" } },
+  take: 5,
+  select: {
+    id: true,
+    toolTag: {
+      select: {
+        id: true,
+        name: true,
+      },
+    },
+  },
+  orderBy: { createdAt: "desc" },
+} satisfies Prisma.User$userToolsArgs;
+
+/**
+ * Page through members newest first with a database keyset on (createdAt, id).
+ *
+ * Segments are paged one after another, each with a fixed key prefix. The
+ * following sort uses two: members the viewer follows ([1]), then everyone
+ * else ([0]).
+ */
+async function pageByCreatedAt(
+  segments: Array<{ prefix: number[]; where: Prisma.Sql }>,
+  cursor: FeedCursor | null,
+  limit: number
+): Promise<{ page: FeedPosition[]; hasMore: boolean }> {
+  const page: FeedPosition[] = [];
+
+  for (const segment of segments) {
+    let after = Prisma.sql`TRUE`;
+    if (cursor) {
+      const order = compareFeedPositions(
+        { key: segment.prefix, id: "" },
+        { key: cursor.key.slice(0, segment.prefix.length), id: "" }
+      );
+      // Skip segments the cursor has already passed
+      if (order < 0) {
+        continue;
+      }
+      // Continue after the cursor within its own segment. createdAt is stored
+      // as UTC without a time zone, so compare it as such.
+      if (order === 0) {
+        const createdAt = new Date(cursor.key[segment.prefix.length]).toISOString().slice(0, -1);
+        after = Prisma.sql`(u."createdAt" < ${createdAt}::timestamp
+          OR (u."createdAt" = ${createdAt}::timestamp AND u.id < ${cursor.id}))`;
+      }
+    }
+
+    const rows = await prisma.$queryRaw<Array<{ id: string; createdAt: number }>>`
+      SELECT u.id, (extract(epoch FROM u."createdAt") * 1000)::float8 AS "createdAt"
+        FROM "User" u
+       WHERE ${segment.where} AND ${after}
+       ORDER BY u."createdAt" DESC, u.id DESC
+       LIMIT ${limit + 1 - page.length}
+    `;
+
+    page.push(...rows.map((row) => ({ key: [...segment.prefix, row.createdAt], id: row.id })));
+
+    if (page.length > limit) {
+      break;
+    }
+  }
+
+  return { page: page.slice(0, limit), hasMore: page.length > limit };
+}
+
+/**
+ * Get a page of the directory for a viewer: active members other than them.
+ *
+ * @throws FeedCursorError if `filters.cursor` is malformed or from another sort
+ */
+export async function getDirectoryFeed(viewerId: string, filters: FeedFilters = {}) {
+  const {
+    search,
+    skillTagIds = [],
+    toolTagIds = [],
+    location,
+    hasActiveProject,
+    sortBy: requestedSort = "newest",
+    cursor,
+    limit = 20,
+  } = filters;
+
+  // Best match needs a search to rank by
+  const sortBy = requestedSort === "match" && !search ? "newest" : requestedSort;
+
+  // Cursors only continue the sort they came from
+  const mode: FeedMode = search ? `${sortBy}:search` : sortBy;
+  const after = cursor ? decodeFeedCursor(cursor, mode) : null;
+
+  // Active members other than the viewer, matching every filter
+  const conditions = [
+    Prisma.sql`u.status = 'ACTIVE'`,
+    Prisma.sql`u.id <> ${viewerId}`,
+    ...Object.values(directoryFilterSql({ skillTagIds, toolTagIds, location, hasActiveProject })),
+  ];
+
+  // Ranked sorts use the best search matches; elsewhere every match counts
+  let searchMatches: Map<string, DirectorySearchMatch> | null = null;
+  if (search && (sortBy === "relevance" || sortBy === "match")) {
+    const matches = await searchDirectory(search, { excludeUserId: viewerId });
+    searchMatches = new Map(matches.map((match) => [match.userId, match]));
+  } else if (search) {
+    conditions.push(searchMatchSql(search));
+  }
+  const where = Prisma.join(conditions, " AND ");
+
+  // Filter counts for the first page; later pages share the same query
+  const facets = after
+    ? null
+    : await getDirectoryFacets(
+        viewerId,
+        { skillTagIds, toolTagIds, location, hasActiveProject },
+        search
+      );
+
+  // Find this page's members and their sort keys. Relevance is ranked in the
+  // database; newest and following page with a database keyset, where a
+  // search term only narrows the members; best match is ranked in memory since
+  // there are at most a few hundred matches.
+  let page: FeedPosition[];
+  let hasMore: boolean;
+
+  if (sortBy === "relevance") {
+    ({ page, hasMore } = await rankByRelevance(
+      viewerId,
+      {
+        skillTagIds,
+        toolTagIds,
+        location,
+        hasActiveProject,
+        searchRanks: searchMatches
+          ? new Map([...searchMatches].map(([userId, match]) => [userId, match.rank]))
+          : undefined,
+      },
+      after,
+      limit
+    ));
+  } else if (sortBy === "match" && searchMatches) {
+    const candidates = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT u.id
+        FROM "User" u
+       WHERE ${where} AND u.id = ANY(${[...searchMatches.keys()]}::text[])
+    `;
+    const remaining = candidates
+      .map(
+        (candidate): FeedPosition => ({
+          key: [searchMatches.get(candidate.id)!.rank],
+          id: candidate.id,
+        })
+      )
+      .filter((position) => !after || isAfterCursor(position, after))
+      .sort(compareFeedPositions);
+
+    page = remaining.slice(0, limit);
+    hasMore = remaining.length > limit;
+  } else {
+    const followed = Prisma.sql`EXISTS (SELECT 1 FROM "Follow" f
+      WHERE f."followerId" = ${viewerId} AND f."followingId" = u.id)`;
+
+    ({ page, hasMore } = await pageByCreatedAt(
+      sortBy === "following"
+        ? [
+            { prefix: [1], where: Prisma.sql`${where} AND ${followed}` },
+            { prefix: [0], where: Prisma.sql`${where} AND NOT ${followed}` },
+          ]
+        : [{ prefix: [], where }],
+      after,
+      limit
+    ));
+  }
+
+  // Load tiles for the page, then put them back in sort order
+  const pageIds = page.map((position) => position.id);
+  const order = new Map(pageIds.map((id, index) => [id, index]));
+  const users = (
+    await prisma.user.findMany({
+      where: { id: { in: pageIds } },
+      select: {
+        id: true,
+        name: true,
+        handle: true,
+        avatar: true,
+        roleTitle: true,
+        location: true,
+        createdAt: true,
+        userSkills: featuredSkillsSelect,
+        userTools: featuredToolsSelect,
+        projects: {
+          where: { status: "ACTIVE" },
+          take: 1,
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+      },
+    })
+  ).sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+  // Get viewer's follow relationships for all users in one query
+  const followRelationships = await prisma.follow.findMany({
+    where: {
+      followerId: viewerId,
+      followingId: { in: pageIds },
+    },
+    select: {
+      followingId: true,
+    },
+  });
+
+  const followedUserIds = new Set(followRelationships.map((f) => f.followingId));
+
+  // Where each member matched the search; relevance already has its matches
+  const highlights =
+    searchMatches ??
+    (search
+      ? new Map(
+          (await searchDirectory(search, { userIds: pageIds })).map((match) => [
+            match.userId,
+            match,
+          ])
+        )
+      : null);
+
+  // Map users to feed tiles with viewer state
+  const tiles = users.map((user) => ({
+    id: user.id,
+    name: user.name,
+    handle: user.handle,
+    avatar: user.avatar,
+    roleTitle: user.roleTitle,
+    location: user.location,
+    featuredSkills: user.userSkills.map((us) => ({
+      id: us.id,
+      name: us.skillTag.name,
+      category: us.skillTag.category,
+      level: us.level,
+      endorsementCount: us._count.endorsements,
+    })),
+    featuredTools: user.userTools.map((ut) => ({
+      id: ut.id,
+      name: ut.toolTag.name,
+    })),
+    activeProject: user.projects[0] || null,
+    isFollowing: followedUserIds.has(user.id),
+    searchHighlight: highlights?.get(user.id)?.highlight ?? null,
+  }));
+
+  const last = page[page.length - 1];
+  const nextCursor =
+    hasMore && last ? encodeFeedCursor({ mode, key: last.key, id: last.id }) : null;
+
+  return { tiles, nextCursor, hasMore, facets };
+}
@@ -0,0 +1,43 @@
+/**
+ * Directory Filters
+ *
+ * SQL for the directory feed's filters, shared by the feed, its facet counts
+ * and saved searches: any of the selected skills, any of the selected tools, a
+ * location containing the text, and an active project. Each condition is on
+ * the "User" row aliased as `u`, and is TRUE when its filter isn't set.
+ */
+
+import { Prisma } from "@prisma/client";
+import { escapeLikePattern } from "@/lib/directory-search";
+
+export interface DirectoryFilters {
+  skillTagIds?: string[];
+  toolTagIds?: string[];
+  location?: string;
+  hasActiveProject?: boolean;
+}
+
+export type DirectoryFilterKey = keyof DirectoryFilters;
+
+/** Whether the member `u` has an active project */
+export const activeProjectSql = Prisma.sql`EXISTS (SELECT 1 FROM "Project" p
+  WHERE p."userId" = u.id AND p.status = 'ACTIVE')`;
+
+export function directoryFilterSql(
+  filters: DirectoryFilters
+): Record<DirectoryFilterKey, Prisma.Sql> {
+  return {
+    skillTagIds: filters.skillTagIds?.length
+      ? Prisma.sql`EXISTS (SELECT 1 FROM "UserSkill" us
+          WHERE us."userId" = u.id AND us."skillTagId" = ANY(${filters.skillTagIds}::text[]))`
+      : Prisma.sql`TRUE`,
+    toolTagIds: filters.toolTagIds?.length
+      ? Prisma.sql`EXISTS (SELECT 1 FROM "UserTool" ut
+          WHERE ut."userId" = u.id AND ut."toolTagId" = ANY(${filters.toolTagIds}::text[]))`
+      : Prisma.sql`TRUE`,
+    location: filters.location
+      ? Prisma.sql`u.location ILIKE ${`%${escapeLikePattern(filters.location)}%`}`
+      : Prisma.sql`TRUE`,
+    hasActiveProject: filters.hasActiveProject ? activeProjectSql : Prisma.sql`TRUE`,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Directory Relevance
+ *
+ * Ranks members for the directory's "relevance" sort in the database, so every
+ * candidate is scored, not just one page. A member's score adds up what they
+ * have in common with the viewer: shared skills (weighted by their level and
+ * endorsements), shared tools, mutual follows, shared projects and location,
+ * plus their profile completeness and search rank. Weights live in
+ * lib/relevance-weights.ts.
+ *
+ * Pages continue from a keyset cursor on (score, id).
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { directoryFilterSql, type DirectoryFilters } from "@/lib/directory-filters";
+import type { FeedCursor, FeedPosition } from "@/lib/feed-cursor";
+import { profileCompletenessScoreSql } from "@/lib/profile-completeness";
+import { RELEVANCE_WEIGHTS } from "@/lib/relevance-weights";
+
+export interface RelevanceFilters extends DirectoryFilters {
+  /** Search rank per matching member; only these members are ranked */
+  searchRanks?: Map<string, number>;
+}
+
+/** Scores are rounded so cursors compare equal to the recomputed score */
+const SCORE_DECIMALS = 6;
+
+function weight(value: number): Prisma.Sql {
+  return Prisma.sql`${value}::float8`;
+}
+
+/**
+ * Rank active members other than the viewer by relevance to them and return
+ * the page after `after`, best first.
+ */
+export async function rankByRelevance(
+  viewerId: string,
+  filters: RelevanceFilters,
+  after: FeedCursor | null,
+  limit: number
+): Promise<{ page: FeedPosition[]; hasMore: boolean }> {
+  const w = RELEVANCE_WEIGHTS;
+  const searchRanks = filters.searchRanks ? [...filters.searchRanks] : null;
+
+  const score = Prisma.sql`
+    -- Shared skills, by their level and endorsements
+    COALESCE((
+      SELECT SUM(
+               CASE us.level
+                 WHEN 'BEGINNER' THEN ${weight(w.sharedSkill.BEGINNER)}
+                 WHEN 'INTERMEDIATE' THEN ${weight(w.sharedSkill.INTERMEDIATE)}
+                 WHEN 'ADVANCED' THEN ${weight(w.sharedSkill.ADVANCED)}
+                 WHEN 'EXPERT' THEN ${weight(w.sharedSkill.EXPERT)}
+               END
+               + LEAST((SELECT COUNT(*) FROM "SkillEndorsement" se
+                          JOIN "User" e ON e.id = se."endorserId"
+                         WHERE se."userSkillId" = us.id AND e.status = 'ACTIVE'),
+                       ${w.maxEndorsementsPerSkill}) * ${weight(w.sharedSkillEndorsement)})
+        FROM "UserSkill" us
+        JOIN "SkillTag" st ON st.id = us."skillTagId"
+       WHERE us."userId" = u.id AND st.status = 'APPROVED'
+         AND us."skillTagId" IN (SELECT "skillTagId" FROM "UserSkill" WHERE "userId" = ${viewerId})
+    ), 0)
+    -- Shared tools
+    + (SELECT COUNT(*)
+         FROM "UserTool" ut
+         JOIN "ToolTag" tt ON tt.id = ut."toolTagId"
+        WHERE ut."userId" = u.id AND tt.status = 'APPROVED'
+          AND ut."toolTagId" IN (SELECT "toolTagId" FROM "UserTool" WHERE "userId" = ${viewerId})
+      ) * ${weight(w.sharedTool)}
+    -- Members the viewer follows who follow them
+    + LEAST((SELECT COUNT(*)
+               FROM "Follow" f
+              WHERE f."followingId" = u.id
+                AND f."followerId" IN (SELECT "followingId" FROM "Follow"
+                                        WHERE "followerId" = ${viewerId})),
+            ${w.maxMutualFollows}) * ${weight(w.mutualFollow)}
+    -- Projects they're both on, as owner or member
+    + (SELECT COUNT(*)
+         FROM project_people them
+         JOIN project_people viewer ON viewer."projectId" = them."projectId"
+        WHERE them."userId" = u.id AND viewer."userId" = ${viewerId}
+      ) * ${weight(w.sharedProject)}
+    -- Same location
+    + CASE WHEN lower(btrim(u.location)) = (SELECT lower(btrim(location)) FROM "User"
+                                             WHERE id = ${viewerId})
+           THEN ${weight(w.sameLocation)} ELSE 0 END
+    + ${profileCompletenessScoreSql(Prisma.sql`u`)} / 100 * ${weight(w.completeness)}
+    ${searchRanks ? Prisma.sql`+ sr.rank * ${weight(w.searchRank)}` : Prisma.empty}
+  `;
+
+  const conditions = [
+    Prisma.sql`u.status = 'ACTIVE'`,
+    Prisma.sql`u.id <> ${viewerId}`,
+    ...Object.values(directoryFilterSql(filters)),
+  ];
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; score: number }>>`
+    WITH project_people AS (
+      SELECT "projectId", "userId" FROM "ProjectMembership"
+      UNION
+      SELECT id, "userId" FROM "Project"
+    ),
+    ranked AS (
+      SELECT u.id, round((${score})::numeric, ${SCORE_DECIMALS})::float8 AS score
+        FROM "User" u
+        ${
+          searchRanks
+            ? Prisma.sql`JOIN unnest(${searchRanks.map(([id]) => id)}::text[],
+                                     ${searchRanks.map(([, rank]) => rank)}::float8[])
+                           AS sr("userId", rank) ON sr."userId" = u.id`
+            : Prisma.empty
+        }
+       WHERE ${Prisma.join(conditions, " AND ")}
+    )
+    SELECT id, score
+      FROM ranked
+     ${
+       after
+         ? Prisma.sql`WHERE score < ${weight(after.key[0])}
+                         OR (score = ${weight(after.key[0])} AND id < ${after.id})`
+         : Prisma.empty
+     }
+     ORDER BY score DESC, id DESC
+     LIMIT ${limit + 1}
+  `;
+
+  return {
+    page: rows.slice(0, limit).map((row) => ({ key: [row.score], id: row.id })),
+    hasMore: rows.length > limit,
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Directory Search
+ *
+ * Ranked, typo-tolerant search over member profiles using pg_trgm. A query is
+ * matched against profile text (name, handle, role title, bio), approved
+ * skill and tool names and their aliases, and public project and
+ * qualification titles.
+ *
+ * Each matching field scores its trigram word similarity to the query (1 for
+ * a substring match) times the field's weight. A member's rank is their best
+ * field score plus a small bonus for matching in several places. The best
+ * match is returned as a highlight snippet for the directory tile.
+ *
+ * searchDirectory() ranks the best matches; searchMatchSql() is the same
+ * match as a SQL filter, for queries that need every matching member.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type SearchField =
+  | "name"
+  | "handle"
+  | "roleTitle"
+  | "bio"
+  | "skill"
+  | "tool"
+  | "project"
+  | "qualification";
+
+export interface SearchHighlight {
+  field: SearchField;
+  /** Snippet of the matched text */
+  text: string;
+  /** [start, end) character ranges in `text` to highlight */
+  ranges: Array<[number, number]>;
+}
+
+export interface DirectorySearchMatch {
+  userId: string;
+  rank: number;
+  highlight: SearchHighlight;
+}
+
+/** How much a match in each field counts towards rank */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 1,
+  handle: 1,
+  roleTitle: 0.8,
+  skill: 0.8,
+  tool: 0.7,
+  project: 0.6,
+  qualification: 0.5,
+  bio: 0.5,
+};
+
+/** Bonus per extra matching field, capped at MAX_FIELD_BONUS */
+const FIELD_BONUS = 0.05;
+const MAX_FIELD_BONUS = 0.2;
+
+/** Most matches ranked per search; the long tail isn't worth ranking */
+const MAX_MATCHES = 500;
+
+/** Longest snippet shown for long text like bios and project descriptions */
+const SNIPPET_LENGTH = 140;
+
+/**
+ * Normalize a search query: trim, collapse whitespace and cap the length.
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").slice(0, 100);
+}
+
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Every profile field that matches the search, as ("userId", field, text) rows.
+ */
+function matchingFieldsSql(term: string): Prisma.Sql {
+  const pattern = `%${escapeLikePattern(term)}%`;
+  const matches = (text: Prisma.Sql) =>
+    Prisma.sql`(${text} ILIKE ${pattern} OR ${term} <% ${text})`;
+
+  return Prisma.sql`
+    SELECT u.id AS "userId", 'name' AS field, u.name AS text
+      FROM "User" u WHERE ${matches(Prisma.sql`u.name`)}
+    UNION ALL
+    SELECT u.id, 'handle', u.handle
+      FROM "User" u WHERE ${matches(Prisma.sql`u.handle`)}
+    UNION ALL
+    SELECT u.id, 'roleTitle', u."roleTitle"
+      FROM "User" u WHERE ${matches(Prisma.sql`u."roleTitle"`)}
+    UNION ALL
+    SELECT u.id, 'bio', u.bio
+      FROM "User" u WHERE ${matches(Prisma.sql`u.bio`)}
+    UNION ALL
+    SELECT us."userId", 'skill', st.name
+      FROM "UserSkill" us
+      JOIN "SkillTag" st ON st.id = us."skillTagId"
+     WHERE st.status = 'APPROVED'
+       AND (${matches(Prisma.sql`st.name`)}
+            OR EXISTS (SELECT 1 FROM "SkillTagAlias" a
+                        WHERE a."skillTagId" = st.id AND ${matches(Prisma.sql`a.name`)}))
+    UNION ALL
+    SELECT ut."userId", 'tool', tt.name
+      FROM "UserTool" ut
+      JOIN "ToolTag" tt ON tt.id = ut."toolTagId"
+     WHERE tt.status = 'APPROVED'
+       AND (${matches(Prisma.sql`tt.name`)}
+            OR EXISTS (SELECT 1 FROM "ToolTagAlias" a
+                        WHERE a."toolTagId" = tt.id AND ${matches(Prisma.sql`a.name`)}))
+    UNION ALL
+    SELECT p."userId", 'project', p.title
+      FROM "Project" p
+     WHERE p.visibility = 'PUBLIC' AND ${matches(Prisma.sql`p.title`)}
+    UNION ALL
+    SELECT p."userId", 'project', p.description
+      FROM "Project" p
+     WHERE p.visibility = 'PUBLIC' AND ${matches(Prisma.sql`p.description`)}
+    UNION ALL
+    SELECT q."userId", 'qualification', q.title
+      FROM "Qualification" q
+     WHERE q.visibility = 'PUBLIC' AND ${matches(Prisma.sql`q.title`)}
+  `;
+}
+
+/**
+ * Whether the member `u` matches the search, with no cap on how many do.
+ * Nothing matches an empty query.
+ */
+export function searchMatchSql(query: string): Prisma.Sql {
+  const term = normalizeSearchQuery(query);
+  if (!term) {
+    return Prisma.sql`FALSE`;
+  }
+
+  return Prisma.sql`u.id IN (SELECT m."userId" FROM (${matchingFieldsSql(term)}) m)`;
+}
+
+/**
+ * Search active members, best match first.
+ *
+ * Only the best MAX_MATCHES are returned, which suits a ranked list; filter
+ * with searchMatchSql() where every match counts. With `userIds`, only those
+ * members are searched (e.g. for a page's highlights) and none are left out.
+ */
+export async function searchDirectory(
+  query: string,
+  options: { excludeUserId?: string; userIds?: string[] } = {}
+): Promise<DirectorySearchMatch[]> {
+  const term = normalizeSearchQuery(query);
+  if (!term) {
+    return [];
+  }
+
+  const pattern = `%${escapeLikePattern(term)}%`;
+  const { excludeUserId, userIds } = options;
+
+  const rows = await prisma.$queryRaw<
+    Array<{ userId: string; field: SearchField; text: string; score: number }>
+  >`
+    SELECT m."userId", m.field, m.text,
+           (CASE WHEN m.text ILIKE ${pattern} THEN 1 ELSE word_similarity(${term}, m.text) END)::float8 AS score
+      FROM (${matchingFieldsSql(term)}) m
+      JOIN "User" u ON u.id = m."userId"
+     WHERE u.status = 'ACTIVE'
+       ${excludeUserId ? Prisma.sql`AND u.id <> ${excludeUserId}` : Prisma.empty}
+       ${userIds ? Prisma.sql`AND u.id = ANY(${userIds}::text[])` : Prisma.empty}
+     ORDER BY score DESC
+     ${userIds ? Prisma.empty : Prisma.sql`LIMIT ${MAX_MATCHES * 4}`}
+  `;
+
+  const byUser = new Map<
+    string,
+    { best: (typeof rows)[number]; bestScore: number; fields: Set<string> }
+  >();
+  for (const row of rows) {
+    const score = row.score * FIELD_WEIGHTS[row.field];
+    const entry = byUser.get(row.userId);
+    if (!entry) {
+      byUser.set(row.userId, { best: row, bestScore: score, fields: new Set([row.field]) });
+      continue;
+    }
+    entry.fields.add(row.field);
+    if (score > entry.bestScore) {
+      entry.best = row;
+      entry.bestScore = score;
+    }
+  }
+
+  return [...byUser.entries()]
+    .map(([userId, { best, bestScore, fields }]) => ({
+      userId,
+      rank: bestScore + Math.min((fields.size - 1) * FIELD_BONUS, MAX_FIELD_BONUS),
+      highlight: buildHighlight(best.field, best.text, term),
+    }))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, userIds ? undefined : MAX_MATCHES);
+}
+
+// =============================================================================
+// Highlights
+// =============================================================================
+
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word.toLowerCase()} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let shared = 0;
+  for (const trigram of left) {
+    if (right.has(trigram)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Highlight where the query matched. Exact (case-insensitive) occurrences of
+ * query words are highlighted; for typo matches, the closest word is.
+ */
+export function buildHighlight(field: SearchField, text: string, query: string): SearchHighlight {
+  const queryWords = normalizeSearchQuery(query)
+    .toLowerCase()
+    .split(" ")
+    .filter((word) => word.length >= 2);
+
+  const ranges: Array<[number, number]> = [];
+  const lower = text.toLowerCase();
+  for (const word of queryWords) {
+    let index = lower.indexOf(word);
+    while (index !== -1) {
+      ranges.push([index, index + word.length]);
+      index = lower.indexOf(word, index + word.length);
+    }
+  }
+
+  if (ranges.length === 0) {
+    let best: { range: [number, number]; similarity: number } | null = null;
+    for (const match of text.matchAll(/[\p{L}\p{N}+#.]+/gu)) {
+      const similarity = Math.max(...queryWords.map((word) => trigramSimilarity(word, match[0])));
+      if (similarity > (best?.similarity ?? 0.3)) {
+        best = { range: [match.index, match.index + match[0].length], similarity };
+      }
+    }
+    if (best) ranges.push(best.range);
+  }
+
+  // Sort and merge overlapping ranges ("java" and "javascript" in the same word)
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  // Cut long text down to a window around the first highlight
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, text, ranges: merged };
+  }
+
+  const focus = merged[0]?.[0] ?? 0;
+  const start = Math.max(0, Math.min(focus - 40, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const offset = prefix.length - start;
+
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: merged
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + offset, to + offset]),
+  };
+}
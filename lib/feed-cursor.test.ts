@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  FeedCursorError,
+  compareFeedPositions,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  type FeedCursor,
+  type FeedMode,
+  type FeedPosition,
+} from "@/lib/feed-cursor";
+
+function encodeRaw(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("feed cursors", () => {
+  it("round-trips every sort mode", () => {
+    const cursors: FeedCursor[] = [
+      { mode: "newest", key: [1767225600000], id: "cm1a2b3c4" },
+      { mode: "following", key: [1, 1767225600000], id: "cm1a2b3c4" },
+      { mode: "relevance", key: [12.345678], id: "cm1a2b3c4" },
+      { mode: "relevance:search", key: [0], id: "cm1a2b3c4" },
+      { mode: "newest:search", key: [1767225600000], id: "" },
+    ];
+
+    for (const cursor of cursors) {
+      assert.deepEqual(decodeFeedCursor(encodeFeedCursor(cursor), cursor.mode), cursor);
+    }
+  });
+
+  it("is URL safe", () => {
+    const value = encodeFeedCursor({ mode: "newest", key: [1767225600000], id: "~~~???" });
+    assert.match(value, /^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects malformed cursors", () => {
+    const malformed = [
+      "",
+      "not a cursor",
+      encodeRaw({ mode: "newest", key: [1], id: "a" }),
+      encodeRaw(["newest", [1]]),
+      encodeRaw(["newest", [1], "a", "extra"]),
+      encodeRaw([1, [1], "a"]),
+      encodeRaw(["newest", 1, "a"]),
+      encodeRaw(["newest", ["1"], "a"]),
+      encodeRaw(["newest", [null], "a"]),
+      encodeRaw(["newest", [1], 1]),
+    ];
+
+    for (const value of malformed) {
+      assert.throws(() => decodeFeedCursor(value, "newest"), FeedCursorError, value);
+    }
+  });
+
+  it("rejects a key of the wrong length for its sort", () => {
+    const wrongLengths: Array<[FeedMode, number[]]> = [
+      ["newest", []],
+      ["newest", [1, 1767225600000]],
+      ["newest:search", []],
+      ["following", [1767225600000]],
+      ["following", [1, 1767225600000, 0]],
+      ["relevance", []],
+      ["relevance:search", [1.5, 2]],
+    ];
+
+    for (const [mode, key] of wrongLengths) {
+      assert.throws(
+        () => decodeFeedCursor(encodeRaw([mode, key, "a"]), mode),
+        FeedCursorError,
+        `${mode} [${key}]`
+      );
+    }
+  });
+
+  it("rejects a cursor from another sort mode", () => {
+    const value = encodeFeedCursor({ mode: "newest", key: [1767225600000], id: "a" });
+
+    for (const mode of ["following", "relevance", "newest:search"] as const) {
+      assert.throws(() => decodeFeedCursor(value, mode), {
+        name: "FeedCursorError",
+        message: "Cursor is from a different sort order",
+      });
+    }
+  });
+});
+
+describe("compareFeedPositions", () => {
+  it("puts higher keys first", () => {
+    assert.ok(compareFeedPositions({ key: [2], id: "a" }, { key: [1], id: "z" }) < 0);
+    assert.ok(compareFeedPositions({ key: [1], id: "z" }, { key: [2], id: "a" }) > 0);
+    assert.ok(compareFeedPositions({ key: [0.5], id: "a" }, { key: [0.25], id: "z" }) < 0);
+  });
+
+  it("compares keys left to right", () => {
+    // A followed member comes before a newer one the viewer doesn't follow
+    const followed = { key: [1, 1000], id: "a" };
+    const newer = { key: [0, 2000], id: "z" };
+    assert.ok(compareFeedPositions(followed, newer) < 0);
+    assert.ok(compareFeedPositions({ key: [1, 2000], id: "a" }, followed) < 0);
+  });
+
+  it("breaks ties on the higher id", () => {
+    assert.ok(compareFeedPositions({ key: [1], id: "b" }, { key: [1], id: "a" }) < 0);
+    assert.ok(compareFeedPositions({ key: [1], id: "a" }, { key: [1], id: "b" }) > 0);
+    assert.equal(compareFeedPositions({ key: [1], id: "a" }, { key: [1], id: "a" }), 0);
+  });
+
+  it("sorts a feed into display order", () => {
+    const positions: FeedPosition[] = [
+      { key: [0, 3000], id: "c" },
+      { key: [1, 1000], id: "a" },
+      { key: [0, 3000], id: "d" },
+      { key: [1, 1000], id: "b" },
+      { key: [0, 4000], id: "e" },
+    ];
+
+    assert.deepEqual(
+      positions.sort(compareFeedPositions).map((position) => position.id),
+      ["b", "a", "e", "d", "c"]
+    );
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Directory Feed Cursors
+ *
+ * Opaque keyset cursors for getFeed(). A cursor holds the sort key of the last
+ * tile on a page plus its id as a tie-breaker, so the next page starts strictly
+ * after it in the same order: no duplicates or gaps when members join or
+ * profiles change between pages.
+ *
+ * Sort keys are arrays of numbers compared left to right, all descending:
+ * [createdAt] for newest, [followed, createdAt] for following, [score] for
+ * relevance and [rank] for best match. The sort mode is part of the cursor, and a cursor from another
+ * mode, or with a key of the wrong length, is rejected rather than silently
+ * misread.
+ */
+
+/** Number of values in each sort's key */
+const FEED_KEY_LENGTHS = {
+  newest: 1,
+  following: 2,
+  relevance: 1,
+  match: 1,
+};
+
+export type FeedSort = keyof typeof FEED_KEY_LENGTHS;
+
+/** A sort, and whether a search narrows it; cursors only continue their own mode */
+export type FeedMode = FeedSort | `${FeedSort}:search`;
+
+export interface FeedCursor {
+  mode: FeedMode;
+  key: number[];
+  id: string;
+}
+
+/** A feed entry's position in sort order */
+export interface FeedPosition {
+  key: number[];
+  id: string;
+}
+
+export class FeedCursorError extends Error {
+  constructor(message = "Invalid cursor") {
+    super(message);
+    this.name = "FeedCursorError";
+  }
+}
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify([cursor.mode, cursor.key, cursor.id])).toString("base64url");
+}
+
+/**
+ * Decode a cursor for the given sort mode.
+ *
+ * @throws FeedCursorError if the cursor is malformed or from another mode
+ */
+export function decodeFeedCursor(value: string, mode: FeedMode): FeedCursor {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw new FeedCursorError();
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 3 ||
+    typeof parsed[0] !== "string" ||
+    !Array.isArray(parsed[1]) ||
+    !parsed[1].every((part) => typeof part === "number" && Number.isFinite(part)) ||
+    typeof parsed[2] !== "string"
+  ) {
+    throw new FeedCursorError();
+  }
+
+  if (parsed[0] !== mode) {
+    throw new FeedCursorError("Cursor is from a different sort order");
+  }
+
+  const sort = mode.split(":")[0] as FeedSort;
+  if (parsed[1].length !== FEED_KEY_LENGTHS[sort]) {
+    throw new FeedCursorError();
+  }
+
+  return { mode, key: parsed[1], id: parsed[2] };
+}
+
+/**
+ * Compare two feed positions in display order: negative if `a` comes first.
+ * Higher keys come first; ties go to the higher id.
+ */
+export function compareFeedPositions(a: FeedPosition, b: FeedPosition): number {
+  const length = Math.max(a.key.length, b.key.length);
+  for (let i = 0; i < length; i++) {
+    const difference = (b.key[i] ?? 0) - (a.key[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Whether a position comes strictly after the cursor in display order.
+ */
+export function isAfterCursor(position: FeedPosition, cursor: FeedCursor): boolean {
+  return compareFeedPositions(cursor, position) < 0;
+}
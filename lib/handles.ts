@@ -0,0 +1,245 @@
+/**
+ * Handles
+ *
+ * Handles are chosen at onboarding and can be changed from account settings,
+ * at most once per HANDLE_CHANGE_COOLDOWN_DAYS.
+ *
+ * Released handles are kept in HandleHistory:
+ * - /u/[old-handle] keeps redirecting to the owner's current handle
+ * - nobody else can claim the handle for HANDLE_RESERVATION_DAYS, so it
+ *   can't be squatted to impersonate the previous owner
+ * - the previous owner can always take it back
+ *
+ * The Matrix user ID is derived from the handle at provisioning time and is
+ * immutable, so only the Matrix display name follows handle changes.
+ */
+
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { setDisplayName } from "@/lib/matrix/admin";
+import { Prisma } from "@prisma/client";
+
+/** Minimum days between self-service handle changes */
+export const HANDLE_CHANGE_COOLDOWN_DAYS = 30;
+
+/** Days a released handle stays reserved for its previous owner */
+export const HANDLE_RESERVATION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const handleSchema = z
+  .string()
+  .min(3, "Handle must be at least 3 characters")
+  .max(30, "Handle must be less than 30 characters")
+  .regex(/^[a-zA-Z0-9_-]+$/, "Handle can only contain letters, numbers, hyphens, and underscores");
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Raised when a handle can't be claimed or changed.
+ * The message is safe to show to the user.
+ */
+export class HandleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HandleError";
+  }
+}
+
+// =============================================================================
+// Availability
+// =============================================================================
+
+/**
+ * Check whether a user may claim a handle.
+ *
+ * @returns An error message, or null if the handle is available
+ */
+export async function getHandleUnavailableReason(
+  handle: string,
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  const [owner, released] = await Promise.all([
+    db.user.findUnique({ where: { handle }, select: { id: true } }),
+    db.handleHistory.findUnique({ where: { handle }, select: { userId: true, releasedAt: true } }),
+  ]);
+
+  if (owner && owner.id !== userId) {
+    return "Handle is already taken";
+  }
+
+  if (
+    released &&
+    released.userId !== userId &&
+    Date.now() - released.releasedAt.getTime() < HANDLE_RESERVATION_DAYS * DAY_MS
+  ) {
+    return "This handle was recently used by another member and isn't available yet";
+  }
+
+  return null;
+}
+
+/**
+ * Remove a history entry for a handle that's being claimed, so it stops
+ * redirecting to its previous owner.
+ */
+async function claimReleasedHandle(tx: Prisma.TransactionClient, handle: string): Promise<void> {
+  await tx.handleHistory.deleteMany({ where: { handle } });
+}
+
+/**
+ * Claim a handle for a user that doesn't have one yet (onboarding).
+ * Must run inside the transaction that sets User.handle.
+ */
+export async function claimInitialHandle(
+  tx: Prisma.TransactionClient,
+  handle: string,
+  userId: string
+): Promise<void> {
+  const reason = await getHandleUnavailableReason(handle, userId, tx);
+  if (reason) {
+    throw new HandleError(reason);
+  }
+  await claimReleasedHandle(tx, handle);
+}
+
+// =============================================================================
+// Changes
+// =============================================================================
+
+/**
+ * When a user may next change their handle, or null if they can now.
+ */
+export function getNextHandleChangeAt(handleChangedAt: Date | null): Date | null {
+  if (!handleChangedAt) {
+    return null;
+  }
+  const next = new Date(handleChangedAt.getTime() + HANDLE_CHANGE_COOLDOWN_DAYS * DAY_MS);
+  return next > new Date() ? next : null;
+}
+
+/**
+ * Change a user's handle, recording the old one in HandleHistory.
+ * Must run inside a transaction; callers sync the Matrix display name once it commits.
+ *
+ * @throws HandleError if the handle is unavailable or the cooldown hasn't passed
+ */
+export async function applyHandleChange(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  newHandle: string
+): Promise<{ previousHandle: string | null; handle: string }> {
+  const handle = handleSchema.parse(newHandle);
+
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { handle: true, handleChangedAt: true },
+  });
+
+  if (!user) {
+    throw new HandleError("User not found");
+  }
+
+  if (user.handle === handle) {
+    return { previousHandle: user.handle, handle };
+  }
+
+  const nextChangeAt = getNextHandleChangeAt(user.handleChangedAt);
+  if (nextChangeAt) {
+    throw new HandleError(
+      `You can change your handle again on ${nextChangeAt.toLocaleDateString("en-US", {
+        month: "long",
+        day: "numeric",
+        year: "numeric",
+      })}`
+    );
+  }
+
+  const reason = await getHandleUnavailableReason(handle, userId, tx);
+  if (reason) {
+    throw new HandleError(reason);
+  }
+
+  try {
+    await claimReleasedHandle(tx, handle);
+
+    if (user.handle) {
+      await tx.handleHistory.create({
+        data: { handle: user.handle, userId },
+      });
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: { handle, handleChangedAt: new Date() },
+    });
+  } catch (error) {
+    // Lost a race for the same handle
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new HandleError("Handle is already taken");
+    }
+    throw error;
+  }
+
+  return { previousHandle: user.handle, handle };
+}
+
+/**
+ * Change a user's handle in its own transaction.
+ *
+ * @throws HandleError if the handle is unavailable or the cooldown hasn't passed
+ */
+export async function changeUserHandle(
+  userId: string,
+  newHandle: string
+): Promise<{ previousHandle: string | null; handle: string }> {
+  const result = await prisma.$transaction((tx) => applyHandleChange(tx, userId, newHandle));
+
+  if (result.previousHandle !== result.handle) {
+    await syncMatrixDisplayName(userId);
+  }
+
+  return result;
+}
+
+/**
+ * Find the current handle for a released one.
+ *
+ * @returns The owner's current handle, or null if the handle isn't in history
+ */
+export async function resolveHandleRedirect(handle: string): Promise<string | null> {
+  const released = await prisma.handleHistory.findUnique({
+    where: { handle },
+    select: { user: { select: { handle: true, status: true } } },
+  });
+
+  if (!released?.user.handle || released.user.status !== "ACTIVE") {
+    return null;
+  }
+
+  return released.user.handle;
+}
+
+/**
+ * Update the user's Matrix display name to match their profile.
+ * Best-effort: chat keeps working with a stale display name.
+ */
+export async function syncMatrixDisplayName(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { name: true, handle: true, matrixUserId: true },
+  });
+
+  if (!user?.matrixUserId || !user.handle) {
+    return;
+  }
+
+  try {
+    await setDisplayName(user.matrixUserId, user.name || user.handle);
+  } catch (error) {
+    console.error("[Handles] Failed to update Matrix display name:", error);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Invite Codes
+ *
+ * INSPIRE-LAB is invite-only: new accounts must redeem a valid InviteCode.
+ * Redemption happens inside the sign-up transaction so the usage counter,
+ * the InviteRedemption record and the new User are created atomically.
+ *
+ * Set OPEN_REGISTRATION="true" to allow sign-up without a code (development).
+ *
+ * Members mint their own codes, limited by per-role quotas:
+ * - INVITE_QUOTA_USER: active codes a USER may hold (default 5)
+ * - INVITE_QUOTA_MODERATOR: active codes a MODERATOR may hold (default 20)
+ * - INVITE_MAX_USES_PER_CODE: max uses a non-admin code may allow (default 10)
+ * ADMIN accounts are unlimited.
+ */
+
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { Prisma, UserRole } from "@prisma/client";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Whether sign-up requires an invite code.
+ */
+export function isInviteRequired(): boolean {
+  return process.env.OPEN_REGISTRATION !== "true";
+}
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** Longest expiry a member can choose for a code */
+export const INVITE_MAX_EXPIRY_DAYS = 90;
+
+export interface InviteQuota {
+  /** Maximum number of active codes, or null for unlimited */
+  maxActiveCodes: number | null;
+  /** Maximum uses per code, or null for unlimited */
+  maxUsesPerCode: number | null;
+}
+
+/**
+ * Get the invite quota for a role.
+ */
+export function getInviteQuota(role: UserRole): InviteQuota {
+  if (role === "ADMIN") {
+    return { maxActiveCodes: null, maxUsesPerCode: null };
+  }
+
+  return {
+    maxActiveCodes:
+      role === "MODERATOR"
+        ? readIntEnv("INVITE_QUOTA_MODERATOR", 20)
+        : readIntEnv("INVITE_QUOTA_USER", 5),
+    maxUsesPerCode: readIntEnv("INVITE_MAX_USES_PER_CODE", 10),
+  };
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export type InviteCodeErrorReason = "NOT_FOUND" | "DISABLED" | "EXPIRED" | "EXHAUSTED";
+
+/**
+ * Raised when an invite code cannot be redeemed.
+ * The message is safe to show to the person signing up.
+ */
+export class InviteCodeError extends Error {
+  constructor(public reason: InviteCodeErrorReason) {
+    super(INVITE_ERROR_MESSAGES[reason]);
+    this.name = "InviteCodeError";
+  }
+}
+
+const INVITE_ERROR_MESSAGES: Record<InviteCodeErrorReason, string> = {
+  NOT_FOUND: "Invalid invite code",
+  DISABLED: "This invite code has been disabled",
+  EXPIRED: "This invite code has expired",
+  EXHAUSTED: "This invite code has already been used the maximum number of times",
+};
+
+// =============================================================================
+// Code Generation
+// =============================================================================
+
+// Excludes look-alike characters (0/O, 1/I/L) so codes survive being read aloud
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+/**
+ * Generate a random invite code in the form XXXX-XXXX.
+ */
+export function generateInviteCode(): string {
+  const bytes = randomBytes(8);
+  const chars = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+/**
+ * Where clause matching codes that can still be redeemed.
+ */
+export function activeInviteCodeWhere(now = new Date()): Prisma.InviteCodeWhereInput {
+  return {
+    enabled: true,
+    usesCount: { lt: prisma.inviteCode.fields.maxUses },
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+  };
+}
+
+// =============================================================================
+// Redemption
+// =============================================================================
+
+/**
+ * Normalize user-entered invite codes (trim surrounding whitespace and
+ * uppercase, since generated codes only use capitals).
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Claim one use of an invite code.
+ *
+ * Must be called inside a transaction. The usage counter is incremented with a
+ * conditional update so concurrent sign-ups can never exceed maxUses.
+ *
+ * @throws InviteCodeError when the code is unknown, disabled, expired or exhausted
+ * @returns The claimed invite code (id and creator)
+ */
+export async function claimInviteCode(tx: Prisma.TransactionClient, code: string) {
+  const invite = await tx.inviteCode.findUnique({
+    where: { code: normalizeInviteCode(code) },
+    select: {
+      id: true,
+      createdById: true,
+      enabled: true,
+      expiresAt: true,
+      maxUses: true,
+      usesCount: true,
+    },
+  });
+
+  if (!invite) {
+    throw new InviteCodeError("NOT_FOUND");
+  }
+
+  if (!invite.enabled) {
+    throw new InviteCodeError("DISABLED");
+  }
+
+  const now = new Date();
+  if (invite.expiresAt && invite.expiresAt <= now) {
+    throw new InviteCodeError("EXPIRED");
+  }
+
+  if (invite.usesCount >= invite.maxUses) {
+    throw new InviteCodeError("EXHAUSTED");
+  }
+
+  // Conditional increment guards against races between the read above and now
+  const claimed = await tx.inviteCode.updateMany({
+    where: { id: invite.id, ...activeInviteCodeWhere(now) },
+    data: { usesCount: { increment: 1 } },
+  });
+
+  if (claimed.count === 0) {
+    throw new InviteCodeError("EXHAUSTED");
+  }
+
+  return { id: invite.id, createdById: invite.createdById };
+}
+
+/**
+ * Record that a user signed up with an invite code.
+ * Must be called in the same transaction as claimInviteCode().
+ */
+export async function recordInviteRedemption(
+  tx: Prisma.TransactionClient,
+  inviteCodeId: string,
+  userId: string
+) {
+  return tx.inviteRedemption.create({
+    data: {
+      inviteCodeId,
+      redeemedById: userId,
+    },
+  });
+}
@@ -0,0 +1,468 @@
+/**
+ * JSON Resume
+ *
+ * Import and export of profiles in the JSON Resume format
+ * (https://jsonresume.org/schema). Imports are planned first so members can
+ * review a preview of what would change before anything is written:
+ *
+ * - basics → name, roleTitle, bio, location, website
+ * - basics.profiles → Link
+ * - skills (names and keywords) → UserSkill, matched against existing SkillTags
+ * - projects → Project
+ * - education, certificates → Qualification
+ */
+
+import { z } from "zod";
+import type { SkillLevel } from "@prisma/client";
+import { slugifyTag } from "@/lib/tags";
+
+/** Largest résumé document accepted for import */
+export const JSON_RESUME_MAX_BYTES = 512 * 1024;
+
+const JSON_RESUME_SCHEMA_URL =
+  "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+// Résumés come from many tools; accept loosely typed values and ignore the rest
+const text = z.string().trim().optional().catch(undefined);
+
+export const jsonResumeSchema = z.object({
+  basics: z
+    .object({
+      name: text,
+      label: text,
+      email: text,
+      url: text,
+      summary: text,
+      location: z
+        .object({ address: text, city: text, region: text, countryCode: text })
+        .optional()
+        .catch(undefined),
+      profiles: z
+        .array(z.object({ network: text, username: text, url: text }))
+        .optional()
+        .catch(undefined),
+    })
+    .optional(),
+  skills: z
+    .array(
+      z.object({
+        name: text,
+        level: text,
+        keywords: z.array(z.string()).optional().catch(undefined),
+      })
+    )
+    .optional()
+    .catch(undefined),
+  projects: z
+    .array(
+      z.object({
+        name: text,
+        description: text,
+        highlights: z.array(z.string()).optional().catch(undefined),
+        url: text,
+        startDate: text,
+        endDate: text,
+      })
+    )
+    .optional()
+    .catch(undefined),
+  education: z
+    .array(
+      z.object({
+        institution: text,
+        area: text,
+        studyType: text,
+        startDate: text,
+        endDate: text,
+        score: text,
+      })
+    )
+    .optional()
+    .catch(undefined),
+  certificates: z
+    .array(z.object({ name: text, date: text, issuer: text, url: text }))
+    .optional()
+    .catch(undefined),
+});
+
+export type JsonResume = z.infer<typeof jsonResumeSchema>;
+
+export class JsonResumeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonResumeError";
+  }
+}
+
+/**
+ * Parse a JSON Resume document from an uploaded file's contents.
+ *
+ * @throws JsonResumeError if the document can't be read
+ */
+export function parseJsonResume(raw: string): JsonResume {
+  if (raw.length > JSON_RESUME_MAX_BYTES) {
+    throw new JsonResumeError("Résumé file is too large");
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new JsonResumeError("That file isn't valid JSON");
+  }
+
+  const result = jsonResumeSchema.safeParse(data);
+  if (!result.success) {
+    throw new JsonResumeError("That file isn't a JSON Resume document");
+  }
+
+  return result.data;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function truncate(value: string | undefined, max: number): string | null {
+  return value ? value.slice(0, max) : null;
+}
+
+function isHttpUrl(value: string | undefined): value is string {
+  if (!value) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a JSON Resume date (YYYY, YYYY-MM or YYYY-MM-DD).
+ */
+function parseResumeDate(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  if (!match) return null;
+
+  const [, year, month = "01", day = "01"] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatResumeDate(date: Date | null): string | undefined {
+  return date ? date.toISOString().slice(0, 10) : undefined;
+}
+
+/**
+ * Map a free-text skill level ("Master", "Senior", "Basic") to a SkillLevel.
+ */
+function toSkillLevel(level: string | undefined): SkillLevel {
+  const value = level?.toLowerCase() ?? "";
+  if (/expert|master|fluent|native/.test(value)) return "EXPERT";
+  if (/advanced|senior|proficient/.test(value)) return "ADVANCED";
+  if (/beginner|novice|basic|junior|learning/.test(value)) return "BEGINNER";
+  return "INTERMEDIATE";
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+export const RESUME_PROFILE_FIELDS = ["name", "roleTitle", "bio", "location", "website"] as const;
+
+export type ResumeProfileField = (typeof RESUME_PROFILE_FIELDS)[number];
+
+/** The member's current profile, as needed to plan an import */
+export interface ResumeImportTarget {
+  name: string | null;
+  roleTitle: string | null;
+  bio: string | null;
+  location: string | null;
+  website: string | null;
+  links: Array<{ url: string }>;
+  userSkills: Array<{ skillTagId: string }>;
+  projects: Array<{ title: string }>;
+  qualifications: Array<{ title: string; institution: string | null }>;
+}
+
+export interface ResumeImportPlan {
+  fields: Array<{
+    field: ResumeProfileField;
+    current: string | null;
+    incoming: string;
+  }>;
+  links: Array<{ label: string; url: string; exists: boolean }>;
+  skills: Array<{
+    name: string;
+    skillTagId: string;
+    tagName: string;
+    level: SkillLevel;
+    exists: boolean;
+  }>;
+  /** Skills with no matching tag; these aren't imported, but can be proposed as new tags */
+  unmatchedSkills: Array<{ name: string; level: SkillLevel }>;
+  projects: Array<{
+    title: string;
+    description: string | null;
+    url: string | null;
+    startDate: Date | null;
+    endDate: Date | null;
+    status: "ACTIVE" | "COMPLETED";
+    exists: boolean;
+  }>;
+  qualifications: Array<{
+    title: string;
+    institution: string | null;
+    year: string | null;
+    description: string | null;
+    exists: boolean;
+  }>;
+}
+
+/**
+ * Work out what importing a résumé would change on a profile.
+ * Items the profile already has are included with `exists: true`.
+ */
+export function planJsonResumeImport(
+  resume: JsonResume,
+  target: ResumeImportTarget,
+  skillTags: Array<{ id: string; name: string; slug: string; aliases: Array<{ slug: string }> }>
+): ResumeImportPlan {
+  const basics = resume.basics ?? {};
+
+  // Profile fields, truncated to the limits updateProfile enforces
+  const location =
+    basics.location?.city || basics.location?.region || basics.location?.countryCode
+      ? [basics.location.city, basics.location.region, basics.location.countryCode]
+          .filter(Boolean)
+          .join(", ")
+      : basics.location?.address;
+
+  const incoming: Record<ResumeProfileField, string | null> = {
+    name: truncate(basics.name, 100),
+    roleTitle: truncate(basics.label, 100),
+    bio: truncate(basics.summary, 500),
+    location: truncate(location, 100),
+    website: isHttpUrl(basics.url) ? basics.url : null,
+  };
+
+  const fields = RESUME_PROFILE_FIELDS.flatMap((field) => {
+    const value = incoming[field];
+    return value && value !== target[field]
+      ? [{ field, current: target[field], incoming: value }]
+      : [];
+  });
+
+  // Links
+  const existingUrls = new Set(target.links.map((link) => link.url));
+  const seenUrls = new Set<string>();
+  const links = (basics.profiles ?? []).flatMap((profile) => {
+    if (!isHttpUrl(profile.url) || seenUrls.has(profile.url)) return [];
+    seenUrls.add(profile.url);
+    const label = (profile.network || profile.username || new URL(profile.url).hostname).slice(
+      0,
+      50
+    );
+    return [{ label, url: profile.url, exists: existingUrls.has(profile.url) }];
+  });
+
+  // Skills: each skill name and keyword is matched against tag names, slugs and aliases
+  const tagsByKey = new Map<string, (typeof skillTags)[number]>();
+  for (const tag of skillTags) {
+    tagsByKey.set(tag.slug, tag);
+    tagsByKey.set(slugifyTag(tag.name), tag);
+    for (const alias of tag.aliases) {
+      tagsByKey.set(alias.slug, tag);
+    }
+  }
+
+  const existingTagIds = new Set(target.userSkills.map((skill) => skill.skillTagId));
+  const skills: ResumeImportPlan["skills"] = [];
+  const unmatchedSkills: ResumeImportPlan["unmatchedSkills"] = [];
+  const seenSkills = new Set<string>();
+
+  for (const skill of resume.skills ?? []) {
+    const level = toSkillLevel(skill.level);
+    const names = [skill.name, ...(skill.keywords ?? [])]
+      .map((name) => name?.trim())
+      .filter((name): name is string => !!name);
+
+    for (const name of names) {
+      const key = slugifyTag(name);
+      if (!key || seenSkills.has(key)) continue;
+      seenSkills.add(key);
+
+      const tag = tagsByKey.get(key);
+      if (!tag) {
+        unmatchedSkills.push({ name, level });
+        continue;
+      }
+      if (skills.some((planned) => planned.skillTagId === tag.id)) continue;
+
+      skills.push({
+        name,
+        skillTagId: tag.id,
+        tagName: tag.name,
+        level,
+        exists: existingTagIds.has(tag.id),
+      });
+    }
+  }
+
+  // Projects, matched to existing ones by title
+  const existingProjects = new Set(target.projects.map((p) => p.title.toLowerCase()));
+  const now = new Date();
+  const projects = (resume.projects ?? []).flatMap((project) => {
+    const title = truncate(project.name, 100);
+    if (!title) return [];
+
+    const description =
+      [project.description, ...(project.highlights ?? []).map((h) => `• ${h}`)]
+        .filter(Boolean)
+        .join("\n")
+        .slice(0, 2000) || null;
+    const endDate = parseResumeDate(project.endDate);
+
+    return [
+      {
+        title,
+        description,
+        url: isHttpUrl(project.url) ? project.url : null,
+        startDate: parseResumeDate(project.startDate),
+        endDate,
+        status: endDate && endDate < now ? ("COMPLETED" as const) : ("ACTIVE" as const),
+        exists: existingProjects.has(title.toLowerCase()),
+      },
+    ];
+  });
+
+  // Education and certificates, matched by title and institution
+  const qualificationKey = (title: string, institution: string | null) =>
+    `${title.toLowerCase()}|${institution?.toLowerCase() ?? ""}`;
+  const existingQualifications = new Set(
+    target.qualifications.map((q) => qualificationKey(q.title, q.institution))
+  );
+
+  const qualifications = [
+    ...(resume.education ?? []).map((education) => ({
+      title:
+        [education.studyType, education.area].filter(Boolean).join(" in ") || education.institution,
+      institution: education.institution,
+      year: (education.endDate || education.startDate)?.slice(0, 4),
+      description: education.score ? `Grade: ${education.score}` : undefined,
+    })),
+    ...(resume.certificates ?? []).map((certificate) => ({
+      title: certificate.name,
+      institution: certificate.issuer,
+      year: certificate.date?.slice(0, 4),
+      description: isHttpUrl(certificate.url) ? certificate.url : undefined,
+    })),
+  ].flatMap((qualification) => {
+    const title = truncate(qualification.title, 200);
+    if (!title) return [];
+
+    const institution = truncate(qualification.institution, 200);
+    return [
+      {
+        title,
+        institution,
+        year: truncate(qualification.year, 50),
+        description: truncate(qualification.description, 2000),
+        exists: existingQualifications.has(qualificationKey(title, institution)),
+      },
+    ];
+  });
+
+  return { fields, links, skills, unmatchedSkills, projects, qualifications };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/** A profile as returned by getUserProfile (already filtered for the viewer) */
+export interface ResumeExportSource {
+  name: string | null;
+  handle: string | null;
+  email: string;
+  roleTitle: string | null;
+  bio: string | null;
+  location: string | null;
+  website: string | null;
+  avatar: string | null;
+  userSkills: Array<{ level: string; skillTag: { name: string } }>;
+  userTools: Array<{ toolTag: { name: string } }>;
+  links: Array<{ label: string; url: string }>;
+  projects: Array<{
+    title: string;
+    description: string | null;
+    url: string | null;
+    startDate: Date | null;
+    endDate: Date | null;
+  }>;
+  qualifications: Array<{
+    title: string;
+    institution: string | null;
+    year: string | null;
+  }>;
+}
+
+const SKILL_LEVEL_LABELS: Record<string, string> = {
+  BEGINNER: "Beginner",
+  INTERMEDIATE: "Intermediate",
+  ADVANCED: "Advanced",
+  EXPERT: "Expert",
+};
+
+/**
+ * Convert a profile to a JSON Resume document.
+ *
+ * The email address is only included for the profile's owner.
+ */
+export function toJsonResume(
+  user: ResumeExportSource,
+  options: { includeEmail: boolean; profileUrl: string }
+) {
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: user.name ?? undefined,
+      label: user.roleTitle ?? undefined,
+      image: user.avatar ?? undefined,
+      email: options.includeEmail ? user.email : undefined,
+      url: user.website ?? undefined,
+      summary: user.bio ?? undefined,
+      location: user.location ? { address: user.location } : undefined,
+      profiles: user.links.map((link) => ({ network: link.label, url: link.url })),
+    },
+    skills: [
+      ...user.userSkills.map((skill) => ({
+        name: skill.skillTag.name,
+        level: SKILL_LEVEL_LABELS[skill.level] ?? skill.level,
+      })),
+      ...(user.userTools.length > 0
+        ? [{ name: "Tools", keywords: user.userTools.map((tool) => tool.toolTag.name) }]
+        : []),
+    ],
+    projects: user.projects.map((project) => ({
+      name: project.title,
+      description: project.description ?? undefined,
+      url: project.url ?? undefined,
+      startDate: formatResumeDate(project.startDate),
+      endDate: formatResumeDate(project.endDate),
+    })),
+    certificates: user.qualifications.map((qualification) => ({
+      name: qualification.title,
+      issuer: qualification.institution ?? undefined,
+      date: qualification.year?.match(/^\d{4}(-\d{2}){0,2}$/) ? qualification.year : undefined,
+    })),
+    meta: {
+      canonical: options.profileUrl,
+      lastModified: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Mail
+ *
+ * Outgoing email behind a small transport abstraction so the app doesn't
+ * depend on a specific provider.
+ *
+ * The transport is chosen with MAIL_TRANSPORT:
+ * - resend: Resend API (requires RESEND_API_KEY)
+ * - smtp: any SMTP server via nodemailer (requires SMTP_URL), e.g. a local
+ *   sink such as Mailpit for development and tests
+ * - memory: keeps messages in memory (tests)
+ * - console: logs messages (default when nothing is configured)
+ *
+ * When MAIL_TRANSPORT is unset, resend is used if RESEND_API_KEY is set,
+ * then smtp if SMTP_URL is set, then console.
+ */
+
+export * from "./transports";
@@ -0,0 +1,177 @@
+/**
+ * Mail Transports
+ *
+ * Implementations of MailTransport and the selection logic described in
+ * lib/mail/index.ts.
+ */
+
+import nodemailer from "nodemailer";
+import { Resend } from "resend";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransportName = "resend" | "smtp" | "memory" | "console";
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || "noreply@inspire-lab.app";
+}
+
+// =============================================================================
+// Transports
+// =============================================================================
+
+function createResendTransport(): MailTransport {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) throw new Error("RESEND_API_KEY is not configured");
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    async send(message) {
+      const { error } = await resend.emails.send({
+        from: getFromAddress(),
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        headers: message.headers,
+      });
+
+      if (error) {
+        throw new Error(`Resend error: ${error.message}`);
+      }
+    },
+  };
+}
+
+function createSmtpTransport(): MailTransport {
+  const url = process.env.SMTP_URL;
+  if (!url) throw new Error("SMTP_URL is not configured");
+  const transporter = nodemailer.createTransport(url);
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({
+        from: getFromAddress(),
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        headers: message.headers,
+      });
+    },
+  };
+}
+
+/** Messages captured by the memory transport, oldest first */
+export const sentMail: MailMessage[] = [];
+
+function createMemoryTransport(): MailTransport {
+  return {
+    name: "memory",
+    async send(message) {
+      sentMail.push(message);
+    },
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`[Mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    },
+  };
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+function resolveTransportName(): MailTransportName {
+  const configured = process.env.MAIL_TRANSPORT as MailTransportName | undefined;
+  if (configured) return configured;
+  if (process.env.RESEND_API_KEY) return "resend";
+  if (process.env.SMTP_URL) return "smtp";
+  return "console";
+}
+
+const globalForMail = globalThis as unknown as {
+  mailTransport: MailTransport | undefined;
+};
+
+/**
+ * Get the configured mail transport.
+ */
+export function getMailTransport(): MailTransport {
+  if (!globalForMail.mailTransport) {
+    const name = resolveTransportName();
+    switch (name) {
+      case "resend":
+        globalForMail.mailTransport = createResendTransport();
+        break;
+      case "smtp":
+        globalForMail.mailTransport = createSmtpTransport();
+        break;
+      case "memory":
+        globalForMail.mailTransport = createMemoryTransport();
+        break;
+      case "console":
+        globalForMail.mailTransport = createConsoleTransport();
+        break;
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+    }
+  }
+  return globalForMail.mailTransport;
+}
+
+/**
+ * Replace the mail transport (e.g. in tests).
+ */
+export function setMailTransport(transport: MailTransport) {
+  globalForMail.mailTransport = transport;
+}
+
+/**
+ * Send an email with the configured transport.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+/**
+ * Escape user-provided text for inclusion in an HTML email.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Absolute URL for a path in the app, for links in emails.
+ */
+export function getAppUrl(path = "/"): string {
+  const base = process.env.NEXTAUTH_URL || "http://localhost:3000";
+  return new URL(path, base).toString();
+}
@@ -288,6 +288,16 @@ export async function deactivateUser(userId: string, erase = false): Promise<voi
   });
 }
 
+/**
+ * Set a user's display name (Admin API)
+ */
+export async function setDisplayName(userId: string, displayName: string): Promise<void> {
+  await matrixFetch(`/_synapse/admin/v2/users/${encodeURIComponent(userId)}`, {
+    method: "PUT",
+    body: JSON.stringify({ displayname: displayName }),
+  });
+}
+
 /**
  * Get user info (Admin API)
  */
@@ -0,0 +1,195 @@
+/**
+ * Notification Emails
+ *
+ * Instant emails for INSTANT_EMAIL preferences and the daily digest for
+ * DAILY_DIGEST preferences. Every email carries a signed one-click
+ * unsubscribe link (RFC 8058).
+ */
+
+import { prisma } from "@/lib/prisma";
+import { escapeHtml, getAppUrl, sendMail, type MailMessage } from "@/lib/mail";
+import type { NotificationType } from "@prisma/client";
+import { createUnsubscribeToken, getNotificationChannels } from "./preferences";
+
+/** Only notifications this recent are included in a digest */
+const DIGEST_LOOKBACK_HOURS = 48;
+
+/** Most notifications listed in a single digest email */
+const DIGEST_MAX_ITEMS = 50;
+
+interface EmailRecipient {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function unsubscribeHeaders(unsubscribeToken: string): Record<string, string> {
+  const oneClickUrl = getAppUrl(`/api/notifications/unsubscribe?token=${unsubscribeToken}`);
+  return {
+    "List-Unsubscribe": `<${oneClickUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+function buildEmail(
+  recipient: EmailRecipient,
+  subject: string,
+  items: Array<{ id: string; message: string }>,
+  types: NotificationType[]
+): MailMessage {
+  const token = createUnsubscribeToken(recipient.id, types);
+  const unsubscribeUrl = getAppUrl(`/unsubscribe?token=${token}`);
+  const greeting = `Hi ${recipient.name || "there"},`;
+
+  const text = [
+    greeting,
+    "",
+    ...items.map((item) => `- ${item.message}\n  ${getAppUrl(`/notifications/${item.id}`)}`),
+    "",
+    `View all notifications: ${getAppUrl("/notifications")}`,
+    "",
+    `Unsubscribe: ${unsubscribeUrl}`,
+  ].join("\n");
+
+  const html = `
+<p>${escapeHtml(greeting)}</p>
+<ul>
+${items
+  .map(
+    (item) =>
+      `<li><a href="${getAppUrl(`/notifications/${item.id}`)}">${escapeHtml(item.message)}</a></li>`
+  )
+  .join("\n")}
+</ul>
+<p><a href="${getAppUrl("/notifications")}">View all notifications</a></p>
+<p style="font-size:12px;color:#666"><a href="${unsubscribeUrl}">Unsubscribe</a> from these emails.</p>
+`.trim();
+
+  return {
+    to: recipient.email,
+    subject,
+    text,
+    html,
+    headers: unsubscribeHeaders(token),
+  };
+}
+
+// =============================================================================
+// Instant Email
+// =============================================================================
+
+/**
+ * Email a single notification right away.
+ * Failures are logged; the notification stays in-app either way.
+ */
+export async function sendInstantNotificationEmail(notification: {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  message: string;
+}) {
+  try {
+    const recipient = await prisma.user.findUnique({
+      where: { id: notification.userId },
+      select: { id: true, email: true, name: true, status: true },
+    });
+
+    if (!recipient || recipient.status !== "ACTIVE") {
+      return;
+    }
+
+    await sendMail(
+      buildEmail(recipient, notification.message, [notification], [notification.type])
+    );
+
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: { emailedAt: new Date() },
+    });
+  } catch (error) {
+    console.error(`[Notifications] Failed to email notification ${notification.id}:`, error);
+  }
+}
+
+// =============================================================================
+// Daily Digest
+// =============================================================================
+
+/**
+ * Send the daily digest to every user with pending DAILY_DIGEST notifications.
+ *
+ * Intended to run once a day from the cron route. Notifications that were
+ * already read in-app are skipped.
+ *
+ * @returns Number of digests sent and failed
+ */
+export async function sendNotificationDigests() {
+  const since = new Date(Date.now() - DIGEST_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+  const pending = await prisma.notification.findMany({
+    where: {
+      emailedAt: null,
+      read: false,
+      createdAt: { gte: since },
+      user: { status: "ACTIVE" },
+    },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      type: true,
+      message: true,
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+
+  // Group by recipient
+  const byUser = new Map<string, { recipient: EmailRecipient; items: typeof pending }>();
+  for (const notification of pending) {
+    const entry = byUser.get(notification.user.id);
+    if (entry) {
+      entry.items.push(notification);
+    } else {
+      byUser.set(notification.user.id, { recipient: notification.user, items: [notification] });
+    }
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const { recipient, items } of byUser.values()) {
+    const channels = await getNotificationChannels(recipient.id);
+    // Anything past the cap stays pending for the next digest
+    const digestItems = items
+      .filter((item) => channels[item.type] === "DAILY_DIGEST")
+      .slice(0, DIGEST_MAX_ITEMS);
+
+    if (digestItems.length === 0) {
+      continue;
+    }
+
+    const types = [...new Set(digestItems.map((item) => item.type))];
+    const subject =
+      digestItems.length === 1
+        ? "You have 1 new notification on INSPIRE-LAB"
+        : `You have ${digestItems.length} new notifications on INSPIRE-LAB`;
+
+    try {
+      await sendMail(buildEmail(recipient, subject, digestItems, types));
+
+      await prisma.notification.updateMany({
+        where: { id: { in: digestItems.map((item) => item.id) } },
+        data: { emailedAt: new Date() },
+      });
+      sent++;
+    } catch (error) {
+      console.error(`[Notifications] Failed to send digest to user ${recipient.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,12 @@
+/**
+ * Notifications
+ *
+ * Server-side helpers for creating notifications, resolving the entity each
+ * notification refers to, delivering them live and by email, and managing
+ * per-user delivery preferences.
+ */
+
+export * from "./service";
+export * from "./publisher";
+export * from "./preferences";
+export * from "./email";
@@ -0,0 +1,134 @@
+/**
+ * Notification Preferences
+ *
+ * Each user picks a NotificationChannel per NotificationType. Types without a
+ * stored NotificationPreference use DEFAULT_NOTIFICATION_CHANNELS.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { createSignedToken, verifySignedToken } from "@/lib/signed-token";
+import type { NotificationChannel, NotificationType } from "@prisma/client";
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<NotificationType, NotificationChannel> = {
+  FOLLOW: "IN_APP",
+  VOUCH: "IN_APP",
+  ENDORSEMENT: "IN_APP",
+  PROJECT_UPDATE: "IN_APP",
+  SYSTEM: "INSTANT_EMAIL",
+  MESSAGE: "IN_APP",
+  VIDEO_CALL: "IN_APP",
+  SAVED_SEARCH: "DAILY_DIGEST",
+};
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  FOLLOW: "New followers",
+  VOUCH: "Vouches",
+  ENDORSEMENT: "Skill endorsements",
+  PROJECT_UPDATE: "Project updates",
+  SYSTEM: "Account and system messages",
+  MESSAGE: "New conversations",
+  VIDEO_CALL: "Video calls",
+  SAVED_SEARCH: "New saved search matches",
+};
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+/**
+ * Get the channel a user wants for a notification type.
+ */
+export async function getNotificationChannel(
+  userId: string,
+  type: NotificationType
+): Promise<NotificationChannel> {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId_type: { userId, type } },
+    select: { channel: true },
+  });
+  return preference?.channel ?? DEFAULT_NOTIFICATION_CHANNELS[type];
+}
+
+/**
+ * Get a user's channel for every notification type, with defaults filled in.
+ */
+export async function getNotificationChannels(
+  userId: string
+): Promise<Record<NotificationType, NotificationChannel>> {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId },
+    select: { type: true, channel: true },
+  });
+
+  const channels = { ...DEFAULT_NOTIFICATION_CHANNELS };
+  for (const preference of preferences) {
+    channels[preference.type] = preference.channel;
+  }
+  return channels;
+}
+
+/**
+ * Store a user's channel for a notification type.
+ */
+export async function setNotificationChannel(
+  userId: string,
+  type: NotificationType,
+  channel: NotificationChannel
+) {
+  return prisma.notificationPreference.upsert({
+    where: { userId_type: { userId, type } },
+    create: { userId, type, channel },
+    update: { channel },
+  });
+}
+
+// =============================================================================
+// Unsubscribe Tokens
+// =============================================================================
+
+interface UnsubscribePayload {
+  purpose: "unsubscribe";
+  userId: string;
+  /** Notification types to stop emailing */
+  types: NotificationType[];
+}
+
+/**
+ * Create a token for a one-click unsubscribe link.
+ * Tokens don't expire so links in old emails keep working.
+ */
+export function createUnsubscribeToken(userId: string, types: NotificationType[]): string {
+  return createSignedToken<UnsubscribePayload>({ purpose: "unsubscribe", userId, types });
+}
+
+/**
+ * Verify an unsubscribe token.
+ */
+export function verifyUnsubscribeToken(token: string): Omit<UnsubscribePayload, "purpose"> | null {
+  const payload = verifySignedToken<UnsubscribePayload>(token);
+  if (!payload || payload.purpose !== "unsubscribe") return null;
+  return { userId: payload.userId, types: payload.types };
+}
+
+/**
+ * Stop emailing a user about the given types. Notifications stay in-app.
+ */
+export async function unsubscribeFromEmails(userId: string, types: NotificationType[]) {
+  const channels = await getNotificationChannels(userId);
+
+  await prisma.$transaction(
+    types
+      .filter((type) => channels[type] === "INSTANT_EMAIL" || channels[type] === "DAILY_DIGEST")
+      .map((type) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, channel: "IN_APP" },
+          update: { channel: "IN_APP" },
+        })
+      )
+  );
+}
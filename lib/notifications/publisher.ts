@@ -0,0 +1,103 @@
+/**
+ * Notification Publisher
+ *
+ * Fans notification events out to the signed-in user's open tabs via the
+ * SSE route at /api/notifications/stream.
+ *
+ * The default publisher is in-process, which is enough for a single instance.
+ * Multi-instance deployments can swap in an adapter backed by Redis pub/sub or
+ * Postgres LISTEN/NOTIFY with setNotificationPublisher() - callers only depend
+ * on the NotificationPublisher interface.
+ */
+
+import { EventEmitter } from "events";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Notification as delivered to the client */
+export interface NotificationPayload {
+  id: string;
+  type: string;
+  message: string;
+  read: boolean;
+  createdAt: Date;
+  entityType: string | null;
+  entityId: string | null;
+  actor: {
+    id: string;
+    name: string | null;
+    handle: string | null;
+    avatar: string | null;
+  } | null;
+}
+
+export type NotificationEvent =
+  | { type: "created"; notification: NotificationPayload }
+  /** ids is null when every notification was marked read */
+  | { type: "read"; ids: string[] | null };
+
+export type NotificationListener = (event: NotificationEvent) => void;
+
+export interface NotificationPublisher {
+  /** Deliver an event to every subscriber for the user */
+  publish(userId: string, event: NotificationEvent): Promise<void>;
+  /** Listen for a user's events. Returns an unsubscribe function. */
+  subscribe(userId: string, listener: NotificationListener): () => void;
+}
+
+// =============================================================================
+// In-Process Publisher
+// =============================================================================
+
+function createInProcessPublisher(): NotificationPublisher {
+  const emitter = new EventEmitter();
+  // One listener per open tab; don't warn on busy accounts
+  emitter.setMaxListeners(0);
+
+  return {
+    async publish(userId, event) {
+      emitter.emit(userId, event);
+    },
+    subscribe(userId, listener) {
+      emitter.on(userId, listener);
+      return () => {
+        emitter.off(userId, listener);
+      };
+    },
+  };
+}
+
+// Keep a single publisher across hot reloads so open streams keep receiving events
+const globalForPublisher = globalThis as unknown as {
+  notificationPublisher: NotificationPublisher | undefined;
+};
+
+/**
+ * Get the active notification publisher.
+ */
+export function getNotificationPublisher(): NotificationPublisher {
+  if (!globalForPublisher.notificationPublisher) {
+    globalForPublisher.notificationPublisher = createInProcessPublisher();
+  }
+  return globalForPublisher.notificationPublisher;
+}
+
+/**
+ * Replace the notification publisher (e.g. with a Redis or Postgres adapter).
+ */
+export function setNotificationPublisher(publisher: NotificationPublisher) {
+  globalForPublisher.notificationPublisher = publisher;
+}
+
+/**
+ * Publish an event without letting delivery failures affect the caller.
+ */
+export async function publishNotificationEvent(userId: string, event: NotificationEvent) {
+  try {
+    await getNotificationPublisher().publish(userId, event);
+  } catch (error) {
+    console.error("[Notifications] Failed to publish event:", error);
+  }
+}
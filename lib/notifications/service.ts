@@ -0,0 +1,241 @@
+/**
+ * Notification Service
+ *
+ * Creates Notification rows for events elsewhere in the app (follows, vouches,
+ * project membership changes, messages and video calls).
+ *
+ * Notifications are best-effort: a failure to notify is logged and never
+ * fails the action that triggered it. New notifications are also pushed to
+ * the recipient's open tabs through the notification publisher.
+ *
+ * Delivery follows the recipient's NotificationPreference for the type:
+ * NONE skips the notification entirely and INSTANT_EMAIL also emails it.
+ * DAILY_DIGEST notifications are emailed later by sendNotificationDigests().
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { Notification, NotificationType } from "@prisma/client";
+import { publishNotificationEvent } from "./publisher";
+import { getNotificationChannel } from "./preferences";
+import { sendInstantNotificationEmail } from "./email";
+import { getDataExportDownloadPath } from "@/lib/data-export/links";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Entity a notification links to */
+export type NotificationEntityType =
+  | "user"
+  | "vouch"
+  | "project"
+  | "dm_room"
+  | "data_export"
+  | "qualification"
+  | "tag_proposal"
+  | "saved_search";
+
+export interface CreateNotificationInput {
+  /** Recipient */
+  userId: string;
+  type: NotificationType;
+  /** User who triggered the notification */
+  actorId?: string;
+  entityType?: NotificationEntityType;
+  entityId?: string;
+  message: string;
+}
+
+export interface CreateNotificationOptions {
+  /**
+   * Skip creating the notification if an unread one with the same recipient,
+   * type, actor and entity was created within this many seconds.
+   * Prevents spam from repeated follow/unfollow or call attempts.
+   */
+  dedupeWindowSeconds?: number;
+}
+
+// =============================================================================
+// Creation
+// =============================================================================
+
+/**
+ * Create a notification.
+ *
+ * Users are never notified about their own actions, and nothing is created
+ * when the recipient has turned the type off.
+ *
+ * @returns The created notification, or null if skipped or failed
+ */
+export async function createNotification(
+  input: CreateNotificationInput,
+  options: CreateNotificationOptions = {}
+): Promise<Notification | null> {
+  if (input.actorId && input.actorId === input.userId) {
+    return null;
+  }
+
+  try {
+    const channel = await getNotificationChannel(input.userId, input.type);
+    if (channel === "NONE") {
+      return null;
+    }
+
+    if (options.dedupeWindowSeconds) {
+      const duplicate = await prisma.notification.findFirst({
+        where: {
+          userId: input.userId,
+          type: input.type,
+          actorId: input.actorId ?? null,
+          entityType: input.entityType ?? null,
+          entityId: input.entityId ?? null,
+          read: false,
+          createdAt: { gte: new Date(Date.now() - options.dedupeWindowSeconds * 1000) },
+        },
+        select: { id: true },
+      });
+
+      if (duplicate) {
+        return null;
+      }
+    }
+
+    const { actor, ...notification } = await prisma.notification.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        actorId: input.actorId,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        message: input.message,
+      },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            handle: true,
+            avatar: true,
+          },
+        },
+      },
+    });
+
+    await publishNotificationEvent(input.userId, {
+      type: "created",
+      notification: { ...notification, actor },
+    });
+
+    if (channel === "INSTANT_EMAIL") {
+      await sendInstantNotificationEmail(notification);
+    }
+
+    return notification;
+  } catch (error) {
+    console.error(`[Notifications] Failed to create ${input.type} notification:`, error);
+    return null;
+  }
+}
+
+/**
+ * Look up the display name used for a user in notification messages.
+ */
+export async function getActorName(actorId: string): Promise<string> {
+  const actor = await prisma.user.findUnique({
+    where: { id: actorId },
+    select: { name: true, handle: true },
+  });
+  return actor?.name || (actor?.handle ? `@${actor.handle}` : "Someone");
+}
+
+// =============================================================================
+// Entity Resolution
+// =============================================================================
+
+/**
+ * Resolve the page a notification should open.
+ *
+ * Falls back to the notifications page when the entity no longer exists
+ * or the recipient can no longer access it.
+ */
+export async function resolveNotificationHref(
+  notification: Pick<Notification, "userId" | "entityType" | "entityId">
+): Promise<string> {
+  const fallback = "/notifications";
+  const { entityType, entityId, userId } = notification;
+
+  if (!entityType || !entityId) {
+    return fallback;
+  }
+
+  switch (entityType as NotificationEntityType) {
+    case "user": {
+      const user = await prisma.user.findUnique({
+        where: { id: entityId, status: "ACTIVE" },
+        select: { handle: true },
+      });
+      return user?.handle ? `/u/${user.handle}` : fallback;
+    }
+
+    case "vouch": {
+      const vouch = await prisma.vouch.findUnique({
+        where: { id: entityId },
+        select: { candidate: { select: { handle: true } } },
+      });
+      return vouch?.candidate.handle ? `/u/${vouch.candidate.handle}` : fallback;
+    }
+
+    case "project": {
+      const project = await prisma.project.findUnique({
+        where: { id: entityId },
+        select: {
+          userId: true,
+          members: { where: { userId }, select: { id: true } },
+        },
+      });
+      if (!project || (project.userId !== userId && project.members.length === 0)) {
+        return fallback;
+      }
+      return `/projects/${entityId}/chat`;
+    }
+
+    case "dm_room": {
+      const room = await prisma.matrixRoom.findFirst({
+        where: { id: entityId, OR: [{ userAId: userId }, { userBId: userId }] },
+        select: { id: true },
+      });
+      return room ? `/messages/${room.id}` : fallback;
+    }
+
+    case "data_export": {
+      const dataExport = await prisma.dataExport.findFirst({
+        where: { id: entityId, userId, status: "READY", expiresAt: { gt: new Date() } },
+        select: { id: true },
+      });
+      return dataExport ? getDataExportDownloadPath(dataExport.id, userId) : "/me/account";
+    }
+
+    case "qualification": {
+      const qualification = await prisma.qualification.findFirst({
+        where: { id: entityId, userId },
+        select: { id: true },
+      });
+      return qualification ? "/me/settings" : fallback;
+    }
+
+    case "tag_proposal":
+      // Approved, merged and rejected proposals all show up on the member's skill list
+      return "/me/settings";
+
+    case "saved_search": {
+      const savedSearch = await prisma.savedSearch.findFirst({
+        where: { id: entityId, userId },
+        select: { id: true },
+      });
+      return savedSearch ? `/app?savedSearch=${savedSearch.id}` : fallback;
+    }
+
+    default:
+      return fallback;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Profile Completeness
+ *
+ * Scores how filled-in a profile is from 0 to 100 and lists the next steps to
+ * improve it. Each item has a weight and a target count; items below their
+ * target earn partial credit (two of three featured skills earns two thirds).
+ *
+ * The score is computed on read rather than stored, so it can't drift from
+ * the profile. The directory feed uses it as a relevance signal.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type CompletenessItemKey =
+  | "avatar"
+  | "bio"
+  | "links"
+  | "featuredSkills"
+  | "tools"
+  | "projects"
+  | "qualifications"
+  | "vouches";
+
+export interface CompletenessItem {
+  key: CompletenessItemKey;
+  label: string;
+  /** What to do next when the item isn't complete */
+  hint: string;
+  /** Where to complete it, if there's a page for it */
+  href: string | null;
+  current: number;
+  target: number;
+  done: boolean;
+}
+
+export interface ProfileCompleteness {
+  score: number;
+  items: CompletenessItem[];
+}
+
+interface ItemDefinition {
+  key: CompletenessItemKey;
+  label: string;
+  hint: string;
+  href: string | null;
+  weight: number;
+  target: number;
+}
+
+// Weights add up to 100
+const ITEMS: ItemDefinition[] = [
+  {
+    key: "avatar",
+    label: "Profile photo",
+    hint: "Upload a profile photo",
+    href: "/profile/edit",
+    weight: 15,
+    target: 1,
+  },
+  {
+    key: "bio",
+    label: "Bio",
+    hint: "Write a short bio about what you do",
+    href: "/profile/edit",
+    weight: 15,
+    target: 1,
+  },
+  {
+    key: "links",
+    label: "Links",
+    hint: "Add a link to your site, GitHub or portfolio",
+    href: "/profile/edit",
+    weight: 10,
+    target: 1,
+  },
+  {
+    key: "featuredSkills",
+    label: "Featured skills",
+    hint: "Feature your top three skills",
+    href: "/me/settings?tab=skills",
+    weight: 20,
+    target: 3,
+  },
+  {
+    key: "tools",
+    label: "Tools",
+    hint: "Add the tools you use",
+    href: "/me/settings?tab=tools",
+    weight: 10,
+    target: 3,
+  },
+  {
+    key: "projects",
+    label: "Projects",
+    hint: "Showcase a project",
+    href: "/me/settings?tab=projects",
+    weight: 10,
+    target: 1,
+  },
+  {
+    key: "qualifications",
+    label: "Qualifications",
+    hint: "Add a qualification or certification",
+    href: "/me/settings?tab=qualifications",
+    weight: 10,
+    target: 1,
+  },
+  {
+    key: "vouches",
+    label: "Vouches",
+    hint: "Ask someone you've worked with to vouch for you",
+    href: null,
+    weight: 10,
+    target: 1,
+  },
+];
+
+/**
+ * Prisma select for the fields computeProfileCompleteness() needs. Counts
+ * only what other members can see: approved tags and active vouchers.
+ */
+export const profileCompletenessSelect = {
+  avatar: true,
+  bio: true,
+  _count: {
+    select: {
+      links: true,
+      userSkills: { where: { featured: true, skillTag: { status: "APPROVED" } } },
+      userTools: { where: { toolTag: { status: "APPROVED" } } },
+      projects: true,
+      qualifications: true,
+      vouchesReceived: { where: { voucher: { status: "ACTIVE" } } },
+    },
+  },
+} satisfies Prisma.UserSelect;
+
+export type ProfileCompletenessFields = Prisma.UserGetPayload<{
+  select: typeof profileCompletenessSelect;
+}>;
+
+/**
+ * Score a profile loaded with profileCompletenessSelect.
+ */
+export function computeProfileCompleteness(user: ProfileCompletenessFields): ProfileCompleteness {
+  const counts: Record<CompletenessItemKey, number> = {
+    avatar: user.avatar ? 1 : 0,
+    bio: user.bio?.trim() ? 1 : 0,
+    links: user._count.links,
+    featuredSkills: user._count.userSkills,
+    tools: user._count.userTools,
+    projects: user._count.projects,
+    qualifications: user._count.qualifications,
+    vouches: user._count.vouchesReceived,
+  };
+
+  let score = 0;
+  const items = ITEMS.map(({ weight, ...item }) => {
+    const current = Math.min(counts[item.key], item.target);
+    score += (weight * current) / item.target;
+    return { ...item, current, done: current >= item.target };
+  });
+
+  return { score: Math.round(score), items };
+}
+
+/**
+ * SQL for each item's count, matching profileCompletenessSelect
+ */
+function completenessCountsSql(user: Prisma.Sql): Record<CompletenessItemKey, Prisma.Sql> {
+  return {
+    avatar: Prisma.sql`(${user}.avatar IS NOT NULL)::int`,
+    bio: Prisma.sql`(COALESCE(btrim(${user}.bio), '') <> '')::int`,
+    links: Prisma.sql`(SELECT COUNT(*) FROM "Link" l WHERE l."userId" = ${user}.id)`,
+    featuredSkills: Prisma.sql`(SELECT COUNT(*) FROM "UserSkill" us
+      JOIN "SkillTag" st ON st.id = us."skillTagId"
+      WHERE us."userId" = ${user}.id AND us.featured AND st.status = 'APPROVED')`,
+    tools: Prisma.sql`(SELECT COUNT(*) FROM "UserTool" ut
+      JOIN "ToolTag" tt ON tt.id = ut."toolTagId"
+      WHERE ut."userId" = ${user}.id AND tt.status = 'APPROVED')`,
+    projects: Prisma.sql`(SELECT COUNT(*) FROM "Project" p WHERE p."userId" = ${user}.id)`,
+    qualifications: Prisma.sql`(SELECT COUNT(*) FROM "Qualification" q
+      WHERE q."userId" = ${user}.id)`,
+    vouches: Prisma.sql`(SELECT COUNT(*) FROM "Vouch" v
+      JOIN "User" voucher ON voucher.id = v."voucherId"
+      WHERE v."candidateId" = ${user}.id AND voucher.status = 'ACTIVE')`,
+  };
+}
+
+/**
+ * SQL expression for the unrounded score (0-100) of the "User" row aliased
+ * as `user`, for ranking in the database. Same weights and partial credit as
+ * computeProfileCompleteness().
+ */
+export function profileCompletenessScoreSql(user: Prisma.Sql): Prisma.Sql {
+  const counts = completenessCountsSql(user);
+  const terms = ITEMS.map((item) => {
+    const credit = item.weight / item.target;
+    return Prisma.sql`LEAST(${counts[item.key]}, ${item.target})::float8 * ${credit}::float8`;
+  });
+  return Prisma.sql`(${Prisma.join(terms, " + ")})`;
+}
+
+/**
+ * Load and score a member's profile. Returns null if the user doesn't exist.
+ */
+export async function getProfileCompleteness(userId: string): Promise<ProfileCompleteness | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: profileCompletenessSelect,
+  });
+
+  return user ? computeProfileCompleteness(user) : null;
+}
@@ -122,3 +122,9 @@ export const videoCallRateLimiter = createRateLimiter({
   limit: 10,
   windowSeconds: 60,
 });
+
+/** Rate limiter for vouches: 10 per hour */
+export const vouchRateLimiter = createRateLimiter({
+  limit: 10,
+  windowSeconds: 60 * 60,
+});
@@ -0,0 +1,35 @@
+/**
+ * Directory Relevance Weights
+ *
+ * How much each signal adds to a member's score in the directory's
+ * "relevance" sort. Scores are computed in the database by
+ * lib/directory-relevance.ts; tune the numbers here.
+ */
+
+import type { SkillLevel } from "@prisma/client";
+
+export const RELEVANCE_WEIGHTS = {
+  /** Per skill you share with them, by their level in it */
+  sharedSkill: {
+    BEGINNER: 1,
+    INTERMEDIATE: 2,
+    ADVANCED: 2.5,
+    EXPERT: 3,
+  } satisfies Record<SkillLevel, number>,
+  /** Per endorsement on a shared skill, counting at most maxEndorsementsPerSkill */
+  sharedSkillEndorsement: 0.2,
+  maxEndorsementsPerSkill: 10,
+  /** Per tool you share with them */
+  sharedTool: 1,
+  /** Per member you follow who follows them, counting at most maxMutualFollows */
+  mutualFollow: 0.5,
+  maxMutualFollows: 6,
+  /** Per project you're both on, as owner or member */
+  sharedProject: 3,
+  /** When their location matches yours */
+  sameLocation: 1.5,
+  /** For a fully complete profile; partial profiles earn a share of it */
+  completeness: 2,
+  /** Times their search rank (0-1.2) when a search term is set */
+  searchRank: 5,
+};
@@ -0,0 +1,196 @@
+/**
+ * Saved Searches
+ *
+ * Members save a set of directory filters under a name and re-run it from the
+ * directory sidebar. With alerts on, sendSavedSearchAlerts() tells the owner
+ * about members who have started matching since the last run, whether they
+ * just became ACTIVE or changed their profile. SavedSearchMatch records who a
+ * search has already matched, so each member is reported once.
+ *
+ * Alerts are SAVED_SEARCH notifications, so the owner's notification
+ * preference picks in-app only, an instant email or the daily digest.
+ */
+
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { createNotification, getNotificationChannel } from "@/lib/notifications";
+import { directoryFilterSql } from "@/lib/directory-filters";
+import { searchMatchSql } from "@/lib/directory-search";
+import type { TagKind } from "@/lib/tags";
+
+/** Most saved searches per member */
+export const MAX_SAVED_SEARCHES = 20;
+
+/** The directory feed filters a saved search keeps (not sort order or paging) */
+export const savedSearchFiltersSchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  skillTagIds: z.array(z.string()).max(50).optional(),
+  toolTagIds: z.array(z.string()).max(50).optional(),
+  location: z.string().trim().max(100).optional(),
+  hasActiveProject: z.boolean().optional(),
+});
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+
+/**
+ * Read stored filters, dropping anything that no longer validates.
+ */
+export function parseSavedSearchFilters(value: Prisma.JsonValue): SavedSearchFilters {
+  const result = savedSearchFiltersSchema.safeParse(value);
+  return result.success ? result.data : {};
+}
+
+/**
+ * Update saved searches that filter on a tag being merged or deleted, inside
+ * the transaction that does it. A merged tag is replaced by the one it was
+ * merged into; a deleted tag is dropped. A search left with no tags for that
+ * filter would match far more members, so its alerts are turned off.
+ */
+export async function replaceSavedSearchTag(
+  tx: Prisma.TransactionClient,
+  kind: TagKind,
+  tagId: string,
+  replacementId: string | null
+) {
+  const key = kind === "skill" ? "skillTagIds" : "toolTagIds";
+  const savedSearches = await tx.savedSearch.findMany({
+    where: { filters: { path: [key], array_contains: [tagId] } },
+    select: { id: true, filters: true },
+  });
+
+  for (const savedSearch of savedSearches) {
+    const filters = parseSavedSearchFilters(savedSearch.filters);
+    const tagIds = new Set(filters[key]);
+    tagIds.delete(tagId);
+    if (replacementId) {
+      tagIds.add(replacementId);
+    }
+
+    await tx.savedSearch.update({
+      where: { id: savedSearch.id },
+      data: {
+        filters: { ...filters, [key]: tagIds.size > 0 ? [...tagIds] : undefined },
+        ...(tagIds.size === 0 && { alertsEnabled: false }),
+      },
+    });
+  }
+}
+
+/**
+ * Find the active members, other than the owner, that match the filters.
+ */
+export async function findSavedSearchMatches(
+  ownerId: string,
+  filters: SavedSearchFilters
+): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT u.id
+      FROM "User" u
+     WHERE u.status = 'ACTIVE'
+       AND u.id <> ${ownerId}
+       ${filters.search ? Prisma.sql`AND ${searchMatchSql(filters.search)}` : Prisma.empty}
+       AND ${Prisma.join(Object.values(directoryFilterSql(filters)), " AND ")}
+  `;
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Mark everyone a search matches right now as already seen, so alerts only
+ * report members who match later. Run when alerts are turned on.
+ */
+export async function resetSavedSearchMatches(savedSearch: {
+  id: string;
+  userId: string;
+  filters: Prisma.JsonValue;
+}) {
+  const matchedUserIds = await findSavedSearchMatches(
+    savedSearch.userId,
+    parseSavedSearchFilters(savedSearch.filters)
+  );
+
+  await prisma.$transaction([
+    prisma.savedSearchMatch.deleteMany({ where: { savedSearchId: savedSearch.id } }),
+    prisma.savedSearchMatch.createMany({
+      data: matchedUserIds.map((userId) => ({ savedSearchId: savedSearch.id, userId })),
+      skipDuplicates: true,
+    }),
+    prisma.savedSearch.update({
+      where: { id: savedSearch.id },
+      data: { lastCheckedAt: new Date() },
+    }),
+  ]);
+}
+
+/**
+ * Notify owners of saved searches with alerts on about new matches.
+ *
+ * Intended to run once a day from the cron route. A failing search is logged
+ * and skipped; its new matches are picked up on the next run.
+ *
+ * @returns Number of searches checked, alerts sent and searches that failed
+ */
+export async function sendSavedSearchAlerts() {
+  const savedSearches = await prisma.savedSearch.findMany({
+    where: { alertsEnabled: true, user: { status: "ACTIVE" } },
+    select: { id: true, userId: true, name: true, filters: true },
+  });
+
+  let checked = 0;
+  let alerted = 0;
+  let failed = 0;
+
+  for (const savedSearch of savedSearches) {
+    try {
+      const [matchedUserIds, seen] = await Promise.all([
+        findSavedSearchMatches(savedSearch.userId, parseSavedSearchFilters(savedSearch.filters)),
+        prisma.savedSearchMatch.findMany({
+          where: { savedSearchId: savedSearch.id },
+          select: { userId: true },
+        }),
+      ]);
+
+      const seenUserIds = new Set(seen.map((match) => match.userId));
+      const newUserIds = matchedUserIds.filter((userId) => !seenUserIds.has(userId));
+
+      if (newUserIds.length > 0) {
+        // Notify before marking them seen, so a failed alert is retried next
+        // run. With these alerts turned off, they're only marked seen.
+        const channel = await getNotificationChannel(savedSearch.userId, "SAVED_SEARCH");
+        if (channel !== "NONE") {
+          const notification = await createNotification({
+            userId: savedSearch.userId,
+            type: "SAVED_SEARCH",
+            entityType: "saved_search",
+            entityId: savedSearch.id,
+            message:
+              newUserIds.length === 1
+                ? `1 new member matches your saved search "${savedSearch.name}"`
+                : `${newUserIds.length} new members match your saved search "${savedSearch.name}"`,
+          });
+          if (!notification) {
+            throw new Error("Failed to create the alert notification");
+          }
+          alerted++;
+        }
+
+        await prisma.savedSearchMatch.createMany({
+          data: newUserIds.map((userId) => ({ savedSearchId: savedSearch.id, userId })),
+          skipDuplicates: true,
+        });
+      }
+
+      await prisma.savedSearch.update({
+        where: { id: savedSearch.id },
+        data: { lastCheckedAt: new Date() },
+      });
+      checked++;
+    } catch (error) {
+      console.error(`[SavedSearches] Failed to check saved search ${savedSearch.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { checked, alerted, failed };
+}
@@ -0,0 +1,122 @@
+/**
+ * Server-tracked Sessions
+ *
+ * Auth.js uses stateless JWTs, so on their own they can't be revoked.
+ * Every sign-in creates a UserSession row and stores its id in the JWT
+ * (`sid`); the jwt callback rejects tokens whose session was revoked.
+ */
+
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+
+/** How often lastSeenAt is refreshed, to avoid a write on every request */
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Read device details from the current request, if there is one.
+ */
+async function getRequestDevice(): Promise<{ userAgent: string | null; ip: string | null }> {
+  try {
+    const requestHeaders = await headers();
+    return {
+      userAgent: requestHeaders.get("user-agent")?.slice(0, 512) || null,
+      ip: requestHeaders.get("x-forwarded-for")?.split(",")[0]?.trim() || null,
+    };
+  } catch {
+    // Called outside a request scope
+    return { userAgent: null, ip: null };
+  }
+}
+
+/**
+ * Record a new signed-in session for a user.
+ *
+ * @returns The session id to embed in the JWT
+ */
+export async function createUserSession(userId: string): Promise<string> {
+  const device = await getRequestDevice();
+
+  const session = await prisma.userSession.create({
+    data: { userId, ...device },
+    select: { id: true },
+  });
+
+  return session.id;
+}
+
+/**
+ * Refresh a session's last-seen time (at most every few minutes).
+ */
+export async function touchUserSession(sessionId: string, lastSeenAt: Date): Promise<void> {
+  if (Date.now() - lastSeenAt.getTime() < LAST_SEEN_UPDATE_INTERVAL_MS) {
+    return;
+  }
+
+  const device = await getRequestDevice();
+
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { lastSeenAt: new Date(), ...(device.ip && { ip: device.ip }) },
+  });
+}
+
+/**
+ * Revoke one session.
+ */
+export async function revokeUserSession(sessionId: string): Promise<void> {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping one (the caller's).
+ *
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllUserSessions(
+  userId: string,
+  options: { exceptSessionId?: string } = {}
+): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId && { id: { not: options.exceptSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  return result.count;
+}
+
+/**
+ * Short, human-readable device label from a user agent string.
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Browser";
+
+  const os =
+    [
+      ["iPhone", "iPhone"],
+      ["iPad", "iPad"],
+      ["Android", "Android"],
+      ["Mac OS X", "macOS"],
+      ["Windows", "Windows"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
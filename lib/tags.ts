@@ -0,0 +1,407 @@
+/**
+ * Skill and Tool Taxonomy
+ *
+ * Helpers for administering SkillTag and ToolTag: slugs, aliases and merging
+ * duplicate tags. Aliases are alternative names ("JS" for JavaScript) that
+ * search and résumé imports resolve to the canonical tag.
+ *
+ * Members can propose tags that aren't in the list yet. A proposal is a tag
+ * with status PENDING: it's attached to the proposer's profile straight away
+ * but hidden from everyone else until a moderator approves it.
+ */
+
+import { Prisma } from "@prisma/client";
+import type { SkillLevel, ToolLevel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { replaceSavedSearchTag } from "@/lib/saved-searches";
+
+export type TagKind = "skill" | "tool";
+
+export class TagError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TagError";
+  }
+}
+
+// =============================================================================
+// Slugs
+// =============================================================================
+
+/**
+ * Lowercase, hyphenated slug for a tag or alias name.
+ * Matches the seeded slugs ("Vue.js" → "vuejs", "UI/UX Design" → "ui-ux-design").
+ */
+export function slugifyTag(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\+/g, "plus")
+    .replace(/#/g, "sharp")
+    .replace(/\./g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Check a slug isn't already used by another tag or alias of the same kind.
+ *
+ * @throws TagError if the slug is taken
+ */
+export async function assertTagSlugAvailable(
+  kind: TagKind,
+  slug: string,
+  options: { exceptTagId?: string } = {}
+): Promise<void> {
+  if (!slug) {
+    throw new TagError("Name must contain letters or numbers");
+  }
+
+  const [tag, alias] =
+    kind === "skill"
+      ? await Promise.all([
+          prisma.skillTag.findUnique({
+            where: { slug },
+            select: { id: true, name: true, status: true },
+          }),
+          prisma.skillTagAlias.findUnique({
+            where: { slug },
+            select: { skillTag: { select: { id: true, name: true } } },
+          }),
+        ]).then(([tag, alias]) => [tag, alias?.skillTag ?? null] as const)
+      : await Promise.all([
+          prisma.toolTag.findUnique({
+            where: { slug },
+            select: { id: true, name: true, status: true },
+          }),
+          prisma.toolTagAlias.findUnique({
+            where: { slug },
+            select: { toolTag: { select: { id: true, name: true } } },
+          }),
+        ]).then(([tag, alias]) => [tag, alias?.toolTag ?? null] as const);
+
+  if (tag && tag.id !== options.exceptTagId) {
+    throw new TagError(
+      tag.status === "PENDING"
+        ? `"${tag.name}" has already been proposed and is awaiting review`
+        : `"${tag.name}" already exists`
+    );
+  }
+
+  if (alias) {
+    throw new TagError(`That name is already an alias of "${alias.name}"`);
+  }
+}
+
+// =============================================================================
+// Similar Tags
+// =============================================================================
+
+/** Minimum similarity (0–1) for a name to count as a likely duplicate */
+const SIMILARITY_THRESHOLD = 0.75;
+
+/** Slug with separators removed, so "node-js" and "nodejs" compare equal */
+function compactSlug(name: string): string {
+  return slugifyTag(name).replace(/-/g, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How alike two tag names are, from 0 to 1. Names that compact to the same
+ * slug score 1; otherwise it's edit distance relative to the longer name, with
+ * a floor for one name containing the other ("React" / "React Native").
+ */
+export function tagNameSimilarity(a: string, b: string): number {
+  const left = compactSlug(a);
+  const right = compactSlug(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const longest = Math.max(left.length, right.length);
+  const score = 1 - levenshtein(left, right) / longest;
+
+  const shortest = Math.min(left.length, right.length);
+  if (shortest >= 4 && (left.includes(right) || right.includes(left))) {
+    return Math.max(score, SIMILARITY_THRESHOLD);
+  }
+  return score;
+}
+
+export interface SimilarTag {
+  id: string;
+  name: string;
+  category: string | null;
+  status: "PENDING" | "APPROVED";
+  /** The alias that matched, when it was an alias rather than the name */
+  matchedAlias: string | null;
+  similarity: number;
+}
+
+/**
+ * Find existing tags (approved or pending) whose name or an alias looks like a
+ * duplicate of the given name, most similar first.
+ */
+export async function findSimilarTags(
+  kind: TagKind,
+  name: string,
+  options: { exceptTagId?: string; limit?: number } = {}
+): Promise<SimilarTag[]> {
+  const select = {
+    id: true,
+    name: true,
+    category: true,
+    status: true,
+    aliases: { select: { name: true } },
+  } as const;
+
+  const tags =
+    kind === "skill"
+      ? await prisma.skillTag.findMany({ select })
+      : await prisma.toolTag.findMany({ select });
+
+  const matches: SimilarTag[] = [];
+  for (const tag of tags) {
+    if (tag.id === options.exceptTagId) continue;
+
+    let best = { similarity: tagNameSimilarity(name, tag.name), matchedAlias: null as string | null };
+    for (const alias of tag.aliases) {
+      const similarity = tagNameSimilarity(name, alias.name);
+      if (similarity > best.similarity) {
+        best = { similarity, matchedAlias: alias.name };
+      }
+    }
+
+    if (best.similarity >= SIMILARITY_THRESHOLD) {
+      matches.push({
+        id: tag.id,
+        name: tag.name,
+        category: tag.category,
+        status: tag.status,
+        ...best,
+      });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit ?? 5);
+}
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+const LEVEL_ORDER = ["BEGINNER", "INTERMEDIATE", "ADVANCED", "EXPERT"] as const;
+
+function higherLevel<T extends SkillLevel | ToolLevel>(a: T, b: T): T {
+  return LEVEL_ORDER.indexOf(a) >= LEVEL_ORDER.indexOf(b) ? a : b;
+}
+
+function higherYears(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.max(a, b);
+}
+
+/**
+ * Merge one skill tag into another.
+ *
+ * Members with only the source tag are re-pointed to the target. Members with
+ * both keep a single UserSkill (the higher level and years, featured if either
+ * was) and keep their endorsements. The source tag's name and aliases become
+ * aliases of the target, then the source tag is deleted. Saved searches that
+ * filter on the source tag filter on the target instead.
+ *
+ * @returns Number of members re-pointed and number whose skills were combined
+ */
+export async function mergeSkillTags(
+  sourceId: string,
+  targetId: string
+): Promise<{ moved: number; combined: number }> {
+  if (sourceId === targetId) {
+    throw new TagError("Choose a different tag to merge into");
+  }
+
+  return prisma.$transaction(
+    async (tx) => {
+      const [source, target] = await Promise.all([
+        tx.skillTag.findUnique({ where: { id: sourceId }, select: { name: true, slug: true } }),
+        tx.skillTag.findUnique({ where: { id: targetId }, select: { id: true } }),
+      ]);
+
+      if (!source || !target) {
+        throw new TagError("Tag not found");
+      }
+
+      const sourceSkills = await tx.userSkill.findMany({
+        where: { skillTagId: sourceId },
+        select: { id: true, userId: true, level: true, featured: true, yearsOfExp: true },
+      });
+
+      // Rows that would break @@unique([userId, skillTagId]) if re-pointed
+      const overlapping = await tx.userSkill.findMany({
+        where: { skillTagId: targetId, userId: { in: sourceSkills.map((s) => s.userId) } },
+        select: { id: true, userId: true, level: true, featured: true, yearsOfExp: true },
+      });
+      const targetByUser = new Map(overlapping.map((skill) => [skill.userId, skill]));
+
+      let combined = 0;
+      for (const skill of sourceSkills) {
+        const existing = targetByUser.get(skill.userId);
+        if (!existing) continue;
+
+        await tx.userSkill.update({
+          where: { id: existing.id },
+          data: {
+            level: higherLevel(existing.level, skill.level),
+            featured: existing.featured || skill.featured,
+            yearsOfExp: higherYears(existing.yearsOfExp, skill.yearsOfExp),
+          },
+        });
+
+        const endorsements = await tx.skillEndorsement.findMany({
+          where: { userSkillId: skill.id },
+          select: { endorserId: true, createdAt: true },
+        });
+        if (endorsements.length > 0) {
+          await tx.skillEndorsement.createMany({
+            data: endorsements.map((endorsement) => ({ ...endorsement, userSkillId: existing.id })),
+            skipDuplicates: true,
+          });
+        }
+
+        await tx.userSkill.delete({ where: { id: skill.id } });
+        combined++;
+      }
+
+      const { count: moved } = await tx.userSkill.updateMany({
+        where: { skillTagId: sourceId },
+        data: { skillTagId: targetId },
+      });
+
+      await tx.skillTagAlias.updateMany({
+        where: { skillTagId: sourceId },
+        data: { skillTagId: targetId },
+      });
+      await replaceSavedSearchTag(tx, "skill", sourceId, targetId);
+      await tx.skillTag.delete({ where: { id: sourceId } });
+      await tx.skillTagAlias.create({
+        data: { name: source.name, slug: source.slug, skillTagId: targetId },
+      });
+
+      return { moved, combined };
+    },
+    { timeout: 30_000 }
+  );
+}
+
+/**
+ * Merge one tool tag into another. Same rules as mergeSkillTags().
+ */
+export async function mergeToolTags(
+  sourceId: string,
+  targetId: string
+): Promise<{ moved: number; combined: number }> {
+  if (sourceId === targetId) {
+    throw new TagError("Choose a different tag to merge into");
+  }
+
+  return prisma.$transaction(
+    async (tx) => {
+      const [source, target] = await Promise.all([
+        tx.toolTag.findUnique({ where: { id: sourceId }, select: { name: true, slug: true } }),
+        tx.toolTag.findUnique({ where: { id: targetId }, select: { id: true } }),
+      ]);
+
+      if (!source || !target) {
+        throw new TagError("Tag not found");
+      }
+
+      const sourceTools = await tx.userTool.findMany({
+        where: { toolTagId: sourceId },
+        select: { id: true, userId: true, level: true, featured: true, yearsOfExp: true },
+      });
+
+      // Rows that would break @@unique([userId, toolTagId]) if re-pointed
+      const overlapping = await tx.userTool.findMany({
+        where: { toolTagId: targetId, userId: { in: sourceTools.map((t) => t.userId) } },
+        select: { id: true, userId: true, level: true, featured: true, yearsOfExp: true },
+      });
+      const targetByUser = new Map(overlapping.map((tool) => [tool.userId, tool]));
+
+      let combined = 0;
+      for (const tool of sourceTools) {
+        const existing = targetByUser.get(tool.userId);
+        if (!existing) continue;
+
+        await tx.userTool.update({
+          where: { id: existing.id },
+          data: {
+            level: higherLevel(existing.level, tool.level),
+            featured: existing.featured || tool.featured,
+            yearsOfExp: higherYears(existing.yearsOfExp, tool.yearsOfExp),
+          },
+        });
+        await tx.userTool.delete({ where: { id: tool.id } });
+        combined++;
+      }
+
+      const { count: moved } = await tx.userTool.updateMany({
+        where: { toolTagId: sourceId },
+        data: { toolTagId: targetId },
+      });
+
+      await tx.toolTagAlias.updateMany({
+        where: { toolTagId: sourceId },
+        data: { toolTagId: targetId },
+      });
+      await replaceSavedSearchTag(tx, "tool", sourceId, targetId);
+      await tx.toolTag.delete({ where: { id: sourceId } });
+      await tx.toolTagAlias.create({
+        data: { name: source.name, slug: source.slug, toolTagId: targetId },
+      });
+
+      return { moved, combined };
+    },
+    { timeout: 30_000 }
+  );
+}
+
+/**
+ * Whether an error is a unique constraint violation (a name or slug race).
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+// =============================================================================
+// Deleting
+// =============================================================================
+
+/**
+ * Delete a tag. It's removed from every profile and saved search that uses it.
+ */
+export async function removeTag(kind: TagKind, tagId: string) {
+  await prisma.$transaction(async (tx) => {
+    await replaceSavedSearchTag(tx, kind, tagId, null);
+    if (kind === "skill") {
+      await tx.skillTag.delete({ where: { id: tagId } });
+    } else {
+      await tx.toolTag.delete({ where: { id: tagId } });
+    }
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Single-Use Tokens
+ *
+ * Expiring, single-use tokens for email links (email verification, password
+ * reset). Stored in the VerificationToken table alongside Auth.js magic-link
+ * tokens; the identifier is prefixed with the token's purpose so the two
+ * never collide.
+ *
+ * Only a SHA-256 hash of each token is stored, so a database leak doesn't
+ * expose usable links.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+
+export type TokenPurpose = "verify-email" | "password-reset";
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toIdentifier(purpose: TokenPurpose, subject: string): string {
+  return `${purpose}:${subject}`;
+}
+
+/**
+ * Issue a token for a subject (e.g. an email address or user ID).
+ * Any earlier tokens for the same purpose and subject are revoked.
+ *
+ * @returns The raw token to put in the emailed link
+ */
+export async function issueToken(
+  purpose: TokenPurpose,
+  subject: string,
+  ttlSeconds: number
+): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const identifier = toIdentifier(purpose, subject);
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: {
+        identifier,
+        token: hashToken(token),
+        expires: new Date(Date.now() + ttlSeconds * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Consume a token. Each token can be consumed once.
+ *
+ * @returns The subject the token was issued for, or null if the token is
+ *   unknown, expired or already used
+ */
+export async function consumeToken(purpose: TokenPurpose, token: string): Promise<string | null> {
+  const hashed = hashToken(token);
+  const record = await prisma.verificationToken.findFirst({
+    where: { token: hashed, identifier: { startsWith: `${purpose}:` } },
+  });
+
+  if (!record) {
+    return null;
+  }
+
+  // Delete first so concurrent requests can't both consume the token
+  const deleted = await prisma.verificationToken.deleteMany({
+    where: { identifier: record.identifier, token: hashed },
+  });
+
+  if (deleted.count === 0 || record.expires < new Date()) {
+    return null;
+  }
+
+  return record.identifier.slice(purpose.length + 1);
+}
+
+/**
+ * Check a token without consuming it (e.g. to validate a link before
+ * showing a form).
+ */
+export async function peekToken(purpose: TokenPurpose, token: string): Promise<string | null> {
+  const record = await prisma.verificationToken.findFirst({
+    where: {
+      token: hashToken(token),
+      identifier: { startsWith: `${purpose}:` },
+      expires: { gt: new Date() },
+    },
+  });
+
+  return record ? record.identifier.slice(purpose.length + 1) : null;
+}
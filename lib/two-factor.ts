@@ -0,0 +1,123 @@
+/**
+ * Two-Factor Authentication
+ *
+ * TOTP-based 2FA with one-time recovery codes.
+ *
+ * - Secrets are stored encrypted (lib/encryption) and only become active once
+ *   the user confirms enrolment with a valid code.
+ * - Recovery codes are high-entropy random strings, so a SHA-256 hash is
+ *   enough to store them safely.
+ * - ADMIN and MODERATOR accounts must enroll before using moderation tools.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { decrypt } from "@/lib/encryption";
+import { verifyTotp } from "@/lib/totp";
+import type { UserRole } from "@prisma/client";
+
+/** Number of recovery codes issued at enrolment */
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Whether a role must have 2FA enabled.
+ */
+export function isTwoFactorRequired(role: UserRole): boolean {
+  return role === "ADMIN" || role === "MODERATOR";
+}
+
+// =============================================================================
+// Recovery Codes
+// =============================================================================
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set.
+ *
+ * @returns The plain codes - show them to the user once; they can't be recovered
+ */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Consume a recovery code.
+ *
+ * @returns true if the code was valid and unused
+ */
+async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const result = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Verify a TOTP code against a user's secret without checking whether 2FA is
+ * enabled (used to confirm enrolment).
+ *
+ * Accepted codes can't be reused: the matching time step is recorded and
+ * codes from that step or earlier are rejected.
+ */
+export async function verifyTotpForUser(userId: string, code: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpLastUsedStep: true },
+  });
+
+  if (!user?.totpSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(decrypt(user.totpSecret), code);
+  if (step === null || (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep)) {
+    return false;
+  }
+
+  // Conditional update so two concurrent requests can't both use the code
+  const result = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Verify a second factor for a user with 2FA enabled.
+ * Accepts either a current TOTP code or an unused recovery code.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed.replace(/\s/g, ""))) {
+    return verifyTotpForUser(userId, trimmed);
+  }
+  return consumeRecoveryCode(userId, trimmed);
+}
@@ -26,7 +26,7 @@ export async function middleware(request: NextRequest) {
   });
 
   // Protect app routes - require authentication
-  const protectedRoutes = ["/app", "/discover", "/profile", "/u/", "/me/", "/onboarding", "/messages", "/video"];
+  const protectedRoutes = ["/app", "/discover", "/profile", "/u/", "/me/", "/onboarding", "/messages", "/video", "/notifications"];
   const isProtectedRoute = protectedRoutes.some((route) =>
     pathname.startsWith(route)
   );
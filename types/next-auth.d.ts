@@ -8,5 +8,16 @@ declare module "next-auth" {
       name?: string | null;
       image?: string | null;
     };
+    /** Id of the server-tracked UserSession behind this JWT */
+    sessionId?: string;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    /** User.sessionVersion when the token was issued */
+    sessionVersion?: number;
+    /** UserSession id; revoking that row signs this token out */
+    sid?: string;
   }
 }